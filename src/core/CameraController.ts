@@ -1,5 +1,20 @@
 import * as THREE from 'three';
 
+// Extra field of view while the nitro is firing, and how fast it eases in and out
+const BOOST_FOV_INCREASE = 15;
+const FOV_EASE_RATE = 6;
+
+// Cinematic replay camera: how long a shot is held, where the camera is placed
+// beside the action, and how far the action may move away before cutting
+const CINEMATIC_SHOT_TIME = 4;          // Seconds
+const CINEMATIC_MIN_DISTANCE = 8;
+const CINEMATIC_MAX_DISTANCE = 18;
+const CINEMATIC_MIN_HEIGHT = 1;
+const CINEMATIC_MAX_HEIGHT = 6;
+const CINEMATIC_CUT_DISTANCE = 35;
+const CINEMATIC_FRAMED_SIZE = 6;        // Metres kept in view around the target
+const CINEMATIC_MIN_FOV = 20;
+
 /**
  * Camera mode enum for the different view positions
  */
@@ -9,6 +24,14 @@ export enum CameraMode {
   STANDARD_FOLLOW = 2   // Standard third-person view (current behavior)
 }
 
+/**
+ * Cameras available while watching a replay
+ */
+export enum ReplayCameraMode {
+  FREE = 'free',           // Orbit the action with the mouse, zoom with the wheel
+  CINEMATIC = 'cinematic'  // Trackside shots that cut as the action moves on
+}
+
 /**
  * Simple camera controller to orbit around a target point
  */
@@ -41,6 +64,17 @@ export class CameraController {
   private savedPhi: number = Math.PI / 4;
   private savedRadius: number = 8;
   
+  // Field of view, widened while boosting
+  private baseFov: number;
+  private boostFov: boolean = false;
+  
+  // Replay camera, null during play
+  private replayMode: ReplayCameraMode | null = null;
+  private savedPositionUpdate: boolean = true;
+  private savedInput: boolean = true;
+  private cinematicPosition: THREE.Vector3 | null = null;
+  private cinematicTimer: number = 0;
+  
   /**
    * Constructor
    * @param camera The camera to control
@@ -49,6 +83,7 @@ export class CameraController {
   constructor(camera: THREE.PerspectiveCamera, element: HTMLElement) {
     this.camera = camera;
     this.element = element;
+    this.baseFov = camera.fov;
     
     // Initialize camera position
     this.updateCameraPosition();
@@ -260,6 +295,27 @@ export class CameraController {
     }
   }
   
+  /**
+   * Widen the view while the nitro is firing
+   * @param active Whether the player is boosting
+   */
+  public setBoostFov(active: boolean): void {
+    this.boostFov = active;
+  }
+  
+  /**
+   * Ease the field of view towards its target
+   * @param deltaTime Time since last update
+   */
+  public updateFov(deltaTime: number): void {
+    const targetFov = this.baseFov + (this.boostFov ? BOOST_FOV_INCREASE : 0);
+    const difference = targetFov - this.camera.fov;
+    if (Math.abs(difference) < 0.01) return;
+    
+    this.camera.fov += difference * Math.min(1, FOV_EASE_RATE * deltaTime);
+    this.camera.updateProjectionMatrix();
+  }
+  
   /**
    * Cycle to the next camera mode
    * @returns The new camera mode
@@ -269,4 +325,109 @@ export class CameraController {
     this.setCameraMode(nextMode as CameraMode);
     return nextMode as CameraMode;
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Take over the camera to watch a replay
+   * @param mode Replay camera to start with
+   */
+  public startReplay(mode: ReplayCameraMode): void {
+    if (this.replayMode === null) {
+      this.savedPositionUpdate = this.positionUpdateEnabled;
+      this.savedInput = this.inputEnabled;
+    }
+    
+    // The replay places the camera itself; input only steers the free camera's orbit
+    this.positionUpdateEnabled = false;
+    this.inputEnabled = true;
+    this.setReplayMode(mode);
+  }
+  
+  /**
+   * Switch the replay camera
+   * @param mode Replay camera
+   */
+  public setReplayMode(mode: ReplayCameraMode): void {
+    this.replayMode = mode;
+    this.cinematicPosition = null;
+    
+    if (mode === ReplayCameraMode.FREE) {
+      this.camera.fov = this.baseFov;
+      this.camera.updateProjectionMatrix();
+    }
+  }
+  
+  /**
+   * Get the replay camera
+   * @returns Replay camera, or null during play
+   */
+  public getReplayMode(): ReplayCameraMode | null {
+    return this.replayMode;
+  }
+  
+  /**
+   * Move the replay camera to show the action
+   * @param target Position to look at
+   * @param deltaTime Replay time since last update, so shots last as long at any playback speed
+   */
+  public updateReplay(target: THREE.Vector3, deltaTime: number): void {
+    if (this.replayMode === ReplayCameraMode.FREE) {
+      // Same orbit as the follow camera, but around the target
+      this.camera.position.set(
+        target.x + this.radius * Math.sin(this.phi) * Math.cos(this.theta),
+        target.y + this.radius * Math.cos(this.phi),
+        target.z + this.radius * Math.sin(this.phi) * Math.sin(this.theta)
+      );
+      this.camera.lookAt(target);
+    } else if (this.replayMode === ReplayCameraMode.CINEMATIC) {
+      this.cinematicTimer -= deltaTime;
+      
+      // Cut to a new shot when this one has run its time or the action has left it
+      if (!this.cinematicPosition || this.cinematicTimer <= 0
+          || this.cinematicPosition.distanceTo(target) > CINEMATIC_CUT_DISTANCE) {
+        this.cinematicPosition = this.placeCinematicShot(target);
+        this.cinematicTimer = CINEMATIC_SHOT_TIME;
+      }
+      
+      this.camera.position.copy(this.cinematicPosition);
+      this.camera.lookAt(target);
+      
+      // Zoom in on distant action so it stays the same size on screen
+      const distance = Math.max(1, this.cinematicPosition.distanceTo(target));
+      const fov = THREE.MathUtils.radToDeg(2 * Math.atan(CINEMATIC_FRAMED_SIZE / distance));
+      this.camera.fov = THREE.MathUtils.clamp(fov, CINEMATIC_MIN_FOV, this.baseFov);
+      this.camera.updateProjectionMatrix();
+    }
+  }
+  
+  /**
+   * Pick a spot beside the action for the next cinematic shot
+   * @param target Position the shot looks at
+   * @returns Camera position
+   */
+  private placeCinematicShot(target: THREE.Vector3): THREE.Vector3 {
+    const angle = Math.random() * Math.PI * 2;
+    const distance = THREE.MathUtils.randFloat(CINEMATIC_MIN_DISTANCE, CINEMATIC_MAX_DISTANCE);
+    const height = THREE.MathUtils.randFloat(CINEMATIC_MIN_HEIGHT, CINEMATIC_MAX_HEIGHT);
+    
+    return new THREE.Vector3(
+      target.x + Math.cos(angle) * distance,
+      target.y + height,
+      target.z + Math.sin(angle) * distance
+    );
+  }
+  
+  /**
+   * Hand the camera back to the game after a replay
+   */
+  public stopReplay(): void {
+    if (this.replayMode === null) return;
+    
+    this.replayMode = null;
+    this.cinematicPosition = null;
+    this.positionUpdateEnabled = this.savedPositionUpdate;
+    this.inputEnabled = this.savedInput;
+    
+    this.camera.fov = this.baseFov + (this.boostFov ? BOOST_FOV_INCREASE : 0);
+    this.camera.updateProjectionMatrix();
+  }
+}
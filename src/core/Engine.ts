@@ -3,14 +3,45 @@ import * as CANNON from 'cannon-es';
 import { CameraController, CameraMode } from './CameraController';
 import { CityGenerator } from './environment/CityGenerator';
 import { PhysicsWorld } from './physics/PhysicsWorld';
+import { SpatialHash } from './utils/SpatialHash';
+import { GameClock } from './utils/GameClock';
 import { VehicleControls } from './controls/VehicleControls';
 import { Vehicle } from '../entities/vehicles/Vehicle';
 import { VehicleFactory } from '../entities/vehicles/VehicleFactory';
+import { REDLINE_RPM, LIMITER_RPM } from '../entities/vehicles/Gearbox';
+import { SurfaceQuery, surfaceDefinitions } from './environment/Surfaces';
 import { CollisionManager, CollisionObjectType } from '../systems/CollisionManager';
 import { NPCManager } from '../systems/NPCManager';
+import { OpponentManager } from '../systems/OpponentManager';
+import { PoliceManager, MAX_WANTED_LEVEL } from '../systems/PoliceManager';
+import { TrafficManager } from '../systems/TrafficManager';
+import { PickupManager } from '../systems/PickupManager';
 import { Minimap } from '../ui/Minimap';
 import { AudioManager } from '../systems/AudioManager';
 import { ParticleSystem, ParticleEffectType } from '../systems/ParticleSystem';
+import { GameOptions, GameMode } from '../game/GameOptions';
+import { SaveManager, RunStats, RunOutcome } from '../game/SaveManager';
+import { GameSettings, graphicsPresets, createDefaultSettings } from '../game/Settings';
+import { SettingsScreen } from '../ui/SettingsScreen';
+import { ReplayViewer } from '../ui/ReplayViewer';
+import { ReplayRecorder, ReplayActorSource, ReplayActorKind, ReplayEvent } from '../systems/ReplayRecorder';
+import { getMission } from '../game/Missions';
+import { PickupType, PICKUP_COUNT } from '../game/Pickups';
+import { MissionManager, MissionStatus } from '../game/MissionManager';
+import { RaceManager, RaceResult, RACE_LAPS, RACE_PEDESTRIANS, formatRaceTime } from '../game/RaceManager';
+
+// Particle effect shown again when the replay reaches a recorded collision
+const replayEventEffects: Partial<Record<CollisionObjectType, ParticleEffectType>> = {
+  [CollisionObjectType.HUMAN_NPC]: ParticleEffectType.BLOOD,
+  [CollisionObjectType.RAGDOLL]: ParticleEffectType.BLOOD,
+  [CollisionObjectType.ANIMAL_NPC]: ParticleEffectType.ANIMAL_IMPACT,
+  [CollisionObjectType.BUILDING]: ParticleEffectType.DEBRIS,
+  [CollisionObjectType.PROP]: ParticleEffectType.DEBRIS,
+  [CollisionObjectType.VEHICLE]: ParticleEffectType.SPARKS,
+  [CollisionObjectType.OPPONENT_VEHICLE]: ParticleEffectType.SPARKS,
+  [CollisionObjectType.CIVILIAN_VEHICLE]: ParticleEffectType.SPARKS,
+  [CollisionObjectType.POLICE_VEHICLE]: ParticleEffectType.SPARKS
+};
 
 /**
  * Core Engine class that handles the Three.js scene setup and rendering
@@ -28,6 +59,9 @@ export class Engine {
   // DOM element
   private container: HTMLElement;
   
+  // Session options
+  private options: GameOptions;
+  
   // Controls
   private cameraController: CameraController;
   private vehicleControls: VehicleControls;
@@ -44,6 +78,24 @@ export class Engine {
   // NPC manager
   private npcManager!: NPCManager;
   
+  // AI opponent cars (null when playing without rivals)
+  private opponentManager: OpponentManager | null = null;
+  
+  // Ambient civilian traffic (needs a road network)
+  private trafficManager: TrafficManager | null = null;
+  
+  // Police chasing the player when they are wanted
+  private policeManager: PoliceManager | null = null;
+  
+  // Power-ups scattered around the city
+  private pickupManager: PickupManager | null = null;
+  
+  // Active mission (mission mode only)
+  private missionManager: MissionManager | null = null;
+  
+  // Active race (race mode only)
+  private raceManager: RaceManager | null = null;
+  
   // Vehicle
   private playerVehicle: Vehicle | null = null;
   
@@ -54,13 +106,34 @@ export class Engine {
   
   // Loading state
   private _isInitialized = false;
+  
+  // Run state
+  private isRunOver: boolean = false;
+  
+  // Where finished runs are added to the career (null when not saving)
+  private saveManager: SaveManager | null = null;
+  private isRunRecorded: boolean = false;
+  
+  // Run statistics for the results screen
+  private runTime: number = 0;
+  private topSpeed: number = 0;
+  private distanceDriven: number = 0;
+  private lastPlayerPosition: THREE.Vector3 | null = null;
+  
+  // Whether the nitro was firing last frame, to play the whoosh once per boost
+  private wasBoosting: boolean = false;
   private loadingScreen: HTMLDivElement | null = null;
   
   // Game UI elements
   private scoreDisplay: HTMLDivElement | null = null;
   private npcCountDisplay: HTMLDivElement | null = null;
+  private missionDisplay: HTMLDivElement | null = null;
+  private raceDisplay: HTMLDivElement | null = null;
   private minimap: Minimap | null = null;
   
+  // Spatial hash shared by the city, NPCs and minimap
+  private spatialHash: SpatialHash = new SpatialHash();
+  
   // Performance stats
   private stats = {
     fps: 0,
@@ -80,12 +153,25 @@ export class Engine {
   // Camera switching
   private cameraSwitchListener: (event: KeyboardEvent) => void;
   
+  // Pause menu (Escape)
+  private pauseKeyListener: (event: KeyboardEvent) => void;
+  private isPaused: boolean = false;
+  private pauseOverlay: HTMLDivElement | null = null;
+  private settingsScreen: SettingsScreen | null = null;
+  
+  // Replay of the last seconds of play
+  private replayRecorder: ReplayRecorder | null = null;
+  private replayStepCallback: ((fixedDeltaTime: number) => void) | null = null;
+  private replayViewer: ReplayViewer | null = null;
+  
   /**
    * Constructor
    * @param container DOM element to render the scene in
+   * @param options Session options selected in the menu
    */
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, options: GameOptions) {
     this.container = container;
+    this.options = options;
     this.clock = new THREE.Clock();
     
     // Create scene
@@ -157,6 +243,18 @@ export class Engine {
     // Set up camera switch event listener
     this.cameraSwitchListener = this.handleCameraSwitch.bind(this);
     document.addEventListener('keydown', this.cameraSwitchListener);
+    
+    // Set up pause menu key listener
+    this.pauseKeyListener = this.handlePauseKey.bind(this);
+    document.addEventListener('keydown', this.pauseKeyListener);
+  }
+  
+  /**
+   * Set where finished runs are saved
+   * @param saveManager Save manager
+   */
+  public setSaveManager(saveManager: SaveManager): void {
+    this.saveManager = saveManager;
   }
   
   /**
@@ -168,7 +266,16 @@ export class Engine {
     
     try {
       // Create city generator
-      this.cityGenerator = new CityGenerator(this.scene, this.physicsWorld, this.collisionManager);
+      // Shared grid for proximity queries between buildings, props and NPCs
+      this.spatialHash = new SpatialHash();
+      
+      this.cityGenerator = new CityGenerator(
+        this.scene,
+        this.physicsWorld,
+        this.collisionManager,
+        this.options.seed,
+        this.spatialHash
+      );
       
       // Initialize and load assets
       await this.cityGenerator.initialize();
@@ -183,6 +290,10 @@ export class Engine {
         this.cityGenerator.generateCity(false);
       }
       
+      // Cars find the ground under their wheels from the city layout
+      const cityGenerator = this.cityGenerator;
+      const surfaceQuery: SurfaceQuery = position => cityGenerator.getSurfaceAt(position);
+      
       // Create physics ground plane
       const groundBody = this.physicsWorld.createGroundPlane();
       
@@ -199,15 +310,23 @@ export class Engine {
       this.setupVehicleCamera();
       
       // Create NPC manager
-      this.npcManager = new NPCManager(this.scene, this.physicsWorld, this.collisionManager);
+      this.npcManager = new NPCManager(this.scene, this.physicsWorld, this.collisionManager, this.spatialHash);
       if (this.playerVehicle) {
         this.npcManager.setPlayerVehicle(this.playerVehicle);
       }
+      const roadNetwork = this.cityGenerator.getRoadNetwork();
+      if (roadNetwork) {
+        this.npcManager.setRoadNetwork(roadNetwork);
+      }
+      this.npcManager.setPointsOfInterest(this.cityGenerator.getPointsOfInterest());
       
       // Set camera to a good position to view the city
       this.camera.position.set(50, 30, 50);
       this.cameraController.setTarget(new THREE.Vector3(0, 0, 0));
       
+      // Key bindings and graphics quality from the saved settings
+      this.applySettings(this.getSettings());
+      
       // Add information overlay
       this.addInfoOverlay();
       
@@ -224,16 +343,109 @@ export class Engine {
         this.minimap.setPlayerVehicle(this.playerVehicle);
       }
       
-      // After creating NPC manager, set it in the minimap
-      if (this.minimap && this.npcManager) {
-        this.minimap.setNPCManager(this.npcManager);
+      // Show the NPCs registered in the spatial hash on the minimap
+      if (this.minimap) {
+        this.minimap.setSpatialHash(this.spatialHash);
+      }
+      
+      // Draw the city streets on the minimap
+      if (this.minimap && roadNetwork) {
+        this.minimap.setRoadNetwork(roadNetwork);
+      }
+      
+      // Fill the streets with civilian traffic
+      if (roadNetwork) {
+        this.trafficManager = new TrafficManager(this.scene, this.physicsWorld, this.collisionManager, roadNetwork);
+        this.npcManager.setTrafficManager(this.trafficManager);
+        
+        if (this.minimap) {
+          this.minimap.setTrafficManager(this.trafficManager);
+        }
+      }
+      
+      // Police respond to the player's offences
+      if (roadNetwork) {
+        this.policeManager = new PoliceManager(
+          this.scene,
+          this.physicsWorld,
+          this.collisionManager,
+          this.npcManager,
+          roadNetwork
+        );
+        this.policeManager.setSurfaceQuery(surfaceQuery);
+        
+        if (this.minimap) {
+          this.minimap.setPoliceManager(this.policeManager);
+        }
+      }
+      
+      // Spawn rival cars
+      if (roadNetwork && this.options.opponentCount > 0 && this.playerVehicle) {
+        this.opponentManager = new OpponentManager(
+          this.scene,
+          this.physicsWorld,
+          this.collisionManager,
+          this.npcManager,
+          roadNetwork
+        );
+        this.opponentManager.setSurfaceQuery(surfaceQuery);
+        this.opponentManager.spawnOpponents(this.options.opponentCount, this.playerVehicle.getPosition());
+        
+        if (this.minimap) {
+          this.minimap.setOpponentManager(this.opponentManager);
+        }
+      }
+      
+      // Set up the selected mission
+      const mission = this.options.mode === GameMode.MISSION && this.options.missionId
+        ? getMission(this.options.missionId)
+        : null;
+      if (mission) {
+        this.missionManager = new MissionManager(mission, this.scene, this.collisionManager, roadNetwork);
+        this.addMissionOverlay();
+      }
+      
+      // Set up the checkpoint race
+      if (this.options.mode === GameMode.RACE) {
+        const checkpoints = this.cityGenerator.createRaceCheckpoints();
+        this.raceManager = new RaceManager(checkpoints, this.collisionManager, roadNetwork);
+        
+        // A fixed crowd, so wasting all of it can win the race
+        const pedestrians = this.npcManager.spawnFixedHumanPopulation(RACE_PEDESTRIANS);
+        this.raceManager.setPedestrianTotal(pedestrians);
+        
+        this.addRaceOverlay();
+      }
+      
+      // Scatter power-ups; time bonuses only help against a mission clock
+      if (this.playerVehicle) {
+        const pickupTypes = Object.values(PickupType)
+          .filter(type => type !== PickupType.TIME_BONUS || this.missionManager !== null);
+        const pickups = this.cityGenerator.createPickups(PICKUP_COUNT, pickupTypes);
+        this.pickupManager = new PickupManager(
+          this.scene,
+          pickups,
+          this.playerVehicle,
+          this.npcManager,
+          this.collisionManager
+        );
+        if (this.missionManager) {
+          this.pickupManager.setMissionManager(this.missionManager);
+        }
       }
       
       // Create particle system
       this.particleSystem = new ParticleSystem(this.scene);
+      if (this.opponentManager) {
+        this.opponentManager.setParticleSystem(this.particleSystem);
+      }
       
-      // Start ambient sound
+      // Record the last seconds of play for the replay
+      this.setupReplayRecorder();
+      
+      // Start ambient sound and music
       this.audioManager.startAmbientSound('city');
+      this.audioManager.startMusic();
       
       // Mark as initialized
       this._isInitialized = true;
@@ -329,7 +541,12 @@ export class Engine {
     try {
       // Create player vehicle at a starting position
       const startPosition = new THREE.Vector3(0, 2, 0);
-      this.playerVehicle = VehicleFactory.createVehicle(this.scene, this.physicsWorld, startPosition);
+      this.playerVehicle = VehicleFactory.createVehicle(
+        this.scene,
+        this.physicsWorld,
+        startPosition,
+        this.options.vehicleId
+      );
       
       // Initialize vehicle controls
       this.vehicleControls.initialize(this.playerVehicle);
@@ -337,6 +554,19 @@ export class Engine {
       // Register vehicle with collision manager
       this.collisionManager.setVehicle(this.playerVehicle);
       
+      // Grip and tyre effects follow the ground the city is made of
+      if (this.cityGenerator) {
+        const cityGenerator = this.cityGenerator;
+        this.playerVehicle.setSurfaceQuery(position => cityGenerator.getSurfaceAt(position));
+      }
+      
+      // Exhaust pop when the gearbox shifts up
+      this.playerVehicle.getGearbox().onShift((_gear, upshift) => {
+        if (upshift) {
+          this.audioManager.playVehicleSound('shift_pop');
+        }
+      });
+      
       console.log('Player vehicle created');
     } catch (error) {
       console.error('Error creating player vehicle:', error);
@@ -375,18 +605,34 @@ export class Engine {
       <p>A/← - Steer Left</p>
       <p>D/→ - Steer Right</p>
       <p>SPACE - Handbrake</p>
+      <p>SHIFT/N - Nitro</p>
       <p>C - Switch Camera View</p>
+      <p>ESC - Pause</p>
       <div id="camera-mode">Camera: Standard View</div>
+      <div id="vehicle-display">Car: -</div>
       <div id="speed-display">Speed: 0 km/h</div>
+      <div id="tach-display"></div>
       <div id="score-display">Score: 0</div>
       <div id="health-display">Health: 100%</div>
+      <div id="nitro-display"></div>
+      <div id="effects-display"></div>
+      <div id="wanted-display">Wanted: ${'☆'.repeat(MAX_WANTED_LEVEL)}</div>
       <div id="npc-count">NPCs: 0</div>
+      <div id="seed-display">Seed: ${this.options.seed}</div>
       <p>FPS: <span id="fps-counter">0</span></p>
       <button id="back-to-menu">Back to Menu</button>
     `;
     
     this.container.appendChild(infoDiv);
     
+    // Show the selected car with a swatch of its paint
+    const vehicleDisplay = document.getElementById('vehicle-display');
+    if (vehicleDisplay && this.playerVehicle) {
+      const spec = this.playerVehicle.getSpec();
+      const paint = '#' + spec.paintColor.toString(16).padStart(6, '0');
+      vehicleDisplay.innerHTML = `Car: <span style="color: ${paint}">■</span> ${spec.name}`;
+    }
+    
     // Store references to UI elements
     this.scoreDisplay = document.getElementById('score-display') as HTMLDivElement;
     this.npcCountDisplay = document.getElementById('npc-count') as HTMLDivElement;
@@ -395,6 +641,7 @@ export class Engine {
     const backButton = document.getElementById('back-to-menu');
     if (backButton) {
       backButton.addEventListener('click', () => {
+        this.recordRun();
         this.stop();
         // Dispatch custom event for the Game class to handle
         const event = new CustomEvent('backToMenu');
@@ -441,10 +688,424 @@ export class Engine {
     // Update health display
     const healthDisplay = document.getElementById('health-display');
     if (healthDisplay) {
-      // Our simple implementation doesn't have health, so we'll show 100%
-      const health = 100;
+      const health = Math.round(this.playerVehicle.getHealth());
       healthDisplay.textContent = `Health: ${health}%`;
+      
+      // Color based on remaining health
+      if (health > 60) {
+        healthDisplay.style.color = '#00ff00';
+      } else if (health > 25) {
+        healthDisplay.style.color = '#ffcc00';
+      } else {
+        healthDisplay.style.color = '#ff3333';
+      }
+    }
+    
+    // Tachometer with the gear, red past the redline and flashing on the limiter
+    const tachDisplay = document.getElementById('tach-display');
+    if (tachDisplay) {
+      const gearbox = this.playerVehicle.getGearbox();
+      const rpm = gearbox.getRpm();
+      const share = Math.min(100, rpm / LIMITER_RPM * 100);
+      const redline = REDLINE_RPM / LIMITER_RPM * 100;
+      const color = gearbox.isLimiting() ? '#ffffff' : (rpm > REDLINE_RPM ? '#ff3333' : '#ffcc00');
+      tachDisplay.innerHTML = `
+        <div>Gear: <b>${gearbox.getGearLabel()}</b> &nbsp; ${Math.round(rpm / 100) * 100} rpm</div>
+        <div style="position: relative; width: 120px; height: 6px; background: #333;">
+          <div style="width: ${share}%; height: 100%; background: ${color};"></div>
+          <div style="position: absolute; top: 0; left: ${redline}%; width: 1px; height: 100%; background: #ff3333;"></div>
+        </div>
+      `;
     }
+    
+    // Nitro gauge, brighter while it is firing
+    const nitroDisplay = document.getElementById('nitro-display');
+    if (nitroDisplay) {
+      const share = this.playerVehicle.getNitro() * 100;
+      const color = this.playerVehicle.isBoosting() ? '#66e0ff' : '#3399cc';
+      nitroDisplay.innerHTML = `
+        <div>Nitro: ${Math.round(share)}%</div>
+        <div style="width: 120px; height: 6px; background: #333;">
+          <div style="width: ${share}%; height: 100%; background: ${color};"></div>
+        </div>
+      `;
+    }
+    
+    // List the power-ups that are working, with the seconds they have left
+    const effectsDisplay = document.getElementById('effects-display');
+    if (effectsDisplay && this.pickupManager) {
+      effectsDisplay.innerHTML = this.pickupManager.getActiveEffects().map(effect => {
+        const color = '#' + effect.definition.color.toString(16).padStart(6, '0');
+        const share = Math.max(0, effect.timeRemaining / effect.definition.duration) * 100;
+        return `
+          <div style="color: ${color};">${effect.definition.name}: ${Math.ceil(effect.timeRemaining)}s</div>
+          <div style="width: 120px; height: 4px; background: #333;">
+            <div style="width: ${share}%; height: 100%; background: ${color};"></div>
+          </div>
+        `;
+      }).join('');
+    }
+    
+    // Update wanted level stars
+    const wantedDisplay = document.getElementById('wanted-display');
+    if (wantedDisplay && this.policeManager) {
+      const level = this.policeManager.getWantedLevel();
+      wantedDisplay.textContent = `Wanted: ${'★'.repeat(level)}${'☆'.repeat(MAX_WANTED_LEVEL - level)}`;
+      wantedDisplay.style.color = level > 0 ? '#ffcc00' : '#ffffff';
+    }
+  }
+  
+  /**
+   * Add the mission panel showing the timer and objectives
+   */
+  private addMissionOverlay(): void {
+    if (!this.missionManager) return;
+    
+    this.missionDisplay = document.createElement('div');
+    this.missionDisplay.style.position = 'absolute';
+    this.missionDisplay.style.top = '10px';
+    this.missionDisplay.style.left = '50%';
+    this.missionDisplay.style.transform = 'translateX(-50%)';
+    this.missionDisplay.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    this.missionDisplay.style.color = 'white';
+    this.missionDisplay.style.padding = '10px 20px';
+    this.missionDisplay.style.borderRadius = '5px';
+    this.missionDisplay.style.border = '2px solid #ffcc00';
+    this.missionDisplay.style.fontFamily = 'Arial, sans-serif';
+    this.missionDisplay.style.fontSize = '14px';
+    this.missionDisplay.style.textAlign = 'center';
+    this.missionDisplay.style.zIndex = '1000';
+    
+    this.container.appendChild(this.missionDisplay);
+    this.updateMissionInfo();
+  }
+  
+  /**
+   * Update the mission panel
+   */
+  private updateMissionInfo(): void {
+    if (!this.missionManager || !this.missionDisplay) return;
+    
+    const time = Math.ceil(this.missionManager.getTimeRemaining());
+    const minutes = Math.floor(time / 60);
+    const seconds = (time % 60).toString().padStart(2, '0');
+    
+    // Timer turns red for the last 10 seconds
+    const timerColor = time <= 10 ? '#ff3333' : '#ffffff';
+    
+    const objectives = this.missionManager.getObjectives().map(entry => {
+      const progress = entry.target > 1 ? ` (${entry.progress}/${entry.target})` : '';
+      const color = entry.completed ? '#00ff00' : '#ffffff';
+      const mark = entry.completed ? '✔' : '•';
+      return `<div style="color: ${color};">${mark} ${entry.objective.description}${progress}</div>`;
+    }).join('');
+    
+    this.missionDisplay.innerHTML = `
+      <div style="color: #ffcc00; font-weight: bold;">${this.missionManager.getMission().title.toUpperCase()}</div>
+      <div style="font-size: 28px; font-weight: bold; color: ${timerColor};">${minutes}:${seconds}</div>
+      ${objectives}
+    `;
+  }
+  
+  /**
+   * Advance the mission and end the run when it is won or lost
+   * @param deltaTime Time since last update (seconds)
+   */
+  private updateMission(deltaTime: number): void {
+    if (!this.missionManager || !this.playerVehicle || this.isRunOver) return;
+    
+    this.missionManager.update(deltaTime, this.playerVehicle.getPosition());
+    this.updateMissionInfo();
+    
+    // Point the minimap at the checkpoint
+    if (this.minimap) {
+      this.minimap.setTargetPosition(this.missionManager.getCheckpointPosition());
+    }
+    
+    const status = this.missionManager.getStatus();
+    const score = this.collisionManager.getScore();
+    if (status === MissionStatus.SUCCEEDED) {
+      this.showRunEndScreen('MISSION COMPLETE!', '#00ff00', `Time left: ${Math.ceil(this.missionManager.getTimeRemaining())}s<br>Final score: ${score}`);
+    } else if (status === MissionStatus.FAILED) {
+      this.showRunEndScreen('MISSION FAILED', '#ff0000', `${this.missionManager.getFailureReason()}<br>Final score: ${score}`);
+    }
+  }
+  
+  /**
+   * Add the race panel showing laps, times and checkpoints
+   */
+  private addRaceOverlay(): void {
+    if (!this.raceManager) return;
+    
+    this.raceDisplay = document.createElement('div');
+    this.raceDisplay.style.position = 'absolute';
+    this.raceDisplay.style.top = '10px';
+    this.raceDisplay.style.left = '50%';
+    this.raceDisplay.style.transform = 'translateX(-50%)';
+    this.raceDisplay.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    this.raceDisplay.style.color = 'white';
+    this.raceDisplay.style.padding = '10px 20px';
+    this.raceDisplay.style.borderRadius = '5px';
+    this.raceDisplay.style.border = '2px solid #00ff00';
+    this.raceDisplay.style.fontFamily = 'Arial, sans-serif';
+    this.raceDisplay.style.fontSize = '14px';
+    this.raceDisplay.style.textAlign = 'center';
+    this.raceDisplay.style.zIndex = '1000';
+    
+    this.container.appendChild(this.raceDisplay);
+    this.updateRaceInfo();
+  }
+  
+  /**
+   * Update the race panel
+   */
+  private updateRaceInfo(): void {
+    if (!this.raceManager || !this.raceDisplay) return;
+    
+    const race = this.raceManager;
+    const bestLap = race.getBestLapTime();
+    
+    this.raceDisplay.innerHTML = `
+      <div style="color: #00ff00; font-weight: bold;">LAP ${race.getCurrentLap()}/${RACE_LAPS}</div>
+      <div style="font-size: 28px; font-weight: bold;">${formatRaceTime(race.getRaceTime())}</div>
+      <div>Lap: ${formatRaceTime(race.getCurrentLapTime())} | Best: ${bestLap !== null ? formatRaceTime(bestLap) : '--:--.--'}</div>
+      <div>Checkpoint ${race.getNextCheckpointIndex() + 1}/${race.getCheckpointCount()}</div>
+      <div>Wasted: ${race.getWastedCount()} | Left: ${this.npcManager.getHumans().length}/${race.getPedestrianTotal()}</div>
+    `;
+  }
+  
+  /**
+   * Advance the race and end the run when it is won
+   * @param deltaTime Time since last update (seconds)
+   */
+  private updateRace(deltaTime: number): void {
+    if (!this.raceManager || !this.playerVehicle || this.isRunOver) return;
+    
+    this.raceManager.update(deltaTime, this.playerVehicle.getPosition(), this.npcManager.getHumans().length);
+    this.updateRaceInfo();
+    
+    // Point the minimap along the route to the next checkpoint
+    if (this.minimap) {
+      this.minimap.setTargetPosition(this.raceManager.getNextCheckpointPosition());
+      this.minimap.setRoute(this.raceManager.getRoute());
+    }
+    
+    // Flash the split time at each checkpoint
+    const split = this.raceManager.consumeLastSplit();
+    if (split) {
+      this.showSplitPopup(split.lapTime, split.delta);
+    }
+    
+    const result = this.raceManager.getResult();
+    if (result !== RaceResult.NONE) {
+      const bestLap = this.raceManager.getBestLapTime();
+      const headline = result === RaceResult.LAPS_COMPLETED ? 'RACE WON!' : 'EVERYONE WASTED!';
+      const details = [
+        `Total time: ${formatRaceTime(this.raceManager.getRaceTime())}`,
+        bestLap !== null ? `Best lap: ${formatRaceTime(bestLap)}` : '',
+        `Final score: ${this.collisionManager.getScore()}`
+      ].filter(line => line !== '').join('<br>');
+      
+      this.showRunEndScreen(headline, '#00ff00', details);
+    }
+  }
+  
+  /**
+   * Briefly show a split time in the middle of the screen
+   * @param lapTime Time into the lap
+   * @param delta Difference to the best lap, or null if there is none yet
+   */
+  private showSplitPopup(lapTime: number, delta: number | null): void {
+    const splitDiv = document.createElement('div');
+    splitDiv.style.position = 'absolute';
+    splitDiv.style.top = '25%';
+    splitDiv.style.left = '50%';
+    splitDiv.style.transform = 'translate(-50%, -50%)';
+    splitDiv.style.fontFamily = 'Arial, sans-serif';
+    splitDiv.style.fontSize = '32px';
+    splitDiv.style.fontWeight = 'bold';
+    splitDiv.style.color = '#ffffff';
+    splitDiv.style.textShadow = '2px 2px 4px #000000';
+    splitDiv.style.zIndex = '1000';
+    splitDiv.style.transition = 'opacity 0.5s ease-in-out';
+    
+    let deltaText = '';
+    if (delta !== null) {
+      // Green when ahead of the best lap, red when behind
+      const color = delta <= 0 ? '#00ff00' : '#ff3333';
+      const sign = delta <= 0 ? '-' : '+';
+      deltaText = ` <span style="color: ${color};">${sign}${Math.abs(delta).toFixed(2)}</span>`;
+    }
+    splitDiv.innerHTML = `${formatRaceTime(lapTime)}${deltaText}`;
+    
+    this.container.appendChild(splitDiv);
+    
+    setTimeout(() => {
+      splitDiv.style.opacity = '0';
+    }, 1500);
+    setTimeout(() => {
+      if (splitDiv.parentNode) {
+        splitDiv.parentNode.removeChild(splitDiv);
+      }
+    }, 2000);
+  }
+  
+  /**
+   * End the run once the player's car has been wrecked
+   */
+  private handleVehicleWrecked(): void {
+    if (this.isRunOver) return;
+    
+    console.log('Player vehicle wrecked, ending run');
+    
+    // A wreck during a mission counts as failing it
+    if (this.missionManager) {
+      this.missionManager.fail('Your car was wrecked');
+      return;
+    }
+    
+    this.showRunEndScreen('WRECKED!', '#ff0000', `Final score: ${this.collisionManager.getScore()}`);
+  }
+  
+  /**
+   * End the run from the pause menu and go to the results screen
+   */
+  private endRun(): void {
+    this.resume();
+    
+    // Giving up a mission counts as failing it
+    if (this.missionManager) {
+      this.missionManager.fail('You ended the run');
+      return;
+    }
+    
+    this.showRunEndScreen('RUN OVER', '#ffcc00', `Final score: ${this.collisionManager.getScore()}`);
+  }
+  
+  /**
+   * Show the results screen with the run statistics, then return to the menu
+   * @param title Large headline
+   * @param color Headline color
+   * @param details HTML shown under the headline
+   */
+  private showRunEndScreen(title: string, color: string, details: string): void {
+    if (this.isRunOver) return;
+    this.isRunOver = true;
+    
+    const stats = this.getRunStats();
+    const outcome = this.recordRun();
+    
+    const rows = [
+      { label: 'Pedestrians hit', value: stats.pedestriansHit.toString() },
+      { label: 'Animals hit', value: stats.animalsHit.toString() },
+      { label: 'Best combo', value: stats.bestCombo > 1 ? `x${stats.bestCombo}` : '-' },
+      { label: 'Top speed', value: `${Math.round(stats.topSpeed * 3.6)} km/h` },
+      { label: 'Distance', value: `${(stats.distance / 1000).toFixed(2)} km` },
+      { label: 'Time', value: formatRaceTime(stats.time) }
+    ].map(row => `
+      <tr>
+        <td style="text-align: left; padding: 2px 20px 2px 0;">${row.label}</td>
+        <td style="text-align: right; font-weight: bold;">${row.value}</td>
+      </tr>
+    `).join('');
+    
+    // Place on the high score table and any cars the run has unlocked
+    let rewards = '';
+    if (outcome && outcome.leaderboardRank !== null) {
+      rewards += `<div style="color: #ffcc00;">#${outcome.leaderboardRank} on the high score table for city ${this.options.seed}!</div>`;
+    }
+    if (outcome && outcome.unlockedVehicles.length > 0) {
+      rewards += `<div style="color: #ffcc00;">Unlocked: ${outcome.unlockedVehicles.map(vehicle => vehicle.name).join(', ')}</div>`;
+    }
+    
+    const endDiv = document.createElement('div');
+    endDiv.style.position = 'absolute';
+    endDiv.style.top = '50%';
+    endDiv.style.left = '50%';
+    endDiv.style.transform = 'translate(-50%, -50%)';
+    endDiv.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    endDiv.style.color = '#ffffff';
+    endDiv.style.padding = '20px 40px';
+    endDiv.style.borderRadius = '10px';
+    endDiv.style.border = `2px solid ${color}`;
+    endDiv.style.fontFamily = 'Arial, sans-serif';
+    endDiv.style.fontSize = '18px';
+    endDiv.style.textAlign = 'center';
+    endDiv.style.zIndex = '1001';
+    endDiv.innerHTML = `
+      <div style="font-size: 56px; font-weight: bold; color: ${color}; text-shadow: 4px 4px 8px #000000;">${title}</div>
+      <div style="font-size: 24px; margin: 10px 0;">${details}</div>
+      <table style="margin: 10px auto; border-collapse: collapse;">${rows}</table>
+      ${rewards}
+      <button id="results-replay" style="margin-top: 15px;">Watch Replay</button>
+      <button id="results-back-to-menu" style="margin-top: 15px;">Back to Menu</button>
+    `;
+    this.container.appendChild(endDiv);
+    
+    const replayButton = document.getElementById('results-replay');
+    if (replayButton) {
+      replayButton.addEventListener('click', () => this.openReplay(endDiv));
+    }
+    
+    const backButton = document.getElementById('results-back-to-menu');
+    if (backButton) {
+      backButton.addEventListener('click', () => {
+        this.stop();
+        window.dispatchEvent(new CustomEvent('backToMenu'));
+      });
+    }
+  }
+  
+  /**
+   * Track top speed, distance and time of the run
+   * @param deltaTime Time since last update (seconds)
+   */
+  private updateRunStats(deltaTime: number): void {
+    if (!this.playerVehicle || this.isRunOver) return;
+    
+    const position = this.playerVehicle.getPosition();
+    if (this.lastPlayerPosition) {
+      this.distanceDriven += Math.hypot(position.x - this.lastPlayerPosition.x, position.z - this.lastPlayerPosition.z);
+    }
+    this.lastPlayerPosition = position;
+    
+    this.runTime += deltaTime;
+    this.topSpeed = Math.max(this.topSpeed, this.playerVehicle.getSpeed());
+  }
+  
+  /**
+   * Collect the statistics of the run so far
+   * @returns Run statistics
+   */
+  private getRunStats(): RunStats {
+    return {
+      pedestriansHit: this.collisionManager.getPedestriansHit(),
+      animalsHit: this.collisionManager.getAnimalsHit(),
+      bestCombo: this.collisionManager.getBestCombo(),
+      topSpeed: this.topSpeed,
+      distance: this.distanceDriven,
+      time: this.runTime
+    };
+  }
+  
+  /**
+   * Add the run to the saved career and high score table, once
+   * Runs count when they reach the results screen or are quit to the menu; restarting doesn't save
+   * @returns What the run earned, or null if it was not saved
+   */
+  private recordRun(): RunOutcome | null {
+    if (!this.saveManager || this.isRunRecorded) return null;
+    this.isRunRecorded = true;
+    
+    const completed = (this.missionManager !== null && this.missionManager.getStatus() === MissionStatus.SUCCEEDED)
+      || (this.raceManager !== null && this.raceManager.getResult() !== RaceResult.NONE);
+    
+    return this.saveManager.recordRun({
+      options: this.options,
+      score: this.collisionManager.getScore(),
+      completed,
+      stats: this.getRunStats()
+    });
   }
   
   /**
@@ -498,6 +1159,16 @@ export class Engine {
    */
   public stop(): void {
     if (this.animationFrameId) {
+      // Put the scene back before leaving a replay
+      if (this.replayViewer) {
+        this.replayViewer.close();
+      }
+      
+      // Let the clock and audio run again for the next session
+      if (this.isPaused) {
+        this.resume();
+      }
+      
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
       this.clock.stop();
@@ -509,17 +1180,59 @@ export class Engine {
       if (this.npcManager) {
         this.npcManager.clear();
       }
+      this.spatialHash.clear();
       
       // Hide the minimap if it exists
       if (this.minimap) {
         this.minimap.hide();
       }
       
+      // Remove rival cars
+      if (this.opponentManager) {
+        this.opponentManager.clear();
+      }
+      
+      // Remove civilian traffic
+      if (this.trafficManager) {
+        this.trafficManager.clear();
+      }
+      
+      // Remove power-ups and end their effects
+      if (this.pickupManager) {
+        this.pickupManager.dispose();
+        this.pickupManager = null;
+      }
+      
+      // Call off the police
+      if (this.policeManager) {
+        this.policeManager.clear();
+      }
+      
+      // Remove mission markers
+      if (this.missionManager) {
+        this.missionManager.dispose();
+      }
+      
+      // Remove race checkpoint gates
+      if (this.raceManager) {
+        this.raceManager.dispose();
+      }
+      
+      // Stop recording the replay
+      if (this.replayStepCallback) {
+        this.physicsWorld.unregisterFixedStepCallback(this.replayStepCallback);
+        this.replayStepCallback = null;
+      }
+      if (this.replayRecorder) {
+        this.replayRecorder.clear();
+      }
+      
       // Stop engine sound
       this.audioManager.stopEngineSound();
       
-      // Stop ambient sound
+      // Stop ambient sound and music
       this.audioManager.stopAmbientSound();
+      this.audioManager.stopMusic();
       
       // Dispose of particle system
       if (this.particleSystem) {
@@ -529,6 +1242,7 @@ export class Engine {
       
       // Clean up event listeners
       document.removeEventListener('keydown', this.cameraSwitchListener);
+      document.removeEventListener('keydown', this.pauseKeyListener);
     }
   }
   
@@ -561,8 +1275,23 @@ export class Engine {
     // Update FPS counter
     this.updateFPSCounter();
     
+    // While paused only redraw the frozen scene, or play the replay in it
+    if (this.isPaused) {
+      if (this.replayViewer) {
+        this.replayViewer.update(delta);
+        if (this.particleSystem) {
+          this.particleSystem.update(delta);
+        }
+      }
+      this.renderer.render(this.scene, this.camera);
+      return;
+    }
+    
     try {
-      // Update physics simulation
+      // Hand the latest input to the vehicle before it is simulated
+      this.vehicleControls.update();
+      
+      // Update physics simulation (vehicles are driven on its fixed step)
       this.physicsWorld.update(delta);
       
       // Update collision manager
@@ -592,16 +1321,45 @@ export class Engine {
         }
       }
       
-      // Update vehicle controls
-      this.vehicleControls.update();
-      
       // Update player vehicle
       if (this.playerVehicle) {
         this.playerVehicle.update(delta);
+        this.updateRunStats(delta);
         this.updateVehicleInfo();
         this.updateVehicleCamera();
+        
+        // End the run when the car is wrecked
+        if (this.playerVehicle.isWrecked()) {
+          this.handleVehicleWrecked();
+        }
+      }
+      
+      // Update rival cars
+      if (this.opponentManager && this.playerVehicle) {
+        this.opponentManager.update(delta, this.playerVehicle);
+      }
+      
+      // Update civilian traffic
+      if (this.trafficManager && this.playerVehicle) {
+        this.trafficManager.update(delta, this.playerVehicle);
+      }
+      
+      // Collect power-ups and run their timers
+      if (this.pickupManager) {
+        this.pickupManager.update(delta);
       }
       
+      // Update police pursuit and wanted level
+      if (this.policeManager && this.playerVehicle) {
+        this.policeManager.update(delta, this.playerVehicle);
+      }
+      
+      // Update mission objectives and timer
+      this.updateMission(delta);
+      
+      // Update race progress
+      this.updateRace(delta);
+      
       // Update city optimizations if city generator exists
       if (this.cityGenerator) {
         this.cityGenerator.update(this.camera);
@@ -614,9 +1372,12 @@ export class Engine {
       
       // Create vehicle effects
       this.createTireSmoke();
+      this.updateNitroEffects(delta);
       
-      // Update audio
+      // Update audio, heard from the camera's point of view
+      this.audioManager.setListener(this.camera, delta);
       this.updateEngineSound();
+      this.updateMusic(delta);
       
       // Update particle systems
       if (this.particleSystem) {
@@ -843,8 +1604,8 @@ export class Engine {
       // Only handle human collisions for now to debug the blood effect
       if (event.targetType === CollisionObjectType.HUMAN_NPC) {
         // Play human collision sound
-        this.audioManager.playCollisionSound('human');
-        this.audioManager.playNPCSound('human_scream');
+        this.audioManager.playCollisionSound('human', undefined, event.collisionPoint);
+        this.audioManager.playNPCSound('human_scream', event.collisionPoint);
         
         // Create blood particle effect
         if (this.particleSystem) {
@@ -864,101 +1625,115 @@ export class Engine {
   }
   
   /**
-   * Create tire smoke effect
+   * Smoke, dust or turf, skid marks and tyre noise from the rear wheels,
+   * depending on the surface under each one
    */
   private createTireSmoke(): void {
     if (!this.particleSystem || !this.playerVehicle) return;
     
-    // Only create tire smoke if:
-    // 1. Vehicle is moving fast enough
-    // 2. Vehicle is turning sharply or braking hard
+    // Tyres slide when the car is moving fast enough and turning sharply or braking hard
     const speed = this.playerVehicle.getSpeed();
     const controlState = this.vehicleControls.getControlState();
     const isTurning = controlState.left || controlState.right;
     const isBraking = controlState.brake || controlState.handbrake;
+    const isSliding = speed > 5 && (isTurning || isBraking);
+    const leavesMarks = (isBraking && speed > 8) || (isTurning && speed > 12);
     
-    if (speed > 5 && (isTurning || isBraking)) {
-      // Get vehicle position
-      const position = this.playerVehicle.getPosition();
-      
-      // Get vehicle direction
-      const direction = new THREE.Vector3(0, 1, 0); // Up
-      
-      // Create smoke at rear wheels (approximate positions)
-      const vehicleLength = 2.0; // Based on vehicle size
-      const vehicleWidth = 1.0;
-      const vehicleDirection = this.playerVehicle.getDirection();
-      
-      // Calculate wheel positions relative to vehicle center
-      const backLeftWheel = new THREE.Vector3(
-        position.x - Math.cos(vehicleDirection + Math.PI/4) * vehicleWidth/2,
-        position.y - 0.4, // Slightly below vehicle
-        position.z - Math.sin(vehicleDirection + Math.PI/4) * vehicleWidth/2
-      );
-      
-      const backRightWheel = new THREE.Vector3(
-        position.x - Math.cos(vehicleDirection - Math.PI/4) * vehicleWidth/2,
-        position.y - 0.4,
-        position.z - Math.sin(vehicleDirection - Math.PI/4) * vehicleWidth/2
-      );
-      
-      // Intensity based on speed and turn/brake input
-      const intensity = Math.min(1.0, speed / 20) * 
-                        (isBraking ? 1.2 : 1.0) *
-                        (isTurning ? 1.3 : 1.0);
-      
-      // Create smoke effect at each wheel
-      this.particleSystem.createEffect(
-        ParticleEffectType.TIRE_SMOKE,
-        backLeftWheel,
-        direction,
-        intensity * 0.6
-      );
-      
-      this.particleSystem.createEffect(
-        ParticleEffectType.TIRE_SMOKE,
-        backRightWheel,
-        direction,
-        intensity * 0.6
-      );
+    const vehicleDirection = this.playerVehicle.getDirection();
+    const heading = new THREE.Vector3(Math.sin(vehicleDirection), 0, Math.cos(vehicleDirection));
+    const up = new THREE.Vector3(0, 1, 0);
+    
+    // Intensity based on speed and turn/brake input
+    const intensity = Math.min(1.0, speed / 20) *
+                      (isBraking ? 1.2 : 1.0) *
+                      (isTurning ? 1.3 : 1.0);
+    
+    const contactPoints = this.playerVehicle.getWheelContactPoints();
+    const surfaces = this.playerVehicle.getWheelSurfaces();
+    let skidSound: string | null = null;
+    
+    // Rear wheels only
+    for (const wheel of [2, 3]) {
+      const surface = surfaceDefinitions[surfaces[wheel]];
+      
+      // Loose ground leaves a light trail behind a fast car even without sliding
+      if (isSliding) {
+        this.particleSystem.createEffect(surface.particle, contactPoints[wheel], up, intensity * 0.6);
+      } else if (surface.loose && speed > 10 && Math.random() < 0.3) {
+        this.particleSystem.createEffect(surface.particle, contactPoints[wheel], up, Math.min(1.0, speed / 30) * 0.4);
+      }
       
-      // Create skid marks when braking hard or turning sharply at high speed
-      if ((isBraking && speed > 8) || (isTurning && speed > 12)) {
+      if (isSliding && leavesMarks) {
         this.particleSystem.createEffect(
           ParticleEffectType.SKID_MARK,
-          new THREE.Vector3(
-            (backLeftWheel.x + backRightWheel.x) / 2,
-            backLeftWheel.y + 0.05, // Just above ground
-            (backLeftWheel.z + backRightWheel.z) / 2
-          ),
-          new THREE.Vector3(
-            Math.cos(vehicleDirection),
-            0,
-            Math.sin(vehicleDirection)
-          ),
-          intensity * 0.8
+          contactPoints[wheel].clone().setY(0.05), // Just above ground
+          heading,
+          intensity * 0.8,
+          surface.skidColor
         );
       }
       
-      // Play tire screech sound occasionally (not every frame)
-      if (Math.random() < 0.05) {
-        this.audioManager.playVehicleSound('brake');
+      if (isSliding) {
+        skidSound = surface.skidSound;
       }
     }
+    
+    // Play tire screech sound occasionally (not every frame)
+    if (skidSound && Math.random() < 0.05) {
+      this.audioManager.playVehicleSound(skidSound);
+    }
   }
   
   /**
-   * Update engine sound based on vehicle speed
+   * Exhaust flames, whoosh and wider view while the nitro is firing
+   * @param deltaTime Time since last update
    */
-  private updateEngineSound(): void {
+  private updateNitroEffects(deltaTime: number): void {
     if (!this.playerVehicle) return;
     
-    // Get current speed and normalize it to a 0-1 range (assuming max speed around 20)
-    const speed = this.playerVehicle.getSpeed();
-    const normalizedSpeed = Math.min(1.0, speed / 20);
+    const boosting = this.playerVehicle.isBoosting();
+    
+    // Whoosh as the boost kicks in
+    if (boosting && !this.wasBoosting) {
+      this.audioManager.playVehicleSound('nitro');
+    }
+    this.wasBoosting = boosting;
     
-    // Update engine sound parameters based on speed
-    this.audioManager.updateEngineSound(normalizedSpeed);
+    this.cameraController.setBoostFov(boosting);
+    this.cameraController.updateFov(deltaTime);
+    
+    if (!boosting || !this.particleSystem) return;
+    
+    // Flames out of the exhaust, blown back behind the car
+    const vehicleDirection = this.playerVehicle.getDirection();
+    const backward = new THREE.Vector3(-Math.sin(vehicleDirection), 0, -Math.cos(vehicleDirection));
+    const exhaust = this.playerVehicle.getPosition().addScaledVector(backward, 2.1);
+    exhaust.y -= 0.2;
+    
+    this.particleSystem.createEffect(ParticleEffectType.EXHAUST_FLAME, exhaust, backward, 1.0);
+  }
+  
+  /**
+   * Update engine sound from the revs and throttle of the player's car
+   */
+  private updateEngineSound(): void {
+    if (!this.playerVehicle) return;
+    
+    const gearbox = this.playerVehicle.getGearbox();
+    this.audioManager.updateEngineSound(gearbox.getRpm(), gearbox.getThrottle());
+  }
+  
+  /**
+   * Let the music follow combos, police heat, damage and the mission clock
+   * @param deltaTime Time since last update
+   */
+  private updateMusic(deltaTime: number): void {
+    this.audioManager.updateMusic(deltaTime, {
+      combo: this.collisionManager.getCombo(),
+      policeHeat: this.policeManager ? this.policeManager.getHeat() : 0,
+      health: this.playerVehicle ? this.playerVehicle.getHealth() : 100,
+      timeRemaining: this.missionManager && !this.isRunOver ? this.missionManager.getTimeRemaining() : null
+    });
   }
   
   /**
@@ -966,6 +1741,8 @@ export class Engine {
    * @param event Keyboard event
    */
   private handleCameraSwitch(event: KeyboardEvent): void {
+    if (this.isPaused) return;
+    
     if (event.key.toLowerCase() === 'c') {
       if (this.playerVehicle && this.cameraController) {
         const newMode = this.cameraController.cycleCameraMode();
@@ -978,6 +1755,314 @@ export class Engine {
     }
   }
   
+  /**
+   * Toggle the pause menu with Escape
+   * @param event Keyboard event
+   */
+  private handlePauseKey(event: KeyboardEvent): void {
+    if (event.key !== 'Escape') return;
+    
+    // Back out of the settings or the replay to the menu first
+    if (this.settingsScreen) {
+      this.settingsScreen.close();
+      return;
+    }
+    if (this.replayViewer) {
+      this.replayViewer.close();
+      return;
+    }
+    
+    if (this.isPaused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+  
+  /**
+   * Freeze the run and show the pause menu
+   */
+  public pause(): void {
+    if (this.isPaused || this.isRunOver || !this.animationFrameId) return;
+    this.isPaused = true;
+    
+    // Physics, NPCs and particles only advance in animate(); stop the timers and sounds as well
+    GameClock.pause();
+    this.audioManager.pauseAll();
+    
+    this.showPauseOverlay();
+    console.log('Game paused');
+  }
+  
+  /**
+   * Close the pause menu and carry on with the run
+   */
+  public resume(): void {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    
+    GameClock.resume();
+    this.audioManager.resumeAll();
+    
+    if (this.settingsScreen) {
+      this.settingsScreen.close();
+    }
+    if (this.pauseOverlay && this.pauseOverlay.parentNode) {
+      this.pauseOverlay.parentNode.removeChild(this.pauseOverlay);
+    }
+    this.pauseOverlay = null;
+    console.log('Game resumed');
+  }
+  
+  /**
+   * Show the pause menu with resume, restart, replay, settings, end run and quit
+   */
+  private showPauseOverlay(): void {
+    this.pauseOverlay = document.createElement('div');
+    this.pauseOverlay.style.position = 'absolute';
+    this.pauseOverlay.style.top = '0';
+    this.pauseOverlay.style.left = '0';
+    this.pauseOverlay.style.width = '100%';
+    this.pauseOverlay.style.height = '100%';
+    this.pauseOverlay.style.display = 'flex';
+    this.pauseOverlay.style.flexDirection = 'column';
+    this.pauseOverlay.style.alignItems = 'center';
+    this.pauseOverlay.style.justifyContent = 'center';
+    this.pauseOverlay.style.gap = '12px';
+    this.pauseOverlay.style.backgroundColor = 'rgba(0, 0, 0, 0.6)';
+    this.pauseOverlay.style.fontFamily = 'Arial, sans-serif';
+    this.pauseOverlay.style.color = '#ffffff';
+    this.pauseOverlay.style.zIndex = '1002';
+    
+    this.pauseOverlay.innerHTML = `
+      <div style="font-size: 56px; font-weight: bold; color: #ffcc00; text-shadow: 4px 4px 8px #000000;">PAUSED</div>
+      <div style="font-size: 16px;">City seed ${this.options.seed}</div>
+      <button id="pause-resume" style="width: 220px;">Resume</button>
+      <button id="pause-restart" style="width: 220px;">Restart</button>
+      <button id="pause-replay" style="width: 220px;">Watch Replay</button>
+      <button id="pause-settings" style="width: 220px;">Settings</button>
+      <button id="pause-end-run" style="width: 220px;">End Run</button>
+      <button id="pause-quit" style="width: 220px;">Quit to Menu</button>
+    `;
+    this.container.appendChild(this.pauseOverlay);
+    
+    const addClickHandler = (id: string, handler: () => void) => {
+      const button = document.getElementById(id);
+      if (button) {
+        button.addEventListener('click', handler);
+      }
+    };
+    
+    addClickHandler('pause-resume', () => this.resume());
+    
+    // Same options, same seed, from the start
+    addClickHandler('pause-restart', () => {
+      this.stop();
+      window.dispatchEvent(new CustomEvent('restartGame'));
+    });
+    
+    addClickHandler('pause-replay', () => this.openReplay(this.pauseOverlay));
+    
+    addClickHandler('pause-settings', () => this.showSettings());
+    
+    addClickHandler('pause-end-run', () => this.endRun());
+    
+    addClickHandler('pause-quit', () => {
+      this.recordRun();
+      this.stop();
+      window.dispatchEvent(new CustomEvent('backToMenu'));
+    });
+  }
+  
+  /**
+   * Start recording vehicles, NPCs, ragdolls and collisions every physics step
+   */
+  private setupReplayRecorder(): void {
+    const recorder = new ReplayRecorder(() => this.getReplayActors());
+    this.replayRecorder = recorder;
+    
+    this.replayStepCallback = (fixedDeltaTime) => recorder.record(fixedDeltaTime);
+    this.physicsWorld.registerFixedStepCallback(this.replayStepCallback);
+    
+    // Resting on the ground isn't worth replaying
+    this.collisionManager.registerCollisionCallback((event) => {
+      if (event.targetType !== CollisionObjectType.GROUND) {
+        recorder.recordEvent(event.targetType, event.collisionPoint, event.impactVelocity);
+      }
+    });
+  }
+  
+  /**
+   * Get everything the replay records
+   * @returns Visible objects of the cars, pedestrians, animals and ragdolls
+   */
+  private getReplayActors(): ReplayActorSource[] {
+    const actors: ReplayActorSource[] = [];
+    
+    const addVehicle = (vehicle: Vehicle) => {
+      const model = vehicle.getModel();
+      if (model) {
+        actors.push({ object: model, kind: ReplayActorKind.VEHICLE });
+      }
+    };
+    
+    if (this.playerVehicle) {
+      addVehicle(this.playerVehicle);
+    }
+    if (this.opponentManager) {
+      this.opponentManager.getOpponents().forEach(addVehicle);
+    }
+    if (this.policeManager) {
+      this.policeManager.getPoliceCars().forEach(addVehicle);
+    }
+    if (this.trafficManager) {
+      this.trafficManager.getCars().forEach(car => actors.push({ object: car.getMesh(), kind: ReplayActorKind.VEHICLE }));
+    }
+    
+    if (this.npcManager) {
+      this.npcManager.getHumans().forEach(human => actors.push({ object: human.getMesh(), kind: ReplayActorKind.PEDESTRIAN }));
+      this.npcManager.getAnimals().forEach(animal => actors.push({ object: animal.getMesh(), kind: ReplayActorKind.ANIMAL }));
+      this.npcManager.getRagdolls().forEach(ragdoll => {
+        ragdoll.getMeshes().forEach(mesh => actors.push({ object: mesh, kind: ReplayActorKind.RAGDOLL_PART }));
+      });
+    }
+    
+    return actors;
+  }
+  
+  /**
+   * Play back the last seconds in the scene, with the run frozen meanwhile
+   * @param screen Menu or results screen to hide while the replay plays
+   */
+  private openReplay(screen: HTMLElement | null): void {
+    if (this.replayViewer || this.settingsScreen || !this.replayRecorder) return;
+    
+    const clip = this.replayRecorder.getClip();
+    if (!clip) {
+      console.log('Nothing recorded to replay yet');
+      return;
+    }
+    
+    // From the results screen the world is still running; hold it until the replay closes
+    const freezeGame = !this.isPaused;
+    if (freezeGame) {
+      this.isPaused = true;
+      GameClock.pause();
+      this.audioManager.pauseAll();
+    }
+    
+    const screenDisplay = screen ? screen.style.display : '';
+    if (screen) {
+      screen.style.display = 'none';
+    }
+    
+    this.replayViewer = new ReplayViewer(
+      this.container,
+      this.scene,
+      this.camera,
+      this.cameraController,
+      clip,
+      this.getReplayActors().map(actor => actor.object),
+      this.playerVehicle ? this.playerVehicle.getModel() : null,
+      this.options.seed
+    );
+    this.replayViewer.onEvent((event) => this.playReplayEvent(event));
+    this.replayViewer.onClose(() => {
+      this.replayViewer = null;
+      if (screen) {
+        screen.style.display = screenDisplay;
+      }
+      if (freezeGame) {
+        this.isPaused = false;
+        GameClock.resume();
+        this.audioManager.resumeAll();
+      }
+    });
+    this.replayViewer.show();
+    console.log(`Replaying ${clip.duration.toFixed(1)} s`);
+  }
+  
+  /**
+   * Show the particles of a collision the replay has reached
+   * @param event Recorded collision
+   */
+  private playReplayEvent(event: ReplayEvent): void {
+    const effect = replayEventEffects[event.type];
+    if (!effect || !this.particleSystem) return;
+    
+    this.particleSystem.createEffect(
+      effect,
+      event.position,
+      new THREE.Vector3(0, 1, 0),
+      Math.min(2.0, event.impactVelocity / 5)
+    );
+  }
+  
+  /**
+   * Open the settings over the pause menu
+   */
+  private showSettings(): void {
+    if (this.settingsScreen || !this.pauseOverlay) return;
+    
+    this.settingsScreen = new SettingsScreen(this.container, this.getSettings());
+    this.settingsScreen.onSave((settings) => {
+      if (this.saveManager) {
+        this.saveManager.setSettings(settings);
+      }
+      this.applySettings(settings);
+    });
+    this.settingsScreen.onClose(() => {
+      this.settingsScreen = null;
+    });
+    this.settingsScreen.show();
+  }
+  
+  /**
+   * Get the player's saved settings
+   * @returns Settings, or the defaults when not saving
+   */
+  private getSettings(): GameSettings {
+    return this.saveManager ? this.saveManager.getSettings() : createDefaultSettings();
+  }
+  
+  /**
+   * Apply audio, key binding and graphics settings to the running session
+   * @param settings Settings to apply
+   */
+  private applySettings(settings: GameSettings): void {
+    this.audioManager.applySettings(settings.audio);
+    this.vehicleControls.setKeyBindings(settings.keyBindings);
+    
+    const preset = graphicsPresets[settings.graphicsQuality];
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, preset.maxPixelRatio));
+    
+    // Materials have to be recompiled when shadows are switched on or off
+    if (this.renderer.shadowMap.enabled !== preset.shadows) {
+      this.renderer.shadowMap.enabled = preset.shadows;
+      this.scene.traverse((object) => {
+        if (object instanceof THREE.Mesh) {
+          const materials = Array.isArray(object.material) ? object.material : [object.material];
+          materials.forEach(material => material.needsUpdate = true);
+        }
+      });
+    }
+    this.directionalLight.castShadow = preset.shadows;
+    
+    // A new shadow map is created at the next render when the old one is dropped
+    const shadow = this.directionalLight.shadow;
+    if (shadow.mapSize.width !== preset.shadowMapSize) {
+      shadow.mapSize.set(preset.shadowMapSize, preset.shadowMapSize);
+      if (shadow.map) {
+        shadow.map.dispose();
+        shadow.map = null;
+      }
+    }
+    
+    if (this.cityGenerator) {
+      this.cityGenerator.setDrawDistance(preset.drawDistance);
+    }
+  }
+  
   /**
    * Apply the selected camera mode settings
    * @param mode Camera mode to apply
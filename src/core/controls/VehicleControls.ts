@@ -1,5 +1,39 @@
 import { Vehicle } from '../../entities/vehicles/Vehicle';
 
+// Keys for each driving control (letters in lower case, others as KeyboardEvent.key)
+export interface KeyBindings {
+  forward: string[];
+  backward: string[];
+  left: string[];
+  right: string[];
+  brake: string[];
+  handbrake: string[];
+  boost: string[];
+}
+
+// A remappable driving control
+export type ControlAction = keyof KeyBindings;
+
+// Bindings used until the player changes them
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  forward: ['w', 'ArrowUp'],
+  backward: ['s', 'ArrowDown'],
+  left: ['a', 'ArrowLeft'],
+  right: ['d', 'ArrowRight'],
+  brake: ['b'],
+  handbrake: [' '], // Space
+  boost: ['Shift', 'n']
+};
+
+/**
+ * Lower-case letter keys so bindings still match while Shift (nitro) is held
+ * @param key Key from a keyboard event
+ * @returns Key as used in the bindings
+ */
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
 /**
  * Class to handle vehicle control inputs
  */
@@ -11,18 +45,12 @@ export class VehicleControls {
     left: false,
     right: false,
     brake: false,
-    handbrake: false
+    handbrake: false,
+    boost: false
   };
   
   // Key bindings
-  private keyBindings = {
-    forward: ['w', 'ArrowUp'],
-    backward: ['s', 'ArrowDown'],
-    left: ['a', 'ArrowLeft'],
-    right: ['d', 'ArrowRight'],
-    brake: ['b'],
-    handbrake: [' '] // Space
-  };
+  private keyBindings: KeyBindings = { ...DEFAULT_KEY_BINDINGS };
   
   // The vehicle to control
   private vehicle: Vehicle | null = null;
@@ -68,7 +96,7 @@ export class VehicleControls {
    * @param event Keyboard event
    */
   private handleKeyDown(event: KeyboardEvent): void {
-    const key = event.key;
+    const key = normalizeKey(event.key);
     
     // Check against key bindings
     for (const [action, keys] of Object.entries(this.keyBindings)) {
@@ -87,7 +115,7 @@ export class VehicleControls {
    * @param event Keyboard event
    */
   private handleKeyUp(event: KeyboardEvent): void {
-    const key = event.key;
+    const key = normalizeKey(event.key);
     
     // Check against key bindings
     for (const [action, keys] of Object.entries(this.keyBindings)) {
@@ -160,11 +188,22 @@ export class VehicleControls {
    * Set custom key bindings
    * @param bindings New key bindings
    */
-  public setKeyBindings(bindings: Partial<typeof this.keyBindings>): void {
+  public setKeyBindings(bindings: Partial<KeyBindings>): void {
     // Merge new bindings with existing ones
     this.keyBindings = {
       ...this.keyBindings,
       ...bindings
     };
+    
+    // Keys held under the old bindings would otherwise never be released
+    this.resetControls();
+  }
+  
+  /**
+   * Get the current key bindings
+   * @returns Key bindings
+   */
+  public getKeyBindings(): KeyBindings {
+    return { ...this.keyBindings };
   }
 } 
\ No newline at end of file
@@ -4,6 +4,35 @@ import { OptimizationManager } from '../optimization/OptimizationManager';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
 import { CollisionManager, CollisionObjectType } from '../../systems/CollisionManager';
 import * as CANNON from 'cannon-es';
+import { SeededRandom } from '../utils/SeededRandom';
+import { SpatialHash, SpatialCategory } from '../utils/SpatialHash';
+import { RoadNetwork, CityBlock, ROAD_WIDTH, SIDEWALK_WIDTH } from './RoadNetwork';
+import { Pickup, PickupType, pickupDefinitions } from '../../game/Pickups';
+import { SurfaceType } from './Surfaces';
+
+// A gate of the race track
+export interface RaceCheckpoint {
+  index: number;
+  nodeId: number;             // Road node the gate stands on
+  position: THREE.Vector3;
+  direction: THREE.Vector3;   // Direction the track leaves the gate
+  marker: THREE.Group;
+}
+
+// Kinds of places pedestrians head for
+export enum PointOfInterestType {
+  DOORWAY = 'doorway', // Building entrance; also somewhere to hide
+  PLAZA = 'plaza',
+  PARK = 'park'
+}
+
+// A place pedestrians walk to and gather at
+export interface PointOfInterest {
+  type: PointOfInterestType;
+  position: THREE.Vector3;
+  facing: THREE.Vector3; // Outward from a doorway, unused for open spaces
+  radius: number;        // How far around the position visitors stand
+}
 
 /**
  * Class to generate a simplified city environment layout
@@ -15,10 +44,30 @@ export class CityGenerator {
   private physicsWorld: PhysicsWorld;
   private collisionManager: CollisionManager;
   
+  // Seeded random generator so a seed always produces the same layout
+  private random: SeededRandom;
+  
+  // Buildings and props are registered here for placement checks
+  private spatialHash: SpatialHash;
+  
+  // Street layout the buildings are placed around
+  private roadNetwork: RoadNetwork | null = null;
+  
   // City parameters
   private citySize: number = 500;
-  private buildingDensity: number = 0.3; // Reduced from 0.5 to 0.3 - fewer buildings
+  private buildingDensity: number = 0.6; // Chance of a building on each lot
   private propDensity: number = 0.3; // Reduced from 0.4 to 0.3 - fewer props
+  private parkChance: number = 0.15; // Chance of a block being a park instead of buildings
+  
+  // Blocks kept free of buildings
+  private plazaBlock: CityBlock | null = null;
+  private parkBlocks: CityBlock[] = [];
+  
+  // Lots left without a building, which are bare dirt
+  private dirtLots: CityBlock[] = [];
+  
+  // Doorways, the plaza and parks, for pedestrian routines
+  private pointsOfInterest: PointOfInterest[] = [];
   
   // Track building positions for collision detection
   private buildingPositions: Array<{
@@ -35,16 +84,22 @@ export class CityGenerator {
    * @param scene Three.js scene
    * @param physicsWorld Physics world for collisions
    * @param collisionManager Collision manager for object registration
+   * @param seed Seed for the city layout
+   * @param spatialHash Spatial hash shared with the other systems
    */
   constructor(
     scene: THREE.Scene, 
     physicsWorld: PhysicsWorld,
-    collisionManager: CollisionManager
+    collisionManager: CollisionManager,
+    seed: number,
+    spatialHash: SpatialHash = new SpatialHash()
   ) {
     this.scene = scene;
     this.physicsWorld = physicsWorld;
     this.collisionManager = collisionManager;
-    this.assets = new EnvironmentAssets();
+    this.spatialHash = spatialHash;
+    this.random = new SeededRandom(seed);
+    this.assets = new EnvironmentAssets(this.random);
   }
   
   /**
@@ -68,7 +123,9 @@ export class CityGenerator {
     // Create perimeter walls to prevent cars from exiting the map
     this.createPerimeterWalls();
     
-    // Skip road generation completely
+    // Lay out the street grid and build the road surfaces
+    this.roadNetwork = new RoadNetwork(this.citySize, this.random);
+    this.createRoads();
     
     // Place buildings
     this.placeBuildings();
@@ -193,101 +250,221 @@ export class CityGenerator {
   }
   
   /**
-   * Place buildings around the city
+   * Build road, junction and sidewalk meshes from the road network
+   */
+  private createRoads(): void {
+    if (!this.roadNetwork) return;
+    
+    console.log('Creating roads...');
+    
+    // Straight pieces between junctions
+    for (const segment of this.roadNetwork.getSegments()) {
+      const length = segment.length - ROAD_WIDTH;
+      if (length <= 0) continue;
+      
+      const road = this.assets.getRoadByIndex(0);
+      road.position.copy(segment.start).lerp(segment.end, 0.5);
+      road.rotation.y = Math.atan2(segment.direction.x, segment.direction.z);
+      road.scale.z = length;
+      road.name = `road-segment-${segment.id}`;
+      this.scene.add(road);
+    }
+    
+    // Junction squares, with sidewalk strips closing off sides without a road
+    const stripOffset = ROAD_WIDTH / 2 + SIDEWALK_WIDTH / 2;
+    const sides = [
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(-1, 0, 0),
+      new THREE.Vector3(0, 0, 1),
+      new THREE.Vector3(0, 0, -1)
+    ];
+    
+    for (const node of this.roadNetwork.getNodes()) {
+      const junction = this.assets.getRoadByIndex(1);
+      junction.position.copy(node.position);
+      junction.name = `road-junction-${node.id}`;
+      this.scene.add(junction);
+      
+      for (const side of sides) {
+        const hasRoad = node.neighbours.some(id => {
+          const neighbour = this.roadNetwork!.getNode(id).position;
+          return neighbour.clone().sub(node.position).normalize().dot(side) > 0.9;
+        });
+        if (hasRoad) continue;
+        
+        const strip = this.assets.getRoadByIndex(2);
+        strip.position.copy(node.position).addScaledVector(side, stripOffset);
+        // Strip runs across the closed side
+        strip.rotation.y = Math.atan2(side.z, side.x);
+        strip.scale.z = ROAD_WIDTH;
+        strip.name = `road-sidewalk-${node.id}`;
+        this.scene.add(strip);
+      }
+    }
+    
+    console.log(`Created ${this.roadNetwork.getSegments().length} road segments`);
+  }
+  
+  /**
+   * Place buildings on the lots of each city block, facing the street
    */
   private placeBuildings(): void {
+    if (!this.roadNetwork) return;
+    
     console.log('Placing buildings...');
     
-    const cityRadius = this.citySize / 2;
+    const blocks = this.roadNetwork.getBlocks();
     
-    // Create a grid of potential building positions with more spacing
-    for (let x = -cityRadius + 20; x <= cityRadius - 20; x += 20) {
-      for (let z = -cityRadius + 20; z <= cityRadius - 20; z += 20) {
-        // Add some randomness to position
-        const posX = x + (Math.random() * 10 - 5);
-        const posZ = z + (Math.random() * 10 - 5);
-        
-        // Skip based on building density
-        if (Math.random() > this.buildingDensity) continue;
-        
-        // Select a random building type, avoiding skyscrapers (index 2)
-        // This helps fit more buildings by having more small ones
-        let buildingIndex;
-        const buildingTypeRoll = Math.random();
-        if (buildingTypeRoll < 0.5) {
-          buildingIndex = 3; // 50% small shops
-        } else if (buildingTypeRoll < 0.9) {
-          buildingIndex = 0; // 40% office buildings
-        } else {
-          buildingIndex = 1; // 10% residential buildings
-        }
-        
-        // Get building dimensions
-        const width = this.getBuildingWidth(buildingIndex);
-        const depth = this.getBuildingDepth(buildingIndex);
-        
-        // Random rotation aligned with grid
-        const rotation = Math.floor(Math.random() * 4) * (Math.PI / 2);
-        
-        // Position checking
-        const position = new THREE.Vector3(posX, 0, posZ);
-        
-        // Check collision with other buildings
-        let validPosition = true;
-        for (const existingBuilding of this.buildingPositions) {
-          const distance = position.distanceTo(existingBuilding.position);
-          // Minimum distance between buildings
-          const minDistance = Math.max(width, depth) / 2 + Math.max(existingBuilding.width, existingBuilding.depth) / 2 + 2;
+    // The block closest to the centre becomes the plaza
+    this.plazaBlock = blocks.reduce((closest, block) =>
+      block.center.length() < closest.center.length() ? block : closest
+    );
+    
+    for (const block of blocks) {
+      if (block === this.plazaBlock) continue;
+      
+      // Some blocks are left as parks
+      if (this.random.next() < this.parkChance) {
+        this.parkBlocks.push(block);
+        continue;
+      }
+      
+      // Each block is split into 2x2 lots
+      const lotSize = block.size / 2;
+      for (const lotX of [-1, 1]) {
+        for (const lotZ of [-1, 1]) {
+          // Skip based on building density, leaving an empty dirt lot
+          if (this.random.next() > this.buildingDensity) {
+            this.createDirtLot({
+              center: new THREE.Vector3(
+                block.center.x + lotX * lotSize / 2,
+                0,
+                block.center.z + lotZ * lotSize / 2
+              ),
+              size: lotSize - 2
+            });
+            continue;
+          }
           
-          if (distance < minDistance) {
-            validPosition = false;
-            break;
+          // Select a random building type, avoiding skyscrapers (index 2)
+          // This helps fit more buildings by having more small ones
+          let buildingIndex;
+          const buildingTypeRoll = this.random.next();
+          if (buildingTypeRoll < 0.5) {
+            buildingIndex = 3; // 50% small shops
+          } else if (buildingTypeRoll < 0.9) {
+            buildingIndex = 0; // 40% office buildings
+          } else {
+            buildingIndex = 1; // 10% residential buildings
           }
+          
+          // Get building dimensions
+          const width = this.getBuildingWidth(buildingIndex);
+          const depth = this.getBuildingDepth(buildingIndex);
+          
+          // Face one of the two streets bordering this lot
+          const facesX = this.random.next() < 0.5;
+          const facing = facesX
+            ? new THREE.Vector3(lotX, 0, 0)
+            : new THREE.Vector3(0, 0, lotZ);
+          const rotation = Math.atan2(facing.x, facing.z);
+          
+          // Push the building towards the street, leaving a small setback
+          const frontOffset = lotSize / 2 - depth / 2 - 1;
+          const position = new THREE.Vector3(
+            block.center.x + lotX * lotSize / 2,
+            0,
+            block.center.z + lotZ * lotSize / 2
+          ).addScaledVector(facing, Math.max(0, frontOffset));
+          
+          // Create and place the building
+          const building = this.assets.getBuildingByIndex(buildingIndex);
+          building.position.copy(position);
+          building.rotation.y = rotation;
+          building.name = `building-${buildingIndex}`;
+          
+          // Add to scene and tracking
+          this.scene.add(building);
+          const buildingEntry = {
+            position: position.clone(),
+            width,
+            depth,
+            rotation
+          };
+          this.buildingPositions.push(buildingEntry);
+          this.spatialHash.insert(SpatialCategory.BUILDING, buildingEntry, position, Math.hypot(width, depth) / 2);
+          
+          // Create a physics body for the building
+          // Use a fixed height for buildings
+          const height = 4; // Fixed height - a bit shorter to ensure we don't overshoot
+          
+          // Create a simple box physics body for the building
+          // Position the physics body with its bottom at y=0
+          const physicsBody = this.physicsWorld.createBox(
+            { x: width/2, y: height/2, z: depth/2 },
+            { x: position.x, y: 0, z: position.z },
+            { mass: 0 } // Static body (mass = 0)
+          );
+          
+          // Apply the same rotation as the visual model
+          const quaternion = new THREE.Quaternion();
+          quaternion.setFromEuler(new THREE.Euler(0, rotation, 0));
+          physicsBody.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+          
+          // Register with physics world and associate with the building
+          this.physicsWorld.addBody(physicsBody, building);
+          
+          // Register with collision manager
+          this.collisionManager.registerObject(physicsBody, CollisionObjectType.BUILDING);
+          
+          // The entrance is in the middle of the street-facing wall
+          this.pointsOfInterest.push({
+            type: PointOfInterestType.DOORWAY,
+            position: position.clone().addScaledVector(facing, depth / 2 + 0.6),
+            facing: facing.clone(),
+            radius: 0.5
+          });
         }
-        
-        if (!validPosition) continue;
-        
-        // Create and place the building
-        const building = this.assets.getBuildingByIndex(buildingIndex);
-        building.position.copy(position);
-        building.rotation.y = rotation;
-        building.name = `building-${buildingIndex}`;
-        
-        // Add to scene and tracking
-        this.scene.add(building);
-        this.buildingPositions.push({
-          position: position.clone(),
-          width,
-          depth,
-          rotation
-        });
-        
-        // Create a physics body for the building
-        // Use a fixed height for buildings
-        const height = 4; // Fixed height - a bit shorter to ensure we don't overshoot
-        
-        // Create a simple box physics body for the building
-        // Position the physics body with its bottom at y=0
-        const physicsBody = this.physicsWorld.createBox(
-          { x: width/2, y: height/2, z: depth/2 },
-          { x: position.x, y: 0, z: position.z },
-          { mass: 0 } // Static body (mass = 0)
-        );
-        
-        // Apply the same rotation as the visual model
-        const quaternion = new THREE.Quaternion();
-        quaternion.setFromEuler(new THREE.Euler(0, rotation, 0));
-        physicsBody.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
-        
-        // Register with physics world and associate with the building
-        this.physicsWorld.addBody(physicsBody, building);
-        
-        // Register with collision manager
-        this.collisionManager.registerObject(physicsBody, CollisionObjectType.BUILDING);
       }
     }
     
-    console.log(`Placed ${this.buildingPositions.length} buildings`);
+    // Open spaces where crowds gather
+    if (this.plazaBlock) {
+      this.pointsOfInterest.push({
+        type: PointOfInterestType.PLAZA,
+        position: this.plazaBlock.center.clone(),
+        facing: new THREE.Vector3(0, 0, 1),
+        radius: 12
+      });
+    }
+    for (const park of this.parkBlocks) {
+      this.pointsOfInterest.push({
+        type: PointOfInterestType.PARK,
+        position: park.center.clone(),
+        facing: new THREE.Vector3(0, 0, 1),
+        radius: 10
+      });
+    }
+    
+    console.log(`Placed ${this.buildingPositions.length} buildings, ${this.parkBlocks.length} parks`);
+  }
+  
+  /**
+   * Lay bare earth over an empty lot
+   * @param lot Lot area
+   */
+  private createDirtLot(lot: CityBlock): void {
+    const dirt = new THREE.Mesh(
+      new THREE.PlaneGeometry(lot.size, lot.size),
+      new THREE.MeshStandardMaterial({ color: 0x7a5c3e, roughness: 1.0, metalness: 0 })
+    );
+    dirt.rotation.x = -Math.PI / 2;
+    dirt.position.set(lot.center.x, 0.01, lot.center.z); // Just above the ground
+    dirt.receiveShadow = true;
+    dirt.name = 'dirt-lot';
+    
+    this.scene.add(dirt);
+    this.dirtLots.push(lot);
   }
   
   /**
@@ -300,29 +477,42 @@ export class CityGenerator {
     
     // Place random props
     for (let i = 0; i < propCount; i++) {
-      // Get random position within city limits
-      const posX = Math.random() * this.citySize - this.citySize / 2;
-      const posZ = Math.random() * this.citySize - this.citySize / 2;
+      // Parks get a share of the props, the rest are scattered around the city
+      let posX: number;
+      let posZ: number;
+      const inPark = this.parkBlocks.length > 0 && this.random.next() < 0.4;
+      if (inPark) {
+        const park = this.parkBlocks[this.random.int(this.parkBlocks.length)];
+        posX = park.center.x + this.random.range(-park.size / 2, park.size / 2);
+        posZ = park.center.z + this.random.range(-park.size / 2, park.size / 2);
+      } else {
+        posX = this.random.range(-this.citySize / 2, this.citySize / 2);
+        posZ = this.random.range(-this.citySize / 2, this.citySize / 2);
+      }
       
       const position = new THREE.Vector3(posX, 0, posZ);
       
+      // Keep the roads clear
+      if (this.roadNetwork && this.roadNetwork.isOnRoad(position)) continue;
+      
       // Check for collisions with buildings
       if (!this.checkPropCollisions(position, 5)) {
-        // Random prop type
-        const propIndex = Math.floor(Math.random() * this.assets.getPropTypesCount());
+        // Random prop type (parks only get trees)
+        const propIndex = inPark ? 0 : this.random.int(this.assets.getPropTypesCount());
         
         // Create prop
         const prop = this.assets.getPropByIndex(propIndex);
         prop.position.copy(position);
         
         // Random rotation
-        prop.rotation.y = Math.random() * Math.PI * 2;
+        prop.rotation.y = this.random.range(0, Math.PI * 2);
         
         // Name for identification
         prop.name = `prop-${propIndex}-${i}`;
         
         // Add to scene
         this.scene.add(prop);
+        this.spatialHash.insert(SpatialCategory.PROP, prop, position, 0.5);
         
         // Add physics body for the prop
         let isTree = prop.name.includes('tree') || 
@@ -371,18 +561,14 @@ export class CityGenerator {
   }
   
   /**
-   * Check if a prop position collides with any building
+   * Check if a prop position collides with any building or another prop
+   * @param position Position to check
+   * @param minDistance Clearance needed from building footprints
+   * @returns True if the position is blocked
    */
   private checkPropCollisions(position: THREE.Vector3, minDistance: number): boolean {
-    // Check collision with buildings
-    for (const building of this.buildingPositions) {
-      const distance = position.distanceTo(building.position);
-      if (distance < minDistance) {
-        return true; // Collision
-      }
-    }
-    
-    return false; // No collision
+    return this.spatialHash.hasAnyWithin(SpatialCategory.BUILDING, position, minDistance) ||
+           this.spatialHash.hasAnyWithin(SpatialCategory.PROP, position, 1);
   }
   
   /**
@@ -396,6 +582,219 @@ export class CityGenerator {
     this.optimizationManager.optimizeEnvironment();
   }
   
+  /**
+   * Place an ordered loop of race checkpoints on junctions around the city centre
+   * @param count Number of checkpoints in the loop
+   * @returns Checkpoints in race order
+   */
+  public createRaceCheckpoints(count: number = 8): RaceCheckpoint[] {
+    if (!this.roadNetwork) return [];
+    
+    const network = this.roadNetwork;
+    const checkpoints: RaceCheckpoint[] = [];
+    const usedNodes = new Set<number>();
+    
+    // One checkpoint per angular sector, so the loop circles the city
+    for (let sector = 0; sector < count; sector++) {
+      const minAngle = (sector / count) * Math.PI * 2;
+      const maxAngle = ((sector + 1) / count) * Math.PI * 2;
+      
+      const candidates = network.getNodes().filter(node => {
+        const distance = node.position.length();
+        let angle = Math.atan2(node.position.z, node.position.x);
+        if (angle < 0) angle += Math.PI * 2;
+        return distance >= 90 && distance <= 230 &&
+               angle >= minAngle && angle < maxAngle &&
+               !usedNodes.has(node.id);
+      });
+      if (candidates.length === 0) continue;
+      
+      const node = candidates[this.random.int(candidates.length)];
+      usedNodes.add(node.id);
+      
+      checkpoints.push({
+        index: checkpoints.length,
+        nodeId: node.id,
+        position: node.position.clone(),
+        direction: new THREE.Vector3(0, 0, 1),
+        marker: new THREE.Group()
+      });
+    }
+    
+    // Orient each gate along the route to the next checkpoint and build its marker
+    checkpoints.forEach((checkpoint, i) => {
+      const next = checkpoints[(i + 1) % checkpoints.length];
+      const path = network.findPath(checkpoint.nodeId, next.nodeId);
+      if (path.length > 1) {
+        checkpoint.direction = network.getNode(path[1]).position.clone()
+          .sub(checkpoint.position)
+          .normalize();
+      }
+      
+      checkpoint.marker = this.createCheckpointGate(checkpoint);
+      this.scene.add(checkpoint.marker);
+    });
+    
+    console.log(`Placed ${checkpoints.length} race checkpoints`);
+    return checkpoints;
+  }
+  
+  /**
+   * Build the gate marking a race checkpoint (visual only, cars drive through it)
+   * @param checkpoint Checkpoint to mark
+   * @returns Gate object
+   */
+  private createCheckpointGate(checkpoint: RaceCheckpoint): THREE.Group {
+    const gate = new THREE.Group();
+    gate.name = `race-checkpoint-${checkpoint.index}`;
+    
+    // Each gate has its own material so the next one can be highlighted
+    const material = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      emissive: 0x222222,
+      transparent: true,
+      opacity: 0.8
+    });
+    
+    const postHeight = 6;
+    const halfSpan = ROAD_WIDTH / 2 + 0.5;
+    
+    for (const side of [-1, 1]) {
+      const post = new THREE.Mesh(new THREE.CylinderGeometry(0.3, 0.3, postHeight, 8), material);
+      post.position.set(side * halfSpan, postHeight / 2, 0);
+      post.castShadow = true;
+      gate.add(post);
+    }
+    
+    const banner = new THREE.Mesh(new THREE.BoxGeometry(halfSpan * 2, 1.2, 0.3), material);
+    banner.position.y = postHeight;
+    gate.add(banner);
+    
+    // Gate spans the road, facing the direction of travel
+    gate.position.copy(checkpoint.position);
+    gate.rotation.y = Math.atan2(checkpoint.direction.x, checkpoint.direction.z);
+    gate.userData.material = material;
+    
+    return gate;
+  }
+  
+  /**
+   * Scatter power-ups along the streets, spread out and away from the start
+   * @param count Number of pickups
+   * @param types Power-ups to choose from
+   * @returns Placed pickups
+   */
+  public createPickups(count: number, types: PickupType[]): Pickup[] {
+    if (!this.roadNetwork || types.length === 0) return [];
+    
+    const segments = this.roadNetwork.getSegments();
+    const pickups: Pickup[] = [];
+    const minSpacing = 40;
+    
+    for (let attempt = 0; attempt < count * 10 && pickups.length < count; attempt++) {
+      const segment = segments[this.random.int(segments.length)];
+      
+      // Somewhere along the road, in either lane, clear of the junctions
+      const t = this.random.range(ROAD_WIDTH, segment.length - ROAD_WIDTH);
+      const right = new THREE.Vector3(-segment.direction.z, 0, segment.direction.x);
+      const position = segment.start.clone()
+        .addScaledVector(segment.direction, t)
+        .addScaledVector(right, this.random.range(-ROAD_WIDTH / 4, ROAD_WIDTH / 4));
+      
+      if (position.length() < 20) continue;
+      if (pickups.some(pickup => pickup.position.distanceTo(position) < minSpacing)) continue;
+      
+      // Cycle through the types so every kind turns up
+      const definition = pickupDefinitions[types[pickups.length % types.length]];
+      const marker = this.createPickupMarker(definition.color);
+      marker.position.copy(position);
+      this.scene.add(marker);
+      
+      pickups.push({ definition, position, marker, respawnTimer: 0 });
+    }
+    
+    console.log(`Placed ${pickups.length} pickups`);
+    return pickups;
+  }
+  
+  /**
+   * Build the floating marker of a power-up (visual only, collected by driving through it)
+   * @param color Color of the power-up
+   * @returns Marker object
+   */
+  private createPickupMarker(color: number): THREE.Group {
+    const marker = new THREE.Group();
+    marker.name = 'pickup';
+    
+    const material = new THREE.MeshStandardMaterial({
+      color,
+      emissive: color,
+      emissiveIntensity: 0.6
+    });
+    
+    const gem = new THREE.Mesh(new THREE.OctahedronGeometry(0.8), material);
+    gem.position.y = 1.5;
+    gem.castShadow = true;
+    marker.add(gem);
+    
+    const ring = new THREE.Mesh(new THREE.TorusGeometry(1.2, 0.08, 8, 24), material);
+    ring.position.y = 1.5;
+    marker.add(ring);
+    
+    return marker;
+  }
+  
+  /**
+   * Get the road network of the generated city
+   * @returns Road network, or null before the city is generated
+   */
+  public getRoadNetwork(): RoadNetwork | null {
+    return this.roadNetwork;
+  }
+  
+  /**
+   * Get the places pedestrians walk between
+   * @returns Doorways, the plaza and parks
+   */
+  public getPointsOfInterest(): PointOfInterest[] {
+    return this.pointsOfInterest;
+  }
+  
+  /**
+   * Find out what the ground is made of at a position
+   * @param position World position
+   * @returns Surface type; grass anywhere off the streets and dirt lots
+   */
+  public getSurfaceAt(position: THREE.Vector3): SurfaceType {
+    if (!this.roadNetwork) return SurfaceType.ASPHALT;
+    
+    const isInside = (area: CityBlock) =>
+      Math.abs(position.x - area.center.x) <= area.size / 2 && Math.abs(position.z - area.center.z) <= area.size / 2;
+    
+    if (this.roadNetwork.isOnRoad(position)) return SurfaceType.ASPHALT;
+    if (this.roadNetwork.isOnSidewalk(position)) return SurfaceType.SIDEWALK;
+    if (this.dirtLots.some(isInside)) return SurfaceType.DIRT;
+    return SurfaceType.GRASS;
+  }
+  
+  /**
+   * Get the seed used to generate this city
+   * @returns City seed
+   */
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+  
+  /**
+   * Set how far away buildings and props stay visible (needs the optimized city)
+   * @param distance Draw distance
+   */
+  public setDrawDistance(distance: number): void {
+    if (this.optimizationManager) {
+      this.optimizationManager.setDrawDistance(distance);
+    }
+  }
+  
   /**
    * Update the city based on camera position (for optimization)
    */
@@ -433,8 +832,10 @@ export class CityGenerator {
    * Place a special Trump statue in a prominent location
    */
   private placeTrumpStatue(): void {
-    // Find a good position near the center of the city (0,0) but with some slight offset
-    const position = new THREE.Vector3(5, 0, 5);
+    // Stand in the middle of the central plaza
+    const position = this.plazaBlock
+      ? this.plazaBlock.center.clone()
+      : new THREE.Vector3(5, 0, 5);
     
     // Check for collisions with buildings
     if (!this.checkPropCollisions(position, 5)) {
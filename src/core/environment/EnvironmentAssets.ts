@@ -2,6 +2,8 @@ import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { TextureLoader } from 'three';
 import { LOD } from 'three';
+import { SeededRandom } from '../utils/SeededRandom';
+import { ROAD_WIDTH, SIDEWALK_WIDTH } from './RoadNetwork';
 
 /**
  * Class to manage loading and organizing environment assets
@@ -25,10 +27,15 @@ export class EnvironmentAssets {
   // Loading state
   private loadingPromises: Promise<any>[] = [];
   
+  // Random number generator for deterministic variations
+  private random: SeededRandom;
+  
   /**
    * Constructor
+   * @param random Seeded random generator shared with the city generator
    */
-  constructor() {
+  constructor(random: SeededRandom) {
+    this.random = random;
     this.gltfLoader = new GLTFLoader();
     this.textureLoader = new TextureLoader();
     this.initializeSharedMaterials();
@@ -85,6 +92,18 @@ export class EnvironmentAssets {
       roughness: 0.8,
       metalness: 0.1
     }));
+    
+    this.sharedMaterials.set('road-marking', new THREE.MeshStandardMaterial({
+      color: 0xffcc00,
+      roughness: 0.6,
+      metalness: 0.0
+    }));
+    
+    this.sharedMaterials.set('road-sidewalk', new THREE.MeshStandardMaterial({
+      color: 0x999999,
+      roughness: 0.9,
+      metalness: 0.0
+    }));
   }
   
   /**
@@ -110,7 +129,7 @@ export class EnvironmentAssets {
   private getRandomHeightVariation(baseHeight: number, variationPercent: number = 0.2): number {
     const minHeight = baseHeight * (1 - variationPercent);
     const maxHeight = baseHeight * (1 + variationPercent);
-    return minHeight + Math.random() * (maxHeight - minHeight);
+    return minHeight + this.random.next() * (maxHeight - minHeight);
   }
   
   /**
@@ -123,6 +142,9 @@ export class EnvironmentAssets {
     // Load building models
     this.loadBuildingModels();
     
+    // Load road pieces
+    this.loadRoadModels();
+    
     // Load prop models
     this.loadPropModels();
     
@@ -436,6 +458,121 @@ export class EnvironmentAssets {
   }
   
   
+  /**
+   * Create the modular road pieces
+   * Index 0: straight road, 1 metre long (scale along z to the segment length)
+   * Index 1: junction square with sidewalk corners
+   * Index 2: sidewalk strip, 1 metre long (closes off unused junction sides)
+   */
+  private loadRoadModels(): void {
+    this.roadModels.push(this.createStraightRoad());
+    this.roadModels.push(this.createJunction());
+    this.roadModels.push(this.createSidewalkStrip());
+  }
+  
+  /**
+   * Create a straight road piece with centre line and sidewalks on both sides
+   * @returns Road piece, 1 metre long along z
+   */
+  private createStraightRoad(): THREE.Object3D {
+    const road = new THREE.Group();
+    road.name = 'road-straight';
+    road.userData.type = 'road_straight';
+    
+    // Asphalt
+    const asphalt = new THREE.Mesh(
+      new THREE.PlaneGeometry(ROAD_WIDTH, 1),
+      this.getSharedMaterial('road-asphalt')
+    );
+    asphalt.rotation.x = -Math.PI / 2;
+    asphalt.position.y = 0.02;
+    asphalt.receiveShadow = true;
+    asphalt.name = 'road-asphalt';
+    road.add(asphalt);
+    
+    // Centre line
+    const centreLine = new THREE.Mesh(
+      new THREE.PlaneGeometry(0.2, 1),
+      this.getSharedMaterial('road-marking')
+    );
+    centreLine.rotation.x = -Math.PI / 2;
+    centreLine.position.y = 0.03;
+    centreLine.name = 'road-marking';
+    road.add(centreLine);
+    
+    // Sidewalks
+    for (const side of [-1, 1]) {
+      const sidewalk = new THREE.Mesh(
+        new THREE.BoxGeometry(SIDEWALK_WIDTH, 0.15, 1),
+        this.getSharedMaterial('road-sidewalk')
+      );
+      sidewalk.position.set(side * (ROAD_WIDTH / 2 + SIDEWALK_WIDTH / 2), 0.075, 0);
+      sidewalk.receiveShadow = true;
+      sidewalk.name = 'road-sidewalk';
+      road.add(sidewalk);
+    }
+    
+    return road;
+  }
+  
+  /**
+   * Create a junction piece: an asphalt square with sidewalk corners
+   * @returns Junction piece
+   */
+  private createJunction(): THREE.Object3D {
+    const junction = new THREE.Group();
+    junction.name = 'road-junction';
+    junction.userData.type = 'road_junction';
+    
+    const asphalt = new THREE.Mesh(
+      new THREE.PlaneGeometry(ROAD_WIDTH, ROAD_WIDTH),
+      this.getSharedMaterial('road-asphalt')
+    );
+    asphalt.rotation.x = -Math.PI / 2;
+    asphalt.position.y = 0.02;
+    asphalt.receiveShadow = true;
+    asphalt.name = 'road-asphalt';
+    junction.add(asphalt);
+    
+    // Sidewalk corners
+    const cornerOffset = ROAD_WIDTH / 2 + SIDEWALK_WIDTH / 2;
+    for (const x of [-1, 1]) {
+      for (const z of [-1, 1]) {
+        const corner = new THREE.Mesh(
+          new THREE.BoxGeometry(SIDEWALK_WIDTH, 0.15, SIDEWALK_WIDTH),
+          this.getSharedMaterial('road-sidewalk')
+        );
+        corner.position.set(x * cornerOffset, 0.075, z * cornerOffset);
+        corner.receiveShadow = true;
+        corner.name = 'road-sidewalk';
+        junction.add(corner);
+      }
+    }
+    
+    return junction;
+  }
+  
+  /**
+   * Create a sidewalk strip
+   * @returns Sidewalk piece, 1 metre long along z
+   */
+  private createSidewalkStrip(): THREE.Object3D {
+    const strip = new THREE.Mesh(
+      new THREE.BoxGeometry(SIDEWALK_WIDTH, 0.15, 1),
+      this.getSharedMaterial('road-sidewalk')
+    );
+    strip.position.y = 0.075;
+    strip.receiveShadow = true;
+    strip.name = 'road-sidewalk';
+    
+    const group = new THREE.Group();
+    group.name = 'road-sidewalk-strip';
+    group.userData.type = 'road_sidewalk';
+    group.add(strip);
+    
+    return group;
+  }
+  
   /**
    * Load prop models (vegetation, street furniture, etc.)
    */
@@ -818,7 +955,7 @@ export class EnvironmentAssets {
    * @returns A random building model
    */
   public getRandomBuilding(): THREE.Object3D {
-    const index = Math.floor(Math.random() * this.buildingModels.length);
+    const index = this.random.int(this.buildingModels.length);
     return this.buildingModels[index].clone();
   }
   
@@ -840,7 +977,7 @@ export class EnvironmentAssets {
    * @returns A random road model
    */
   public getRandomRoad(): THREE.Object3D {
-    const index = Math.floor(Math.random() * this.roadModels.length);
+    const index = this.random.int(this.roadModels.length);
     return this.roadModels[index].clone();
   }
   
@@ -862,7 +999,7 @@ export class EnvironmentAssets {
    * @returns A random prop model
    */
   public getRandomProp(): THREE.Object3D {
-    const index = Math.floor(Math.random() * this.propModels.length);
+    const index = this.random.int(this.propModels.length);
     return this.propModels[index].clone();
   }
   
@@ -0,0 +1,415 @@
+import * as THREE from 'three';
+import { SeededRandom } from '../utils/SeededRandom';
+
+// Road dimensions (metres)
+export const ROAD_WIDTH = 10;
+export const LANE_WIDTH = ROAD_WIDTH / 2;
+export const SIDEWALK_WIDTH = 3;
+export const BLOCK_SPACING = 70; // Distance between parallel roads
+
+// Junction types, derived from how many roads meet at a node
+export enum RoadNodeType {
+  DEAD_END = 'dead_end',
+  STRAIGHT = 'straight',
+  CORNER = 'corner',
+  T_JUNCTION = 't_junction',
+  CROSSROADS = 'crossroads'
+}
+
+// A node in the road graph (intersection, corner or road end)
+export interface RoadNode {
+  id: number;
+  position: THREE.Vector3;
+  neighbours: number[];
+  type: RoadNodeType;
+}
+
+// A straight road between two nodes
+export interface RoadSegment {
+  id: number;
+  from: number;
+  to: number;
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  direction: THREE.Vector3; // Unit vector from start to end
+  length: number;
+}
+
+// A city block enclosed by roads
+export interface CityBlock {
+  center: THREE.Vector3;
+  size: number;
+}
+
+/**
+ * Road graph for the city: a grid of streets with some roads removed
+ * to create T-junctions, corners and larger blocks.
+ * Used for building placement, the minimap and NPC/traffic navigation.
+ */
+export class RoadNetwork {
+  private nodes: RoadNode[] = [];
+  private segments: RoadSegment[] = [];
+
+  // Grid line coordinates (same on both axes)
+  private gridLines: number[] = [];
+
+  // Probability of removing an interior road segment
+  private segmentRemovalChance: number = 0.2;
+
+  /**
+   * Constructor
+   * @param citySize Size of the city in metres
+   * @param random Seeded random generator for the layout
+   */
+  constructor(citySize: number, random: SeededRandom) {
+    this.generate(citySize, random);
+  }
+
+  /**
+   * Generate the road grid
+   * @param citySize Size of the city in metres
+   * @param random Seeded random generator
+   */
+  private generate(citySize: number, random: SeededRandom): void {
+    // Grid lines centred on the origin, staying a block's margin inside the walls
+    const halfLines = Math.floor((citySize / 2 - BLOCK_SPACING / 2) / BLOCK_SPACING);
+    for (let i = -halfLines; i <= halfLines; i++) {
+      this.gridLines.push(i * BLOCK_SPACING);
+    }
+
+    const count = this.gridLines.length;
+    const nodeIndex = (ix: number, iz: number) => iz * count + ix;
+
+    // Create a node at every grid intersection
+    for (let iz = 0; iz < count; iz++) {
+      for (let ix = 0; ix < count; ix++) {
+        this.nodes.push({
+          id: nodeIndex(ix, iz),
+          position: new THREE.Vector3(this.gridLines[ix], 0, this.gridLines[iz]),
+          neighbours: [],
+          type: RoadNodeType.DEAD_END
+        });
+      }
+    }
+
+    // Candidate edges between neighbouring intersections
+    const edges: Array<{ a: number; b: number; outer: boolean }> = [];
+    for (let iz = 0; iz < count; iz++) {
+      for (let ix = 0; ix < count; ix++) {
+        if (ix < count - 1) {
+          edges.push({ a: nodeIndex(ix, iz), b: nodeIndex(ix + 1, iz), outer: iz === 0 || iz === count - 1 });
+        }
+        if (iz < count - 1) {
+          edges.push({ a: nodeIndex(ix, iz), b: nodeIndex(ix, iz + 1), outer: ix === 0 || ix === count - 1 });
+        }
+      }
+    }
+
+    edges.forEach(edge => this.link(edge.a, edge.b));
+
+    // Remove some interior roads, keeping the ring road and the graph connected
+    for (const edge of edges) {
+      if (edge.outer || random.next() > this.segmentRemovalChance) continue;
+
+      const nodeA = this.nodes[edge.a];
+      const nodeB = this.nodes[edge.b];
+
+      // Never leave dead ends or cut through the centre
+      if (nodeA.neighbours.length <= 2 || nodeB.neighbours.length <= 2) continue;
+      if (nodeA.position.lengthSq() === 0 || nodeB.position.lengthSq() === 0) continue;
+
+      this.unlink(edge.a, edge.b);
+      if (!this.isConnected()) {
+        this.link(edge.a, edge.b);
+      }
+    }
+
+    // Build segments and classify nodes
+    for (const node of this.nodes) {
+      for (const neighbourId of node.neighbours) {
+        if (neighbourId > node.id) {
+          this.addSegment(node.id, neighbourId);
+        }
+      }
+      node.type = this.classifyNode(node);
+    }
+
+    console.log(`Road network generated: ${this.nodes.length} nodes, ${this.segments.length} segments`);
+  }
+
+  /**
+   * Connect two nodes
+   */
+  private link(a: number, b: number): void {
+    this.nodes[a].neighbours.push(b);
+    this.nodes[b].neighbours.push(a);
+  }
+
+  /**
+   * Disconnect two nodes
+   */
+  private unlink(a: number, b: number): void {
+    this.nodes[a].neighbours = this.nodes[a].neighbours.filter(id => id !== b);
+    this.nodes[b].neighbours = this.nodes[b].neighbours.filter(id => id !== a);
+  }
+
+  /**
+   * Check that every node can be reached from the first one
+   */
+  private isConnected(): boolean {
+    const visited = new Set<number>([0]);
+    const queue = [0];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const neighbour of this.nodes[current].neighbours) {
+        if (!visited.has(neighbour)) {
+          visited.add(neighbour);
+          queue.push(neighbour);
+        }
+      }
+    }
+
+    return visited.size === this.nodes.length;
+  }
+
+  /**
+   * Create a segment between two connected nodes
+   */
+  private addSegment(from: number, to: number): void {
+    const start = this.nodes[from].position.clone();
+    const end = this.nodes[to].position.clone();
+    const length = start.distanceTo(end);
+
+    this.segments.push({
+      id: this.segments.length,
+      from,
+      to,
+      start,
+      end,
+      direction: end.clone().sub(start).normalize(),
+      length
+    });
+  }
+
+  /**
+   * Work out the junction type of a node
+   */
+  private classifyNode(node: RoadNode): RoadNodeType {
+    switch (node.neighbours.length) {
+      case 4:
+        return RoadNodeType.CROSSROADS;
+      case 3:
+        return RoadNodeType.T_JUNCTION;
+      case 2: {
+        // Straight if both neighbours lie on the same axis
+        const [a, b] = node.neighbours.map(id => this.nodes[id].position);
+        const straight = a.x === b.x || a.z === b.z;
+        return straight ? RoadNodeType.STRAIGHT : RoadNodeType.CORNER;
+      }
+      default:
+        return RoadNodeType.DEAD_END;
+    }
+  }
+
+  /**
+   * Get all nodes
+   * @returns Road nodes
+   */
+  public getNodes(): RoadNode[] {
+    return this.nodes;
+  }
+
+  /**
+   * Get a node by id
+   * @param id Node id
+   * @returns Road node
+   */
+  public getNode(id: number): RoadNode {
+    return this.nodes[id];
+  }
+
+  /**
+   * Get all road segments
+   * @returns Road segments
+   */
+  public getSegments(): RoadSegment[] {
+    return this.segments;
+  }
+
+  /**
+   * Get the city blocks enclosed by the grid lines
+   * @returns City blocks
+   */
+  public getBlocks(): CityBlock[] {
+    const blocks: CityBlock[] = [];
+    for (let iz = 0; iz < this.gridLines.length - 1; iz++) {
+      for (let ix = 0; ix < this.gridLines.length - 1; ix++) {
+        blocks.push({
+          center: new THREE.Vector3(
+            (this.gridLines[ix] + this.gridLines[ix + 1]) / 2,
+            0,
+            (this.gridLines[iz] + this.gridLines[iz + 1]) / 2
+          ),
+          size: BLOCK_SPACING - ROAD_WIDTH - SIDEWALK_WIDTH * 2
+        });
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * Find the node closest to a position
+   * @param position World position
+   * @returns Closest road node
+   */
+  public getNearestNode(position: THREE.Vector3): RoadNode {
+    let nearest = this.nodes[0];
+    let nearestDistance = Infinity;
+
+    for (const node of this.nodes) {
+      const dx = node.position.x - position.x;
+      const dz = node.position.z - position.z;
+      const distance = dx * dx + dz * dz;
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = node;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Find the closest point on the road centrelines
+   * @param position World position
+   * @returns Closest segment, the point on it and the horizontal distance
+   */
+  public getNearestSegment(position: THREE.Vector3): { segment: RoadSegment; point: THREE.Vector3; distance: number } {
+    let best = { segment: this.segments[0], point: this.segments[0].start.clone(), distance: Infinity };
+
+    for (const segment of this.segments) {
+      const toPosition = new THREE.Vector3(position.x - segment.start.x, 0, position.z - segment.start.z);
+      const t = THREE.MathUtils.clamp(toPosition.dot(segment.direction), 0, segment.length);
+      const point = segment.start.clone().addScaledVector(segment.direction, t);
+      const distance = Math.hypot(position.x - point.x, position.z - point.z);
+
+      if (distance < best.distance) {
+        best = { segment, point, distance };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Check whether a position is on the road surface
+   * @param position World position
+   * @returns True if on asphalt
+   */
+  public isOnRoad(position: THREE.Vector3): boolean {
+    return this.getNearestSegment(position).distance <= ROAD_WIDTH / 2;
+  }
+
+  /**
+   * Check whether a position is on a sidewalk
+   * @param position World position
+   * @returns True if on a sidewalk
+   */
+  public isOnSidewalk(position: THREE.Vector3): boolean {
+    const distance = this.getNearestSegment(position).distance;
+    return distance > ROAD_WIDTH / 2 && distance <= ROAD_WIDTH / 2 + SIDEWALK_WIDTH;
+  }
+
+  /**
+   * Get the centre of the right-hand lane between two connected nodes
+   * @param fromId Node the vehicle is coming from
+   * @param toId Node the vehicle is heading to
+   * @param t Progress along the road (0-1)
+   * @returns Lane position
+   */
+  public getLanePoint(fromId: number, toId: number, t: number): THREE.Vector3 {
+    const from = this.nodes[fromId].position;
+    const to = this.nodes[toId].position;
+    const direction = to.clone().sub(from).normalize();
+
+    // Right-hand traffic: the lane is offset to the right of the travel direction
+    const right = new THREE.Vector3(-direction.z, 0, direction.x);
+
+    return from.clone().lerp(to, t).addScaledVector(right, LANE_WIDTH / 2);
+  }
+
+  /**
+   * Get a random point on a sidewalk
+   * @param random Random number source (defaults to Math.random)
+   * @returns Sidewalk position
+   */
+  public getRandomSidewalkPoint(random: () => number = Math.random): THREE.Vector3 {
+    const segment = this.segments[Math.floor(random() * this.segments.length)];
+
+    // Stay clear of the junctions at either end
+    const margin = ROAD_WIDTH / 2 + SIDEWALK_WIDTH;
+    const t = margin + random() * (segment.length - margin * 2);
+
+    const side = random() < 0.5 ? 1 : -1;
+    const offset = (ROAD_WIDTH / 2 + SIDEWALK_WIDTH / 2) * side;
+    const right = new THREE.Vector3(-segment.direction.z, 0, segment.direction.x);
+
+    return segment.start.clone()
+      .addScaledVector(segment.direction, t)
+      .addScaledVector(right, offset);
+  }
+
+  /**
+   * Find the shortest route between two nodes (A*)
+   * @param startId Start node id
+   * @param goalId Goal node id
+   * @returns Node ids along the route, including start and goal, or an empty array
+   */
+  public findPath(startId: number, goalId: number): number[] {
+    const goal = this.nodes[goalId].position;
+    const open = new Set<number>([startId]);
+    const cameFrom = new Map<number, number>();
+    const gScore = new Map<number, number>([[startId, 0]]);
+    const fScore = new Map<number, number>([[startId, this.nodes[startId].position.distanceTo(goal)]]);
+
+    while (open.size > 0) {
+      // Pick the open node with the lowest estimated cost
+      let current = -1;
+      let lowest = Infinity;
+      open.forEach(id => {
+        const score = fScore.get(id) ?? Infinity;
+        if (score < lowest) {
+          lowest = score;
+          current = id;
+        }
+      });
+
+      if (current === goalId) {
+        const path = [current];
+        while (cameFrom.has(current)) {
+          current = cameFrom.get(current)!;
+          path.unshift(current);
+        }
+        return path;
+      }
+
+      open.delete(current);
+      const currentNode = this.nodes[current];
+
+      for (const neighbour of currentNode.neighbours) {
+        const tentative = (gScore.get(current) ?? Infinity) +
+          currentNode.position.distanceTo(this.nodes[neighbour].position);
+
+        if (tentative < (gScore.get(neighbour) ?? Infinity)) {
+          cameFrom.set(neighbour, current);
+          gScore.set(neighbour, tentative);
+          fScore.set(neighbour, tentative + this.nodes[neighbour].position.distanceTo(goal));
+          open.add(neighbour);
+        }
+      }
+    }
+
+    return [];
+  }
+}
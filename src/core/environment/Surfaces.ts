@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { ParticleEffectType } from '../../systems/ParticleSystem';
+
+// What the ground is made of
+export enum SurfaceType {
+  ASPHALT = 'asphalt',
+  SIDEWALK = 'sidewalk',
+  GRASS = 'grass',
+  DIRT = 'dirt'
+}
+
+// Finds the surface at a world position, e.g. from the city layout
+export type SurfaceQuery = (position: THREE.Vector3) => SurfaceType;
+
+// How a surface drives, sounds and looks under a sliding tyre
+export interface SurfaceDefinition {
+  type: SurfaceType;
+  grip: number;                 // Tyre grip relative to asphalt
+  rollingDrag: number;          // Extra slowdown per second, for soft ground
+  loose: boolean;               // Kicks up a trail even without sliding
+  particle: ParticleEffectType; // Thrown up by a sliding or spinning tyre
+  skidColor: number;            // Color of the marks left behind
+  skidSound: string;            // Vehicle sound of a sliding tyre
+}
+
+// All surfaces
+export const surfaceDefinitions: Record<SurfaceType, SurfaceDefinition> = {
+  [SurfaceType.ASPHALT]: {
+    type: SurfaceType.ASPHALT,
+    grip: 1.0,
+    rollingDrag: 0,
+    loose: false,
+    particle: ParticleEffectType.TIRE_SMOKE,
+    skidColor: 0x222222,
+    skidSound: 'brake'
+  },
+  [SurfaceType.SIDEWALK]: {
+    type: SurfaceType.SIDEWALK,
+    grip: 0.9,
+    rollingDrag: 0.05,
+    loose: false,
+    particle: ParticleEffectType.TIRE_SMOKE,
+    skidColor: 0x333333,
+    skidSound: 'brake'
+  },
+  [SurfaceType.GRASS]: {
+    type: SurfaceType.GRASS,
+    grip: 0.55,
+    rollingDrag: 0.35,
+    loose: true,
+    particle: ParticleEffectType.GRASS_SPRAY,
+    skidColor: 0x3a2a18,
+    skidSound: 'skid_loose'
+  },
+  [SurfaceType.DIRT]: {
+    type: SurfaceType.DIRT,
+    grip: 0.7,
+    rollingDrag: 0.2,
+    loose: true,
+    particle: ParticleEffectType.DUST,
+    skidColor: 0x4a3520,
+    skidSound: 'skid_loose'
+  }
+};
@@ -822,6 +822,14 @@ export class OptimizationManager {
     }
   }
   
+  /**
+   * Set how far away environment objects stay visible
+   * @param distance Draw distance
+   */
+  public setDrawDistance(distance: number): void {
+    this.optimizer.setMaxVisibleDistance(distance);
+  }
+  
   /**
    * Update optimizations on each frame
    * @param camera THREE.js camera for distance-based optimizations
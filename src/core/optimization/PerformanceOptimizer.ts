@@ -1107,6 +1107,14 @@ export class PerformanceOptimizer {
     });
   }
   
+  /**
+   * Set the distance beyond which optimizable objects are hidden
+   * @param distance Maximum visible distance
+   */
+  public setMaxVisibleDistance(distance: number): void {
+    this.settings.maxVisibleDistance = distance;
+  }
+  
   /**
    * Update optimizations on each frame
    * @param camera THREE.js camera for distance-based optimizations
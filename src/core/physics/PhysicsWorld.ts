@@ -1,6 +1,12 @@
 import * as CANNON from 'cannon-es';
 import * as THREE from 'three';
 
+// Length of one physics step in seconds; all simulation runs at this rate
+export const FIXED_TIME_STEP = 1 / 60;
+
+// Most steps taken in one frame, so a long hitch doesn't stall the game
+const MAX_STEPS_PER_FRAME = 5;
+
 /**
  * Class to manage the Cannon.js physics world
  */
@@ -21,6 +27,12 @@ export class PhysicsWorld {
   // Collision callbacks
   private collisionCallbacks: Array<(event: any) => void> = [];
   
+  // Callbacks run before every fixed step (vehicle input and integration)
+  private fixedStepCallbacks: Array<(fixedDeltaTime: number) => void> = [];
+  
+  // Frame time not yet simulated
+  private accumulator: number = 0;
+  
   /**
    * Constructor
    * @param gravity Gravity vector
@@ -120,6 +132,25 @@ export class PhysicsWorld {
     }
   }
   
+  /**
+   * Register a callback to run before every fixed physics step
+   * @param callback Function called with the fixed step length
+   */
+  public registerFixedStepCallback(callback: (fixedDeltaTime: number) => void): void {
+    this.fixedStepCallbacks.push(callback);
+  }
+  
+  /**
+   * Remove a fixed step callback
+   * @param callback The callback to remove
+   */
+  public unregisterFixedStepCallback(callback: (fixedDeltaTime: number) => void): void {
+    const index = this.fixedStepCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.fixedStepCallbacks.splice(index, 1);
+    }
+  }
+  
   /**
    * Create a physics body from a Three.js mesh
    * @param mesh Three.js mesh to create a physics body for
@@ -388,8 +419,13 @@ export class PhysicsWorld {
    */
   public update(deltaTime: number): void {
     if (deltaTime > 0) {
-      // Step the physics world
-      this.world.step(1 / 60, deltaTime, 3);
+      // Run whole fixed steps for the elapsed time, carrying the remainder to the next frame
+      this.accumulator = Math.min(this.accumulator + deltaTime, FIXED_TIME_STEP * MAX_STEPS_PER_FRAME);
+      while (this.accumulator >= FIXED_TIME_STEP) {
+        this.fixedStepCallbacks.forEach(callback => callback(FIXED_TIME_STEP));
+        this.world.step(FIXED_TIME_STEP);
+        this.accumulator -= FIXED_TIME_STEP;
+      }
       
       // Update the meshes from their associated physics bodies
       this.bodyMeshMap.forEach((mesh, body) => {
@@ -597,6 +633,22 @@ export class PhysicsWorld {
     this.world.addContactMaterial(contactMaterial);
   }
   
+  /**
+   * Add a constraint (joint) between bodies
+   * @param constraint The constraint to add
+   */
+  public addConstraint(constraint: CANNON.Constraint): void {
+    this.world.addConstraint(constraint);
+  }
+  
+  /**
+   * Remove a constraint
+   * @param constraint The constraint to remove
+   */
+  public removeConstraint(constraint: CANNON.Constraint): void {
+    this.world.removeConstraint(constraint);
+  }
+  
   /**
    * Get the number of bodies in the physics world
    * @returns Number of bodies
@@ -0,0 +1,46 @@
+/**
+ * Millisecond clock for gameplay timers that stands still while the game is paused
+ * Use GameClock.now() instead of Date.now() for anything that should not run on during a pause
+ */
+export class GameClock {
+  // Wall-clock time the current pause started, or null while running
+  private static pausedAt: number | null = null;
+
+  // Total time spent paused
+  private static pausedTime: number = 0;
+
+  /**
+   * Get the current game time
+   * @returns Milliseconds, comparable with earlier values from this clock
+   */
+  public static now(): number {
+    return (GameClock.pausedAt ?? Date.now()) - GameClock.pausedTime;
+  }
+
+  /**
+   * Stop the clock
+   */
+  public static pause(): void {
+    if (GameClock.pausedAt === null) {
+      GameClock.pausedAt = Date.now();
+    }
+  }
+
+  /**
+   * Start the clock again from where it was paused
+   */
+  public static resume(): void {
+    if (GameClock.pausedAt !== null) {
+      GameClock.pausedTime += Date.now() - GameClock.pausedAt;
+      GameClock.pausedAt = null;
+    }
+  }
+
+  /**
+   * Check whether the clock is stopped
+   * @returns True while paused
+   */
+  public static isPaused(): boolean {
+    return GameClock.pausedAt !== null;
+  }
+}
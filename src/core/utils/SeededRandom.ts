@@ -0,0 +1,87 @@
+/**
+ * Deterministic pseudo-random number generator (mulberry32)
+ * The same seed always produces the same sequence of numbers
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  /**
+   * Constructor
+   * @param seed Seed value (unsigned 32-bit integer)
+   */
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a new random seed for sessions that don't specify one
+   * @returns Random unsigned 32-bit seed
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Parse a seed from user input
+   * Numeric input is used as-is, any other text is hashed into a seed
+   * @param value Seed text
+   * @returns Unsigned 32-bit seed, or null if the input is empty
+   */
+  public static parseSeed(value: string): number | null {
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0;
+    }
+
+    // FNV-1a hash for text seeds
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Get the next random number
+   * @returns Number in the range [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a random number in a range
+   * @param min Minimum value (inclusive)
+   * @param max Maximum value (exclusive)
+   * @returns Random number
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Get a random integer
+   * @param max Maximum value (exclusive)
+   * @returns Random integer in the range [0, max)
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Get the seed this generator was created with
+   * @returns Seed value
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+}
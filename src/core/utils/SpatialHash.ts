@@ -0,0 +1,288 @@
+import * as THREE from 'three';
+
+// Kinds of objects registered in the spatial hash; each is queried separately
+export enum SpatialCategory {
+  HUMAN = 'human',
+  ANIMAL = 'animal',
+  BUILDING = 'building',
+  PROP = 'prop'
+}
+
+// Where a registered object is and which cells it occupies
+interface SpatialEntry {
+  category: SpatialCategory;
+  x: number;
+  z: number;
+  radius: number;
+  keys: number[];
+}
+
+// Cell coordinates are offset so keys stay positive
+const CELL_OFFSET = 32768;
+
+/**
+ * Uniform grid over the ground plane for fast radius and nearest-neighbour queries.
+ * NPCs, buildings and props register here instead of every system scanning
+ * every object. Objects are circles on the XZ plane; moving objects are
+ * re-bucketed with move() whenever they change position.
+ */
+export class SpatialHash {
+  // Cell key to the objects overlapping that cell, per category
+  private cells: Map<SpatialCategory, Map<number, Set<object>>> = new Map();
+  private entries: Map<object, SpatialEntry> = new Map();
+
+  /**
+   * Constructor
+   * @param cellSize Width of a grid cell in metres
+   */
+  constructor(private cellSize: number = 10) {
+    Object.values(SpatialCategory).forEach(category => this.cells.set(category, new Map()));
+  }
+
+  /**
+   * Register an object
+   * @param category Kind of object
+   * @param object Object to register
+   * @param position Position of the object
+   * @param radius Footprint radius, for objects larger than a point
+   */
+  public insert(category: SpatialCategory, object: object, position: THREE.Vector3, radius: number = 0): void {
+    if (this.entries.has(object)) {
+      this.remove(object);
+    }
+
+    const entry: SpatialEntry = { category, x: position.x, z: position.z, radius, keys: [] };
+    this.entries.set(object, entry);
+    this.addToCells(object, entry);
+  }
+
+  /**
+   * Update the position of a registered object
+   * @param object Registered object
+   * @param position New position
+   */
+  public move(object: object, position: THREE.Vector3): void {
+    const entry = this.entries.get(object);
+    if (!entry) return;
+
+    // Only re-bucket when the object has changed cell
+    const sameCell = entry.radius === 0 &&
+      this.getKey(this.toCell(position.x), this.toCell(position.z)) === entry.keys[0];
+
+    entry.x = position.x;
+    entry.z = position.z;
+
+    if (!sameCell) {
+      this.removeFromCells(object, entry);
+      this.addToCells(object, entry);
+    }
+  }
+
+  /**
+   * Unregister an object
+   * @param object Registered object
+   */
+  public remove(object: object): void {
+    const entry = this.entries.get(object);
+    if (!entry) return;
+
+    this.removeFromCells(object, entry);
+    this.entries.delete(object);
+  }
+
+  /**
+   * Find all objects of a kind within a radius
+   * @param category Kind of object
+   * @param position Centre of the search
+   * @param radius Search radius
+   * @returns Objects whose footprint is within the radius
+   */
+  public queryRadius<T extends object>(category: SpatialCategory, position: THREE.Vector3, radius: number): T[] {
+    const results: T[] = [];
+    this.forEachWithin(category, position, radius, object => {
+      results.push(object as T);
+      return false;
+    });
+    return results;
+  }
+
+  /**
+   * Check whether any object of a kind is within a radius
+   * @param category Kind of object
+   * @param position Centre of the search
+   * @param radius Search radius
+   * @returns True if at least one object is within the radius
+   */
+  public hasAnyWithin(category: SpatialCategory, position: THREE.Vector3, radius: number): boolean {
+    let found = false;
+    this.forEachWithin(category, position, radius, () => {
+      found = true;
+      return true;
+    });
+    return found;
+  }
+
+  /**
+   * Find the closest object of a kind
+   * @param category Kind of object
+   * @param position Centre of the search
+   * @param maxDistance Search radius
+   * @param filter Optional test the object must pass
+   * @returns Closest object, or null if there is none within the radius
+   */
+  public findNearest<T extends object>(
+    category: SpatialCategory,
+    position: THREE.Vector3,
+    maxDistance: number,
+    filter?: (object: T) => boolean
+  ): T | null {
+    let nearest: T | null = null;
+    let nearestDistance = maxDistance;
+
+    this.forEachWithin(category, position, maxDistance, (object, distance) => {
+      if (distance < nearestDistance && (!filter || filter(object as T))) {
+        nearest = object as T;
+        nearestDistance = distance;
+      }
+      return false;
+    });
+
+    return nearest;
+  }
+
+  /**
+   * Count the registered objects of a kind
+   * @param category Kind of object
+   * @returns Number of objects
+   */
+  public count(category: SpatialCategory): number {
+    let count = 0;
+    this.entries.forEach(entry => {
+      if (entry.category === category) count++;
+    });
+    return count;
+  }
+
+  /**
+   * Unregister everything, or everything of one kind
+   * @param category Optional kind of object to clear
+   */
+  public clear(category?: SpatialCategory): void {
+    if (!category) {
+      this.entries.clear();
+      this.cells.forEach(cells => cells.clear());
+      return;
+    }
+
+    this.entries.forEach((entry, object) => {
+      if (entry.category === category) this.entries.delete(object);
+    });
+    this.cells.get(category)!.clear();
+  }
+
+  /**
+   * Visit the objects of a kind within a radius, each once
+   * @param category Kind of object
+   * @param position Centre of the search
+   * @param radius Search radius
+   * @param visit Called with each object and its distance (to the footprint edge); return true to stop
+   */
+  private forEachWithin(
+    category: SpatialCategory,
+    position: THREE.Vector3,
+    radius: number,
+    visit: (object: object, distance: number) => boolean
+  ): void {
+    const cells = this.cells.get(category)!;
+    const minX = this.toCell(position.x - radius);
+    const maxX = this.toCell(position.x + radius);
+    const minZ = this.toCell(position.z - radius);
+    const maxZ = this.toCell(position.z + radius);
+    const visited = new Set<object>();
+
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellZ = minZ; cellZ <= maxZ; cellZ++) {
+        const cell = cells.get(this.getKey(cellX, cellZ));
+        if (!cell) continue;
+
+        for (const object of cell) {
+          const entry = this.entries.get(object)!;
+
+          // Large objects span several cells
+          if (entry.radius > 0) {
+            if (visited.has(object)) continue;
+            visited.add(object);
+          }
+
+          const distance = Math.max(0, Math.hypot(entry.x - position.x, entry.z - position.z) - entry.radius);
+          if (distance <= radius && visit(object, distance)) return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Add an object to every cell its footprint overlaps
+   * @param object Registered object
+   * @param entry Its entry
+   */
+  private addToCells(object: object, entry: SpatialEntry): void {
+    const cells = this.cells.get(entry.category)!;
+    const minX = this.toCell(entry.x - entry.radius);
+    const maxX = this.toCell(entry.x + entry.radius);
+    const minZ = this.toCell(entry.z - entry.radius);
+    const maxZ = this.toCell(entry.z + entry.radius);
+
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellZ = minZ; cellZ <= maxZ; cellZ++) {
+        const key = this.getKey(cellX, cellZ);
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          cells.set(key, cell);
+        }
+        cell.add(object);
+        entry.keys.push(key);
+      }
+    }
+  }
+
+  /**
+   * Take an object out of all its cells
+   * @param object Registered object
+   * @param entry Its entry
+   */
+  private removeFromCells(object: object, entry: SpatialEntry): void {
+    const cells = this.cells.get(entry.category)!;
+
+    for (const key of entry.keys) {
+      const cell = cells.get(key);
+      if (!cell) continue;
+
+      cell.delete(object);
+      if (cell.size === 0) {
+        cells.delete(key);
+      }
+    }
+    entry.keys = [];
+  }
+
+  /**
+   * Get the cell index of a coordinate
+   * @param value World coordinate
+   * @returns Cell index
+   */
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  /**
+   * Combine cell indices into a map key
+   * @param cellX Cell index on the x axis
+   * @param cellZ Cell index on the z axis
+   * @returns Key
+   */
+  private getKey(cellX: number, cellZ: number): number {
+    return (cellX + CELL_OFFSET) * 65536 + (cellZ + CELL_OFFSET);
+  }
+}
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
 import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+import { GameClock } from '../../core/utils/GameClock';
 
 // Define animal types with their properties
 export enum AnimalType {
@@ -573,7 +574,7 @@ export class Animal {
     this.directionChangeInterval = baseInterval + randomFactor * (1 - this.properties.unpredictability);
     
     // Set next direction change
-    this.nextDirectionChange = Date.now() + this.directionChangeInterval;
+    this.nextDirectionChange = GameClock.now() + this.directionChangeInterval;
   }
   
   /**
@@ -609,7 +610,7 @@ export class Animal {
     this.movementSpeed = this.properties.speed * 1.5;
     
     // Reset direction change timer
-    this.nextDirectionChange = Date.now() + 5000; // Don't change direction for 5 seconds
+    this.nextDirectionChange = GameClock.now() + 5000; // Don't change direction for 5 seconds
   }
   
   /**
@@ -620,7 +621,7 @@ export class Animal {
     if (!this.isMoving) return;
     
     // Check if it's time to change direction
-    if (Date.now() > this.nextDirectionChange) {
+    if (GameClock.now() > this.nextDirectionChange) {
       this.chooseNewDirection();
       
       // Unpredictable animals have a chance to make sudden direction changes
@@ -660,7 +661,7 @@ export class Animal {
       // Add slight bobbing for walking animation but keep it minimal
       if (this.animalType !== AnimalType.COW) {
         // Smaller animals can have slight bobbing motion
-        const walkCycle = Math.sin(Date.now() * 0.005) * 0.05;
+        const walkCycle = Math.sin(GameClock.now() * 0.005) * 0.05;
         this.mesh.position.y = Math.max(0, walkCycle);
       }
     }
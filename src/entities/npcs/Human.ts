@@ -1,6 +1,11 @@
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
 import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+import { HumanBehaviour, PedestrianContext } from './HumanBehaviour';
+import { GameClock } from '../../core/utils/GameClock';
+
+// Speed at which pedestrians are dragged towards the magnet power-up
+const ATTRACTED_SPEED = 3;
 
 /**
  * Human NPC class for pedestrians
@@ -17,7 +22,16 @@ export class Human {
   private direction: number = 0;
   private isWalking: boolean = false;
   private panicMode: boolean = false;
+  private panicThreat: THREE.Vector3 | null = null;
   private targetPosition: THREE.Vector3 | null = null;
+  private isWaving: boolean = false;
+  
+  // Routine and panic reactions; without one the pedestrian just wanders about
+  private behaviour: HumanBehaviour | null = null;
+  
+  // Power-up effects, which override the routine while they last
+  private attractor: THREE.Vector3 | null = null;
+  private frozen: boolean = false;
   
   // Update intervals
   private nextDirectionChange: number = 0;
@@ -48,6 +62,7 @@ export class Human {
   
   /**
    * Create a simple humanoid mesh
+   * The limbs are named so a ragdoll can be built from them
    * @returns Human mesh
    */
   private createHumanMesh(): THREE.Group {
@@ -67,6 +82,7 @@ export class Human {
     const headGeometry = new THREE.SphereGeometry(0.25, 16, 16);
     const headMaterial = new THREE.MeshStandardMaterial({ color: skinColor });
     const head = new THREE.Mesh(headGeometry, headMaterial);
+    head.name = 'head';
     head.position.y = 1.7;
     group.add(head);
     
@@ -74,6 +90,7 @@ export class Human {
     const torsoGeometry = new THREE.BoxGeometry(0.5, 0.8, 0.3);
     const torsoMaterial = new THREE.MeshStandardMaterial({ color: clothingColor });
     const torso = new THREE.Mesh(torsoGeometry, torsoMaterial);
+    torso.name = 'torso';
     torso.position.y = 1.2;
     group.add(torso);
     
@@ -82,10 +99,12 @@ export class Human {
     const legMaterial = new THREE.MeshStandardMaterial({ color: 0x222222 });
     
     const leftLeg = new THREE.Mesh(legGeometry, legMaterial);
+    leftLeg.name = 'left_leg';
     leftLeg.position.set(0.15, 0.4, 0);
     group.add(leftLeg);
     
     const rightLeg = new THREE.Mesh(legGeometry, legMaterial);
+    rightLeg.name = 'right_leg';
     rightLeg.position.set(-0.15, 0.4, 0);
     group.add(rightLeg);
     
@@ -94,10 +113,12 @@ export class Human {
     const armMaterial = new THREE.MeshStandardMaterial({ color: clothingColor });
     
     const leftArm = new THREE.Mesh(armGeometry, armMaterial);
+    leftArm.name = 'left_arm';
     leftArm.position.set(0.35, 1.2, 0);
     group.add(leftArm);
     
     const rightArm = new THREE.Mesh(armGeometry, armMaterial);
+    rightArm.name = 'right_arm';
     rightArm.position.set(-0.35, 1.2, 0);
     group.add(rightArm);
     
@@ -174,7 +195,127 @@ export class Human {
     this.mesh.rotation.y = this.direction;
     
     // Set next direction change time
-    this.nextDirectionChange = Date.now() + this.directionChangeInterval;
+    this.nextDirectionChange = GameClock.now() + this.directionChangeInterval;
+  }
+  
+  /**
+   * Give the pedestrian a daily routine in the city
+   * @param context Surroundings the routine is planned in
+   */
+  public setBehaviour(context: PedestrianContext): void {
+    this.behaviour = new HumanBehaviour(this, context);
+  }
+  
+  /**
+   * Get the routine controlling this pedestrian
+   * @returns Behaviour, or null if the pedestrian just wanders
+   */
+  public getBehaviour(): HumanBehaviour | null {
+    return this.behaviour;
+  }
+  
+  /**
+   * Walk or run towards a point
+   * @param target Position to head for
+   * @param speed Speed in metres per second
+   */
+  public walkTowards(target: THREE.Vector3, speed: number): void {
+    this.targetPosition = target.clone();
+    this.direction = Math.atan2(target.x - this.mesh.position.x, target.z - this.mesh.position.z);
+    this.walkSpeed = speed;
+    this.isWalking = true;
+  }
+  
+  /**
+   * Stop and stand still
+   * @param lookAt Optional position to turn towards
+   */
+  public stand(lookAt?: THREE.Vector3): void {
+    this.isWalking = false;
+    if (lookAt) {
+      this.direction = Math.atan2(lookAt.x - this.mesh.position.x, lookAt.z - this.mesh.position.z);
+    }
+  }
+  
+  /**
+   * Check whether the pedestrian has got to a point
+   * @param target Position to check
+   * @param tolerance Distance that counts as arrived
+   * @returns True if within the tolerance (ignoring height)
+   */
+  public hasReached(target: THREE.Vector3, tolerance: number = 1): boolean {
+    const dx = target.x - this.mesh.position.x;
+    const dz = target.z - this.mesh.position.z;
+    return dx * dx + dz * dz < tolerance * tolerance;
+  }
+  
+  /**
+   * Wave both arms above the head (calling for help)
+   * @param waving Whether to wave
+   */
+  public setWaving(waving: boolean): void {
+    this.isWaving = waving;
+  }
+  
+  /**
+   * Hear someone nearby panicking
+   * @param threatPosition Position of the threat they are reacting to
+   */
+  public hearAlarm(threatPosition: THREE.Vector3): void {
+    if (this.behaviour) {
+      this.behaviour.hearAlarm(threatPosition);
+    } else {
+      this.panic(threatPosition);
+    }
+  }
+  
+  /**
+   * Check whether the pedestrian is reacting to a threat
+   * @returns True if panicking
+   */
+  public isPanicking(): boolean {
+    return this.behaviour ? this.behaviour.isPanicking() : this.panicMode;
+  }
+  
+  /**
+   * Check whether the pedestrian is shouting for help
+   * @returns True if calling for help
+   */
+  public isCallingForHelp(): boolean {
+    return this.behaviour !== null && this.behaviour.isCallingForHelp();
+  }
+  
+  /**
+   * Get the threat the pedestrian is reacting to
+   * @returns Threat position, or null
+   */
+  public getThreatPosition(): THREE.Vector3 | null {
+    return this.behaviour ? this.behaviour.getThreatPosition() : this.panicThreat;
+  }
+  
+  /**
+   * Drag the pedestrian towards a point, whatever they were doing
+   * @param position Point to walk to, or null to let them go
+   */
+  public setAttractor(position: THREE.Vector3 | null): void {
+    this.attractor = position ? position.clone() : null;
+  }
+  
+  /**
+   * Freeze the pedestrian to the spot
+   * @param frozen Whether the pedestrian is frozen
+   */
+  public setFrozen(frozen: boolean): void {
+    if (this.frozen === frozen) return;
+    this.frozen = frozen;
+    
+    if (frozen) {
+      this.isWalking = false;
+      this.isWaving = false;
+    } else if (!this.behaviour) {
+      // Wanderers need a push to get going again; routines pick up by themselves
+      this.startWalking();
+    }
   }
   
   /**
@@ -182,7 +323,13 @@ export class Human {
    * @param threatPosition Position to run away from
    */
   public panic(threatPosition: THREE.Vector3): void {
+    if (this.behaviour) {
+      this.behaviour.onThreat(threatPosition);
+      return;
+    }
+    
     if (this.panicMode) return; // Already panicking
+    this.panicThreat = threatPosition.clone();
     
     this.panicMode = true;
     this.walkSpeed = 5; // Run faster
@@ -207,7 +354,7 @@ export class Human {
     
     // Reduce direction changes when panicking
     this.directionChangeInterval = 5000; // 5 seconds
-    this.nextDirectionChange = Date.now() + this.directionChangeInterval;
+    this.nextDirectionChange = GameClock.now() + this.directionChangeInterval;
   }
   
   /**
@@ -215,39 +362,51 @@ export class Human {
    * @param deltaTime Time since last update
    */
   public update(deltaTime: number): void {
-    if (!this.isWalking) return;
-    
-    // Check if it's time to change direction
-    if (Date.now() > this.nextDirectionChange) {
-      this.chooseNewDirection();
+    if (this.frozen) {
+      // Stuck to the spot until the power-up wears off
+      this.isWalking = false;
+    } else if (this.attractor) {
+      this.walkTowards(this.attractor, ATTRACTED_SPEED);
+    } else if (this.behaviour) {
+      // The routine steers the pedestrian
+      this.behaviour.update(deltaTime);
+    } else {
+      if (!this.isWalking) return;
+      
+      // Check if it's time to change direction
+      if (GameClock.now() > this.nextDirectionChange) {
+        this.chooseNewDirection();
+      }
     }
     
-    // Calculate movement distance
-    const distance = this.walkSpeed * deltaTime;
-    
-    // Move in the current direction
-    const movement = new THREE.Vector3(
-      Math.sin(this.direction) * distance,
-      0,
-      Math.cos(this.direction) * distance
-    );
-    
-    // Update position
-    this.mesh.position.add(movement);
+    if (this.isWalking) {
+      // Calculate movement distance
+      const distance = this.walkSpeed * deltaTime;
+      
+      // Move in the current direction
+      const movement = new THREE.Vector3(
+        Math.sin(this.direction) * distance,
+        0,
+        Math.cos(this.direction) * distance
+      );
+      
+      // Update position
+      this.mesh.position.add(movement);
+    }
     
     // Update physics body position (keeping the body upright)
     this.body.position.x = this.mesh.position.x;
     this.body.position.z = this.mesh.position.z;
     
     // Check if reached target, if so, choose new direction
-    if (this.targetPosition && 
+    if (!this.behaviour && this.targetPosition && 
         this.mesh.position.distanceTo(this.targetPosition) < 1) {
       this.chooseNewDirection();
     }
     
     // Simple animation - bob up and down while walking but keep the mesh upright
     // Humans should have a fixed base height to prevent rolling
-    const walkCycle = Math.sin(Date.now() * 0.01) * 0.05;
+    const walkCycle = this.isWalking ? Math.sin(GameClock.now() * 0.01) * 0.05 : 0;
     const baseHeight = 0; // Base height for the mesh (on the ground)
     this.mesh.position.y = baseHeight + walkCycle;
     
@@ -256,12 +415,15 @@ export class Human {
     const bodyHeight = 1.8; // Height from createPhysicsBody
     this.body.position.y = bodyHeight / 2 + baseHeight + walkCycle;
     
-    // Force the body's rotation to stay upright
-    this.body.quaternion.set(0, 0, 0, 1);
+    // Force the body's rotation to stay upright, turned to face the walking direction
+    // (the physics sync copies it onto the mesh)
+    this.body.quaternion.setFromEuler(0, this.direction, 0);
+    this.mesh.rotation.set(0, this.direction, 0);
     
     // Use time to animate arm swing
     // This creates a more natural walking animation
-    const armSwingTime = Date.now() * 0.01;
+    const armSwingTime = GameClock.now() * 0.01;
+    const swing = this.isWalking ? 1 : 0;
     
     // Find arms in the mesh to animate
     this.mesh.traverse((object) => {
@@ -270,10 +432,17 @@ export class Human {
         const isLeftArm = object.position.x > 0.3 && object.position.y > 1;
         const isRightArm = object.position.x < -0.3 && object.position.y > 1;
         
-        if (isLeftArm) {
-          object.rotation.x = Math.sin(armSwingTime) * 0.5;
+        if (this.isWaving && (isLeftArm || isRightArm)) {
+          // Arms flailing out to the sides
+          const side = isLeftArm ? 1 : -1;
+          object.rotation.x = 0;
+          object.rotation.z = -side * (0.6 + Math.sin(armSwingTime * 1.5) * 0.4);
+        } else if (isLeftArm) {
+          object.rotation.x = Math.sin(armSwingTime) * 0.5 * swing;
+          object.rotation.z = 0;
         } else if (isRightArm) {
-          object.rotation.x = Math.sin(armSwingTime + Math.PI) * 0.5;
+          object.rotation.x = Math.sin(armSwingTime + Math.PI) * 0.5 * swing;
+          object.rotation.z = 0;
         }
         
         // Identify legs by their position
@@ -281,9 +450,9 @@ export class Human {
         const isRightLeg = object.position.x < -0.1 && object.position.y < 0.6;
         
         if (isLeftLeg) {
-          object.rotation.x = Math.sin(armSwingTime) * 0.3;
+          object.rotation.x = Math.sin(armSwingTime) * 0.3 * swing;
         } else if (isRightLeg) {
-          object.rotation.x = Math.sin(armSwingTime + Math.PI) * 0.3;
+          object.rotation.x = Math.sin(armSwingTime + Math.PI) * 0.3 * swing;
         }
       }
     });
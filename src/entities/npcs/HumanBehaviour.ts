@@ -0,0 +1,649 @@
+import * as THREE from 'three';
+import { RoadNetwork, RoadNode, ROAD_WIDTH, SIDEWALK_WIDTH } from '../../core/environment/RoadNetwork';
+import { PointOfInterest, PointOfInterestType } from '../../core/environment/CityGenerator';
+import type { Human } from './Human';
+
+// What a pedestrian is doing
+export enum HumanActivity {
+  WALKING = 'walking',                   // Along the sidewalks to a point of interest
+  WAITING_TO_CROSS = 'waiting_to_cross', // At the kerb, waiting for a gap in the traffic
+  CROSSING = 'crossing',
+  VISITING = 'visiting',                 // Hanging around a doorway or in a crowd
+  FLEEING = 'fleeing',
+  HIDING = 'hiding',                     // Cowering in a doorway
+  CALLING_FOR_HELP = 'calling_for_help'  // Standing and waving, alarming everyone nearby
+}
+
+// What the pedestrian's surroundings are queried through (provided by the NPCManager)
+export interface PedestrianContext {
+  getRoadNetwork(): RoadNetwork | null;
+  getPointsOfInterest(): PointOfInterest[];
+  getVisitorCount(pointOfInterest: PointOfInterest): number;
+  isCrossingClear(from: THREE.Vector3, to: THREE.Vector3): boolean;
+}
+
+// A point on a pedestrian's route
+interface Waypoint {
+  position: THREE.Vector3;
+  crossing: boolean; // Getting here means crossing a road
+}
+
+// Walking speeds (m/s)
+const STROLL_SPEED = 1.5;
+const CROSSING_SPEED = 2.5;
+const RUN_SPEED = 5;
+
+// Distance from a junction centre to the middle of its sidewalk corners
+const CORNER_OFFSET = ROAD_WIDTH / 2 + SIDEWALK_WIDTH / 2;
+
+// Points of interest further than this are not considered for the next trip
+const TRIP_RANGE = 150;
+
+// Pedestrians give up waiting and jaywalk after this long (seconds)
+const MAX_CROSSING_WAIT = 8;
+
+// Time spent at a destination (seconds)
+const DOORWAY_VISIT_TIME = { min: 3, max: 10 };
+const CROWD_VISIT_TIME = { min: 15, max: 40 };
+
+// Panic reactions
+const HIDE_SEARCH_RADIUS = 15;  // Doorways closer than this are run to
+const CALL_FOR_HELP_CHANCE = 0.25;
+const CALL_FOR_HELP_MIN_DISTANCE = 8; // Too close to the threat to stand around
+const CALL_FOR_HELP_TIME = 5;
+const ALARM_REACTION_TIME = { min: 0.3, max: 1.0 }; // Delay before reacting to others panicking
+const CALM_DOWN_TIME = 6;       // Seconds without a threat before a fleeing pedestrian calms down
+const HIDE_TIME = 10;           // Seconds without a threat before leaving a hiding place
+const SAFE_DISTANCE = 30;       // Fleeing pedestrians keep going until this far from the threat
+
+/**
+ * Random number in a range
+ * @param range Minimum and maximum
+ * @returns Random value
+ */
+function randomIn(range: { min: number; max: number }): number {
+  return range.min + Math.random() * (range.max - range.min);
+}
+
+/**
+ * Side of a junction a position is on along one axis
+ * @param offset Position minus junction position along the axis
+ * @returns 1 or -1
+ */
+function sideOf(offset: number): number {
+  return offset < 0 ? -1 : 1;
+}
+
+/**
+ * Daily routine and panic reactions of a pedestrian.
+ * Pedestrians walk along the sidewalks between doorways, the plaza and parks,
+ * cross at junctions when the road is clear and gather in crowds.
+ * When threatened they flee, hide in a doorway or stand and call for help,
+ * and their panic spreads to people around them.
+ */
+export class HumanBehaviour {
+  private activity: HumanActivity = HumanActivity.WALKING;
+  private route: Waypoint[] = [];
+  private destination: PointOfInterest | null = null;
+  private timer: number = 0;
+
+  // Panic state
+  private threatPosition: THREE.Vector3 | null = null;
+  private timeSinceThreat: number = 0;
+  private alarmDelay: number = -1; // Countdown before reacting to an alarm, negative when none
+  private alarmThreat: THREE.Vector3 | null = null;
+
+  /**
+   * Constructor
+   * @param human Pedestrian being controlled
+   * @param context Surroundings of the pedestrian
+   */
+  constructor(
+    private human: Human,
+    private context: PedestrianContext
+  ) {
+    this.planNextTrip();
+  }
+
+  /**
+   * Advance the behaviour and steer the pedestrian
+   * @param deltaTime Time since last update
+   */
+  public update(deltaTime: number): void {
+    // React to panic heard from others after a short delay
+    if (this.alarmDelay >= 0) {
+      this.alarmDelay -= deltaTime;
+      if (this.alarmDelay < 0 && this.alarmThreat) {
+        this.onThreat(this.alarmThreat);
+        this.alarmThreat = null;
+      }
+    }
+
+    this.timeSinceThreat += deltaTime;
+
+    switch (this.activity) {
+      case HumanActivity.WALKING:
+        this.updateWalking();
+        break;
+
+      case HumanActivity.WAITING_TO_CROSS:
+        this.updateWaitingToCross(deltaTime);
+        break;
+
+      case HumanActivity.CROSSING:
+        this.updateCrossing();
+        break;
+
+      case HumanActivity.VISITING:
+        this.updateVisiting(deltaTime);
+        break;
+
+      case HumanActivity.FLEEING:
+        this.updateFleeing();
+        break;
+
+      case HumanActivity.HIDING:
+        this.updateHiding();
+        break;
+
+      case HumanActivity.CALLING_FOR_HELP:
+        this.updateCallingForHelp(deltaTime);
+        break;
+    }
+  }
+
+  /**
+   * Follow the route along the sidewalks
+   */
+  private updateWalking(): void {
+    const next = this.route[0];
+    if (!next) {
+      this.startVisiting();
+      return;
+    }
+
+    if (this.human.hasReached(next.position)) {
+      this.advanceRoute();
+      return;
+    }
+
+    this.human.walkTowards(next.position, STROLL_SPEED);
+  }
+
+  /**
+   * Wait at the kerb until no car is near the crossing
+   * @param deltaTime Time since last update
+   */
+  private updateWaitingToCross(deltaTime: number): void {
+    const next = this.route[0];
+    if (!next) {
+      this.activity = HumanActivity.WALKING;
+      return;
+    }
+
+    this.timer -= deltaTime;
+    if (this.timer <= 0 || this.context.isCrossingClear(this.human.getPosition(), next.position)) {
+      this.activity = HumanActivity.CROSSING;
+    }
+  }
+
+  /**
+   * Hurry across the road
+   */
+  private updateCrossing(): void {
+    const next = this.route[0];
+    if (!next || this.human.hasReached(next.position)) {
+      this.advanceRoute();
+      return;
+    }
+
+    this.human.walkTowards(next.position, CROSSING_SPEED);
+  }
+
+  /**
+   * Move on to the next waypoint, stopping at the kerb if it is across a road
+   */
+  private advanceRoute(): void {
+    this.route.shift();
+
+    if (this.route.length > 0 && this.route[0].crossing) {
+      this.activity = HumanActivity.WAITING_TO_CROSS;
+      this.timer = MAX_CROSSING_WAIT;
+      this.human.stand(this.route[0].position);
+    } else {
+      this.activity = HumanActivity.WALKING;
+    }
+  }
+
+  /**
+   * Arrive at the destination and hang around for a while
+   */
+  private startVisiting(): void {
+    this.activity = HumanActivity.VISITING;
+
+    const isDoorway = this.destination !== null && this.destination.type === PointOfInterestType.DOORWAY;
+    this.timer = randomIn(isDoorway ? DOORWAY_VISIT_TIME : CROWD_VISIT_TIME);
+  }
+
+  /**
+   * Stand at the destination facing the shop window or the middle of the crowd
+   * @param deltaTime Time since last update
+   */
+  private updateVisiting(deltaTime: number): void {
+    if (this.destination) {
+      const lookAt = this.destination.type === PointOfInterestType.DOORWAY
+        ? this.destination.position.clone().sub(this.destination.facing)
+        : this.destination.position;
+      this.human.stand(lookAt);
+    } else {
+      this.human.stand();
+    }
+
+    this.timer -= deltaTime;
+    if (this.timer <= 0) {
+      this.planNextTrip();
+    }
+  }
+
+  /**
+   * Run away from the threat until it is far enough away
+   */
+  private updateFleeing(): void {
+    if (!this.threatPosition) {
+      this.calmDown();
+      return;
+    }
+
+    const position = this.human.getPosition();
+    const away = position.clone().sub(this.threatPosition);
+    away.y = 0;
+    const distance = away.length();
+
+    if (this.timeSinceThreat > CALM_DOWN_TIME && distance > SAFE_DISTANCE) {
+      this.calmDown();
+      return;
+    }
+
+    if (distance < 0.01) {
+      away.set(Math.random() - 0.5, 0, Math.random() - 0.5);
+    }
+    this.human.walkTowards(position.addScaledVector(away.normalize(), 10), RUN_SPEED);
+  }
+
+  /**
+   * Run to the doorway and cower there until the threat has gone
+   */
+  private updateHiding(): void {
+    if (this.timeSinceThreat > HIDE_TIME) {
+      this.calmDown();
+      return;
+    }
+
+    const next = this.route[0];
+    if (next && !this.human.hasReached(next.position)) {
+      this.human.walkTowards(next.position, RUN_SPEED);
+      return;
+    }
+
+    this.route = [];
+    this.human.stand(this.threatPosition || undefined);
+  }
+
+  /**
+   * Stand and wave for help, then run
+   * @param deltaTime Time since last update
+   */
+  private updateCallingForHelp(deltaTime: number): void {
+    this.human.stand(this.threatPosition || undefined);
+
+    this.timer -= deltaTime;
+    if (this.timer <= 0) {
+      this.human.setWaving(false);
+      this.activity = HumanActivity.FLEEING;
+    }
+  }
+
+  /**
+   * React to a threat seen directly (the car coming at them, someone getting run over)
+   * @param threatPosition Position of the threat
+   */
+  public onThreat(threatPosition: THREE.Vector3): void {
+    this.threatPosition = threatPosition.clone();
+    this.timeSinceThreat = 0;
+    this.alarmDelay = -1;
+
+    // Already reacting: just keep track of where the threat is
+    if (this.isPanicking()) return;
+
+    const position = this.human.getPosition();
+
+    // Duck into a doorway if there is one close by
+    const doorway = this.findNearestDoorway(position, HIDE_SEARCH_RADIUS);
+    if (doorway) {
+      this.activity = HumanActivity.HIDING;
+      this.destination = doorway;
+      this.route = [{ position: doorway.position.clone(), crossing: false }];
+      return;
+    }
+
+    // Some stand their ground and shout, if the threat isn't right on top of them
+    if (Math.random() < CALL_FOR_HELP_CHANCE && position.distanceTo(threatPosition) > CALL_FOR_HELP_MIN_DISTANCE) {
+      this.activity = HumanActivity.CALLING_FOR_HELP;
+      this.timer = CALL_FOR_HELP_TIME;
+      this.human.setWaving(true);
+      return;
+    }
+
+    this.activity = HumanActivity.FLEEING;
+  }
+
+  /**
+   * React to someone nearby panicking, after a moment to take it in
+   * @param threatPosition Position of the threat they are fleeing
+   */
+  public hearAlarm(threatPosition: THREE.Vector3): void {
+    if (this.isPanicking() || this.alarmDelay >= 0) return;
+
+    this.alarmThreat = threatPosition.clone();
+    this.alarmDelay = randomIn(ALARM_REACTION_TIME);
+  }
+
+  /**
+   * Forget the threat and carry on with the day
+   */
+  private calmDown(): void {
+    this.threatPosition = null;
+    this.human.setWaving(false);
+    this.planNextTrip();
+  }
+
+  /**
+   * Pick somewhere to go and plan the route there
+   */
+  private planNextTrip(): void {
+    this.activity = HumanActivity.WALKING;
+    this.destination = this.choosePointOfInterest();
+    this.route = [];
+
+    if (!this.destination) {
+      // Nowhere to go: hang around for a bit
+      this.startVisiting();
+      return;
+    }
+
+    // Find a free spot to stand at in a crowd
+    const standSpot = this.destination.position.clone();
+    if (this.destination.type !== PointOfInterestType.DOORWAY) {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = this.destination.radius * (0.5 + Math.random() * 0.5);
+      standSpot.x += Math.sin(angle) * distance;
+      standSpot.z += Math.cos(angle) * distance;
+    }
+
+    this.route = this.buildRoute(this.human.getPosition(), standSpot);
+  }
+
+  /**
+   * Choose the next destination, preferring nearby places and places where a crowd has formed
+   * @returns Point of interest, or null if there are none in range
+   */
+  private choosePointOfInterest(): PointOfInterest | null {
+    const position = this.human.getPosition();
+    const candidates: Array<{ pointOfInterest: PointOfInterest; weight: number }> = [];
+    let totalWeight = 0;
+
+    for (const pointOfInterest of this.context.getPointsOfInterest()) {
+      if (pointOfInterest === this.destination) continue;
+
+      const distance = pointOfInterest.position.distanceTo(position);
+      if (distance > TRIP_RANGE) continue;
+
+      // Crowds draw more people
+      const crowdBonus = pointOfInterest.type === PointOfInterestType.DOORWAY
+        ? 1
+        : 3 + this.context.getVisitorCount(pointOfInterest) * 0.5;
+      const weight = crowdBonus / (1 + distance / 50);
+
+      candidates.push({ pointOfInterest, weight });
+      totalWeight += weight;
+    }
+
+    let roll = Math.random() * totalWeight;
+    for (const candidate of candidates) {
+      roll -= candidate.weight;
+      if (roll <= 0) return candidate.pointOfInterest;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the closest doorway to hide in
+   * @param position Position to search from
+   * @param maxDistance Search radius
+   * @returns Doorway, or null if none is close enough
+   */
+  private findNearestDoorway(position: THREE.Vector3, maxDistance: number): PointOfInterest | null {
+    let nearest: PointOfInterest | null = null;
+    let nearestDistance = maxDistance;
+
+    for (const pointOfInterest of this.context.getPointsOfInterest()) {
+      if (pointOfInterest.type !== PointOfInterestType.DOORWAY) continue;
+
+      const distance = pointOfInterest.position.distanceTo(position);
+      if (distance < nearestDistance) {
+        nearest = pointOfInterest;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Plan a walk along the sidewalks, crossing roads only at junctions
+   * @param from Start position
+   * @param to Destination
+   * @returns Waypoints, ending at the destination
+   */
+  private buildRoute(from: THREE.Vector3, to: THREE.Vector3): Waypoint[] {
+    const roadNetwork = this.context.getRoadNetwork();
+    if (!roadNetwork || !this.crossesRoad(roadNetwork, from, to)) {
+      return [{ position: to.clone(), crossing: false }];
+    }
+
+    const path = roadNetwork.findPath(roadNetwork.getNearestNode(from).id, roadNetwork.getNearestNode(to).id)
+      .map(id => roadNetwork.getNode(id));
+    if (path.length === 0) return [{ position: to.clone(), crossing: false }];
+
+    // Don't walk back to a junction that is behind us, or past the destination to the next one
+    if (path.length >= 2 && this.isAlongBlock(from, path[0], path[1])) {
+      path.shift();
+    }
+    if (path.length >= 2 && this.isAlongBlock(to, path[path.length - 1], path[path.length - 2])) {
+      path.pop();
+    }
+
+    const route: Waypoint[] = [];
+
+    // Start at the nearest corner of the first junction
+    let sideX = sideOf(from.x - path[0].position.x);
+    let sideZ = sideOf(from.z - path[0].position.z);
+    route.push({ position: this.getCorner(path[0], sideX, sideZ), crossing: false });
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const node = path[i];
+      const next = path[i + 1];
+      const stepX = Math.sign(Math.round(next.position.x - node.position.x));
+      const stepZ = Math.sign(Math.round(next.position.z - node.position.z));
+
+      // Get to the corner on the side of the junction the next road leaves from
+      const leaveX = stepX !== 0 ? stepX : sideX;
+      const leaveZ = stepZ !== 0 ? stepZ : sideZ;
+      this.addJunctionCrossings(route, roadNetwork, node, sideX, sideZ, leaveX, leaveZ);
+
+      // Walk down the block, staying on the same side of the road
+      sideX = stepX !== 0 ? -stepX : leaveX;
+      sideZ = stepZ !== 0 ? -stepZ : leaveZ;
+      route.push({ position: this.getCorner(next, sideX, sideZ), crossing: false });
+    }
+
+    // Get to the corner facing the destination, then walk to it
+    const last = path[path.length - 1];
+    this.addJunctionCrossings(
+      route, roadNetwork, last, sideX, sideZ,
+      sideOf(to.x - last.position.x), sideOf(to.z - last.position.z)
+    );
+    route.push({ position: to.clone(), crossing: false });
+
+    return route;
+  }
+
+  /**
+   * Check whether walking straight between two points would cut across a road
+   * @param roadNetwork Road network
+   * @param from Start position
+   * @param to End position
+   * @returns True if any part of the straight line is on a road
+   */
+  private crossesRoad(roadNetwork: RoadNetwork, from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const distance = from.distanceTo(to);
+    const steps = Math.ceil(distance / 2);
+    const point = new THREE.Vector3();
+
+    for (let i = 0; i <= steps; i++) {
+      point.lerpVectors(from, to, i / steps);
+      if (roadNetwork.isOnRoad(point)) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Add the walk round a junction from one sidewalk corner to another
+   * @param route Route being built
+   * @param roadNetwork Road network
+   * @param node Junction
+   * @param fromX Side of the junction on the x axis to start from
+   * @param fromZ Side on the z axis to start from
+   * @param toX Side on the x axis to end on
+   * @param toZ Side on the z axis to end on
+   */
+  private addJunctionCrossings(
+    route: Waypoint[],
+    roadNetwork: RoadNetwork,
+    node: RoadNode,
+    fromX: number,
+    fromZ: number,
+    toX: number,
+    toZ: number
+  ): void {
+    // Changing side along x crosses the road leaving the junction towards fromZ
+    if (fromX !== toX) {
+      route.push({
+        position: this.getCorner(node, toX, fromZ),
+        crossing: this.hasRoad(roadNetwork, node, 0, fromZ)
+      });
+    }
+
+    // Changing side along z crosses the road leaving towards toX
+    if (fromZ !== toZ) {
+      route.push({
+        position: this.getCorner(node, toX, toZ),
+        crossing: this.hasRoad(roadNetwork, node, toX, 0)
+      });
+    }
+  }
+
+  /**
+   * Get the sidewalk corner of a junction
+   * @param node Junction
+   * @param sideX Side on the x axis (1 or -1)
+   * @param sideZ Side on the z axis (1 or -1)
+   * @returns Corner position
+   */
+  private getCorner(node: RoadNode, sideX: number, sideZ: number): THREE.Vector3 {
+    return new THREE.Vector3(
+      node.position.x + sideX * CORNER_OFFSET,
+      0,
+      node.position.z + sideZ * CORNER_OFFSET
+    );
+  }
+
+  /**
+   * Check whether a road leaves a junction in a direction
+   * @param roadNetwork Road network
+   * @param node Junction
+   * @param stepX Direction on the x axis (-1, 0 or 1)
+   * @param stepZ Direction on the z axis (-1, 0 or 1)
+   * @returns True if there is a road that way
+   */
+  private hasRoad(roadNetwork: RoadNetwork, node: RoadNode, stepX: number, stepZ: number): boolean {
+    return node.neighbours.some(id => {
+      const neighbour = roadNetwork.getNode(id).position;
+      return Math.sign(Math.round(neighbour.x - node.position.x)) === stepX &&
+             Math.sign(Math.round(neighbour.z - node.position.z)) === stepZ;
+    });
+  }
+
+  /**
+   * Check whether a position is beside the road between two junctions
+   * @param position Position to check
+   * @param node Junction the road starts at
+   * @param next Junction the road ends at
+   * @returns True if the position is alongside that stretch of road
+   */
+  private isAlongBlock(position: THREE.Vector3, node: RoadNode, next: RoadNode): boolean {
+    const along = next.position.clone().sub(node.position);
+    const length = along.length();
+    along.divideScalar(length);
+
+    const offset = new THREE.Vector3(position.x - node.position.x, 0, position.z - node.position.z);
+    const t = offset.dot(along);
+    const lateral = Math.abs(offset.x * along.z - offset.z * along.x);
+
+    return t > 0 && t < length && lateral < CORNER_OFFSET + SIDEWALK_WIDTH + 2;
+  }
+
+  /**
+   * Get the current activity
+   * @returns Activity
+   */
+  public getActivity(): HumanActivity {
+    return this.activity;
+  }
+
+  /**
+   * Get where the pedestrian is heading or visiting
+   * @returns Point of interest, or null
+   */
+  public getDestination(): PointOfInterest | null {
+    return this.destination;
+  }
+
+  /**
+   * Get the threat the pedestrian is reacting to
+   * @returns Threat position, or null when calm
+   */
+  public getThreatPosition(): THREE.Vector3 | null {
+    return this.threatPosition;
+  }
+
+  /**
+   * Check whether the pedestrian is reacting to a threat
+   * @returns True if fleeing, hiding or calling for help
+   */
+  public isPanicking(): boolean {
+    return this.activity === HumanActivity.FLEEING ||
+           this.activity === HumanActivity.HIDING ||
+           this.activity === HumanActivity.CALLING_FOR_HELP;
+  }
+
+  /**
+   * Check whether the pedestrian is calling for help
+   * @returns True if standing and waving
+   */
+  public isCallingForHelp(): boolean {
+    return this.activity === HumanActivity.CALLING_FOR_HELP;
+  }
+}
@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+
+// Ragdoll limbs only collide with the world, not with each other
+const RAGDOLL_COLLISION_GROUP = 4;
+const RAGDOLL_COLLISION_MASK = ~RAGDOLL_COLLISION_GROUP;
+
+// Mass of each body part in kg (the whole body weighs 70)
+const partMasses: Record<string, number> = {
+  head: 5,
+  torso: 30,
+  left_leg: 10,
+  right_leg: 10,
+  left_arm: 7.5,
+  right_arm: 7.5
+};
+
+// Joint positions in the human mesh's rest pose; every limb hangs off the torso
+const jointPivots: Record<string, THREE.Vector3> = {
+  head: new THREE.Vector3(0, 1.6, 0),         // Neck
+  left_leg: new THREE.Vector3(0.15, 0.8, 0),  // Hips
+  right_leg: new THREE.Vector3(-0.15, 0.8, 0),
+  left_arm: new THREE.Vector3(0.35, 1.5, 0),  // Shoulders
+  right_arm: new THREE.Vector3(-0.35, 1.5, 0)
+};
+
+// How hard the body is thrown
+const FLING_SPEED_FACTOR = 1.2;  // Fraction of the impact velocity passed on
+const FLING_LIFT = 2;            // Base upward speed
+const FLING_LIFT_PER_SPEED = 0.3;
+const FLING_SPIN = 8;            // Maximum random spin of the torso (rad/s)
+
+// Seconds a ragdoll stays in the world before it is cleaned up
+const RAGDOLL_LIFETIME = 20;
+
+/**
+ * Physics ragdoll made from the limbs of a human mesh, used once a pedestrian is hit
+ */
+export class Ragdoll {
+  private bodies: CANNON.Body[] = [];
+  private meshes: THREE.Mesh[] = [];
+  private constraints: CANNON.Constraint[] = [];
+  private torsoBody: CANNON.Body | null = null;
+  private age: number = 0;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param humanMesh Mesh of the pedestrian; its named limbs are taken over by the ragdoll
+   * @param velocity Velocity of whatever hit the pedestrian
+   */
+  constructor(
+    private scene: THREE.Scene,
+    private physicsWorld: PhysicsWorld,
+    humanMesh: THREE.Group,
+    velocity: THREE.Vector3
+  ) {
+    humanMesh.updateMatrixWorld(true);
+
+    // Rest-pose centres of the parts, used to place the joints
+    const restCentres = new Map<string, THREE.Vector3>();
+    const parts = humanMesh.children.filter(
+      (child): child is THREE.Mesh => child instanceof THREE.Mesh && partMasses[child.name] !== undefined
+    );
+
+    for (const part of parts) {
+      restCentres.set(part.name, part.position.clone());
+
+      // Undo the walk animation so the joints line up with the rest pose
+      part.rotation.set(0, 0, 0);
+      part.updateMatrixWorld(true);
+      this.scene.attach(part);
+
+      const body = this.createPartBody(part);
+      if (part.name === 'torso') {
+        this.torsoBody = body;
+      }
+    }
+
+    this.createJoints(restCentres);
+    this.fling(velocity);
+  }
+
+  /**
+   * Create the physics body for a body part
+   * @param part Body part mesh, already attached to the scene
+   * @returns Physics body
+   */
+  private createPartBody(part: THREE.Mesh): CANNON.Body {
+    part.geometry.computeBoundingBox();
+    const size = new THREE.Vector3();
+    part.geometry.boundingBox!.getSize(size);
+
+    const shape = part.geometry instanceof THREE.SphereGeometry
+      ? new CANNON.Sphere(size.x / 2)
+      : new CANNON.Box(new CANNON.Vec3(size.x / 2, size.y / 2, size.z / 2));
+
+    const body = new CANNON.Body({
+      mass: partMasses[part.name],
+      shape,
+      position: new CANNON.Vec3(part.position.x, part.position.y, part.position.z),
+      quaternion: new CANNON.Quaternion(part.quaternion.x, part.quaternion.y, part.quaternion.z, part.quaternion.w),
+      linearDamping: 0.1,
+      angularDamping: 0.4
+    });
+    body.collisionFilterGroup = RAGDOLL_COLLISION_GROUP;
+    body.collisionFilterMask = RAGDOLL_COLLISION_MASK;
+
+    this.physicsWorld.addBody(body, part);
+    this.bodies.push(body);
+    this.meshes.push(part);
+
+    return body;
+  }
+
+  /**
+   * Join the head and limbs to the torso with ball joints
+   * @param restCentres Rest-pose centre of each part
+   */
+  private createJoints(restCentres: Map<string, THREE.Vector3>): void {
+    const torsoCentre = restCentres.get('torso');
+    if (!this.torsoBody || !torsoCentre) return;
+
+    this.meshes.forEach((mesh, index) => {
+      const pivot = jointPivots[mesh.name];
+      const centre = restCentres.get(mesh.name);
+      if (!pivot || !centre) return;
+
+      // Pivots in each body's own frame
+      const pivotInTorso = pivot.clone().sub(torsoCentre);
+      const pivotInPart = pivot.clone().sub(centre);
+
+      const constraint = new CANNON.PointToPointConstraint(
+        this.torsoBody!,
+        new CANNON.Vec3(pivotInTorso.x, pivotInTorso.y, pivotInTorso.z),
+        this.bodies[index],
+        new CANNON.Vec3(pivotInPart.x, pivotInPart.y, pivotInPart.z)
+      );
+      this.physicsWorld.addConstraint(constraint);
+      this.constraints.push(constraint);
+    });
+  }
+
+  /**
+   * Throw the ragdoll along the direction of the impact
+   * @param velocity Velocity of whatever hit the pedestrian
+   */
+  private fling(velocity: THREE.Vector3): void {
+    const speed = velocity.length();
+    const lift = FLING_LIFT + speed * FLING_LIFT_PER_SPEED;
+
+    for (const body of this.bodies) {
+      body.velocity.set(
+        velocity.x * FLING_SPEED_FACTOR,
+        Math.max(0, velocity.y) + lift,
+        velocity.z * FLING_SPEED_FACTOR
+      );
+    }
+
+    // Tumble the torso; the limbs flail along via the joints
+    if (this.torsoBody) {
+      const spin = FLING_SPIN * Math.min(1, speed / 20);
+      this.torsoBody.angularVelocity.set(
+        (Math.random() - 0.5) * 2 * spin,
+        (Math.random() - 0.5) * 2 * spin,
+        (Math.random() - 0.5) * 2 * spin
+      );
+    }
+  }
+
+  /**
+   * Age the ragdoll (the physics world moves the limbs)
+   * @param deltaTime Time since last update
+   */
+  public update(deltaTime: number): void {
+    this.age += deltaTime;
+  }
+
+  /**
+   * Check whether the ragdoll has been around long enough to be cleaned up
+   * @returns True once the lifetime is over
+   */
+  public isExpired(): boolean {
+    return this.age > RAGDOLL_LIFETIME;
+  }
+
+  /**
+   * Get the physics bodies of all parts
+   * @returns Part bodies
+   */
+  public getBodies(): CANNON.Body[] {
+    return this.bodies;
+  }
+
+  /**
+   * Get the meshes of all parts
+   * @returns Part meshes
+   */
+  public getMeshes(): THREE.Mesh[] {
+    return this.meshes;
+  }
+
+  /**
+   * Get the position of the torso
+   * @returns Current position
+   */
+  public getPosition(): THREE.Vector3 {
+    if (!this.torsoBody) return new THREE.Vector3();
+    const position = this.torsoBody.position;
+    return new THREE.Vector3(position.x, position.y, position.z);
+  }
+
+  /**
+   * Remove from scene and physics world
+   */
+  public dispose(): void {
+    for (const constraint of this.constraints) {
+      this.physicsWorld.removeConstraint(constraint);
+    }
+    for (const body of this.bodies) {
+      this.physicsWorld.removeBody(body);
+    }
+    for (const mesh of this.meshes) {
+      this.scene.remove(mesh);
+    }
+    this.constraints = [];
+    this.bodies = [];
+    this.meshes = [];
+  }
+}
@@ -0,0 +1,440 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+import { RoadNetwork, ROAD_WIDTH } from '../../core/environment/RoadNetwork';
+import { AudioManager } from '../../systems/AudioManager';
+
+// Driving state of a civilian car
+export enum CivilianCarState {
+  DRIVING = 'driving',
+  WAITING = 'waiting',     // Stopped at a junction
+  SWERVING = 'swerving',   // Dodging the player
+  FLEEING = 'fleeing',     // Speeding away from the player
+  CRASHED = 'crashed'
+}
+
+// Paint colors for civilian cars
+const carColors = [0xdddddd, 0x333333, 0x2255aa, 0xaa2222, 0x88aa88, 0xccaa44, 0x666699];
+
+// Driving parameters
+const CRUISE_SPEED = 10;
+const FLEE_SPEED = 20;
+const SWERVE_SPEED = 5;
+const TURN_RATE = 1.8;              // Radians per second
+const WAYPOINT_RADIUS = 2.5;
+const JUNCTION_STOP_TIME = 0.8;     // Seconds to wait at a junction
+const REACTION_TIME = 3;            // Seconds spent swerving or fleeing
+const SWERVE_OFFSET = 3;            // Sideways offset while swerving
+
+/**
+ * Civilian car that drives in its lane along the road network
+ */
+export class CivilianCar {
+  private mesh: THREE.Group;
+  private body: CANNON.Body;
+  private state: CivilianCarState = CivilianCarState.DRIVING;
+
+  // Route on the road network
+  private fromNode: number;
+  private toNode: number;
+  private waypoints: THREE.Vector3[] = [];
+
+  // Motion
+  private heading: number;
+  private speed: number = 0;
+
+  // Timers (seconds)
+  private stateTimer: number = 0;
+  private crashedTime: number = 0;
+
+  // Sideways swerve direction (+1 right, -1 left)
+  private swerveSide: number = 1;
+
+  // Engine loop placed at the car, null once it has crashed
+  private engineSoundHandle: number | null;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param roadNetwork Road network to drive on
+   * @param fromNode Node the car is coming from
+   * @param toNode Node the car is driving to
+   * @param progress Starting progress along the road (0-1)
+   */
+  constructor(
+    private scene: THREE.Scene,
+    private physicsWorld: PhysicsWorld,
+    private roadNetwork: RoadNetwork,
+    fromNode: number,
+    toNode: number,
+    progress: number
+  ) {
+    this.fromNode = fromNode;
+    this.toNode = toNode;
+
+    const start = roadNetwork.getLanePoint(fromNode, toNode, progress);
+    const end = roadNetwork.getLanePoint(fromNode, toNode, 1);
+    this.heading = Math.atan2(end.x - start.x, end.z - start.z);
+    this.waypoints = [this.getLaneEnd(fromNode, toNode)];
+
+    this.mesh = this.createMesh();
+    this.mesh.position.set(start.x, 0.7, start.z);
+    this.scene.add(this.mesh);
+
+    this.body = new CANNON.Body({
+      mass: 300,
+      position: new CANNON.Vec3(start.x, 0.7, start.z),
+      shape: new CANNON.Box(new CANNON.Vec3(0.9, 0.7, 2.1)),
+      linearDamping: 0.3,
+      angularDamping: 0.5
+    });
+    this.body.fixedRotation = true;
+    this.body.updateMassProperties();
+    this.body.quaternion.setFromAxisAngle(new CANNON.Vec3(0, 1, 0), this.heading);
+    (this.body as any)._npcType = 'civilian_car'; // Custom property for identification
+
+    this.physicsWorld.addBody(this.body, this.mesh);
+
+    // Quieter than the racing engines
+    this.engineSoundHandle = AudioManager.getInstance().createPositionalLoop('engine', 0.25);
+  }
+
+  /**
+   * Build a simple boxy sedan
+   * @returns Car mesh group, centred on the physics body
+   */
+  private createMesh(): THREE.Group {
+    const group = new THREE.Group();
+    group.name = 'civilian-car';
+
+    const paint = new THREE.MeshStandardMaterial({
+      color: carColors[Math.floor(Math.random() * carColors.length)],
+      metalness: 0.4,
+      roughness: 0.5
+    });
+    const glass = new THREE.MeshStandardMaterial({ color: 0x223344, metalness: 0.2, roughness: 0.1 });
+    const tyre = new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 0.9 });
+
+    // Lower body
+    const lower = new THREE.Mesh(new THREE.BoxGeometry(1.8, 0.6, 4.2), paint);
+    lower.position.y = -0.2;
+    lower.castShadow = true;
+    group.add(lower);
+
+    // Cabin
+    const cabin = new THREE.Mesh(new THREE.BoxGeometry(1.6, 0.55, 2.2), glass);
+    cabin.position.set(0, 0.37, -0.2);
+    cabin.castShadow = true;
+    group.add(cabin);
+
+    // Wheels
+    const wheelGeometry = new THREE.CylinderGeometry(0.35, 0.35, 0.3, 12);
+    for (const x of [-0.9, 0.9]) {
+      for (const z of [-1.3, 1.3]) {
+        const wheel = new THREE.Mesh(wheelGeometry, tyre);
+        wheel.rotation.z = Math.PI / 2;
+        wheel.position.set(x, -0.35, z);
+        group.add(wheel);
+      }
+    }
+
+    return group;
+  }
+
+  /**
+   * Get the point where a lane ends before the junction
+   * @param fromNode Node the lane starts at
+   * @param toNode Node the lane ends at
+   * @returns Lane end position
+   */
+  private getLaneEnd(fromNode: number, toNode: number): THREE.Vector3 {
+    const length = this.roadNetwork.getNode(fromNode).position.distanceTo(this.roadNetwork.getNode(toNode).position);
+    return this.roadNetwork.getLanePoint(fromNode, toNode, 1 - (ROAD_WIDTH / 2 + 1) / length);
+  }
+
+  /**
+   * Get the point where a lane starts after the junction
+   * @param fromNode Node the lane starts at
+   * @param toNode Node the lane ends at
+   * @returns Lane start position
+   */
+  private getLaneStart(fromNode: number, toNode: number): THREE.Vector3 {
+    const length = this.roadNetwork.getNode(fromNode).position.distanceTo(this.roadNetwork.getNode(toNode).position);
+    return this.roadNetwork.getLanePoint(fromNode, toNode, (ROAD_WIDTH / 2 + 1) / length);
+  }
+
+  /**
+   * Update driving
+   * @param deltaTime Time since last update
+   * @param playerPosition Position of the player's car
+   * @param playerSpeed Speed of the player's car
+   * @param isJunctionBusy Whether another car is crossing a junction
+   * @param isBlockedAhead Whether another car is right in front of this one
+   */
+  public update(
+    deltaTime: number,
+    playerPosition: THREE.Vector3,
+    playerSpeed: number,
+    isJunctionBusy: (nodeId: number, car: CivilianCar) => boolean,
+    isBlockedAhead: (car: CivilianCar) => boolean
+  ): void {
+    if (this.state === CivilianCarState.CRASHED) {
+      this.crashedTime += deltaTime;
+      return;
+    }
+
+    this.stateTimer += deltaTime;
+    const position = this.getPosition();
+
+    this.reactToPlayer(position, playerPosition, playerSpeed);
+
+    // Desired speed for the current state
+    let targetSpeed = CRUISE_SPEED;
+    switch (this.state) {
+      case CivilianCarState.WAITING:
+        targetSpeed = 0;
+        if (this.stateTimer > JUNCTION_STOP_TIME && !isJunctionBusy(this.toNode, this)) {
+          this.enterJunction();
+        }
+        break;
+      case CivilianCarState.SWERVING:
+        targetSpeed = SWERVE_SPEED;
+        break;
+      case CivilianCarState.FLEEING:
+        targetSpeed = FLEE_SPEED;
+        break;
+    }
+
+    // Queue behind the car in front
+    if (isBlockedAhead(this)) {
+      targetSpeed = 0;
+    }
+
+    // Calm down after reacting
+    if ((this.state === CivilianCarState.SWERVING || this.state === CivilianCarState.FLEEING) &&
+        this.stateTimer > REACTION_TIME) {
+      this.setState(CivilianCarState.DRIVING);
+    }
+
+    // Ease towards the target speed
+    const accel = targetSpeed > this.speed ? 6 : 12;
+    this.speed += Math.sign(targetSpeed - this.speed) * Math.min(Math.abs(targetSpeed - this.speed), accel * deltaTime);
+
+    this.followWaypoints(deltaTime, position);
+
+    // Drive the physics body
+    this.body.velocity.x = Math.sin(this.heading) * this.speed;
+    this.body.velocity.z = Math.cos(this.heading) * this.speed;
+    this.body.quaternion.setFromAxisAngle(new CANNON.Vec3(0, 1, 0), this.heading);
+    this.body.wakeUp();
+
+    if (this.engineSoundHandle !== null) {
+      const velocity = new THREE.Vector3(this.body.velocity.x, 0, this.body.velocity.z);
+      AudioManager.getInstance().updatePositionalLoop(this.engineSoundHandle, position, velocity, 0.7 + this.speed / FLEE_SPEED * 0.5);
+    }
+  }
+
+  /**
+   * Swerve or flee when the player comes at the car
+   * @param position Current position
+   * @param playerPosition Position of the player's car
+   * @param playerSpeed Speed of the player's car
+   */
+  private reactToPlayer(position: THREE.Vector3, playerPosition: THREE.Vector3, playerSpeed: number): void {
+    if (this.state === CivilianCarState.SWERVING || this.state === CivilianCarState.FLEEING) return;
+    if (playerSpeed < 8) return;
+
+    const offset = playerPosition.clone().sub(position);
+    offset.y = 0;
+    const distance = offset.length();
+    if (distance > 20) return;
+
+    // Only react to a player in front of the car
+    const forward = new THREE.Vector3(Math.sin(this.heading), 0, Math.cos(this.heading));
+    if (offset.normalize().dot(forward) < 0.3) return;
+
+    if (Math.random() < 0.5) {
+      // Dodge away from the side the player is on
+      const right = new THREE.Vector3(-forward.z, 0, forward.x);
+      this.swerveSide = offset.dot(right) > 0 ? -1 : 1;
+      this.setState(CivilianCarState.SWERVING);
+    } else {
+      // Turn around and get out of here
+      const previous = this.fromNode;
+      this.fromNode = this.toNode;
+      this.toNode = previous;
+      this.waypoints = [this.getLaneEnd(this.fromNode, this.toNode)];
+      this.setState(CivilianCarState.FLEEING);
+    }
+  }
+
+  /**
+   * Steer along the waypoints and stop at the end of each road
+   * @param deltaTime Time since last update
+   * @param position Current position
+   */
+  private followWaypoints(deltaTime: number, position: THREE.Vector3): void {
+    if (this.waypoints.length === 0) return;
+
+    const target = this.waypoints[0].clone();
+
+    // Swerving pushes the car towards the kerb
+    if (this.state === CivilianCarState.SWERVING) {
+      const right = new THREE.Vector3(-Math.cos(this.heading), 0, Math.sin(this.heading));
+      target.addScaledVector(right, SWERVE_OFFSET * this.swerveSide);
+    }
+
+    const dx = target.x - position.x;
+    const dz = target.z - position.z;
+
+    if (Math.hypot(dx, dz) < WAYPOINT_RADIUS) {
+      this.waypoints.shift();
+
+      // Reached the end of the road: stop at the junction (fleeing cars run it)
+      if (this.waypoints.length === 0) {
+        if (this.state === CivilianCarState.FLEEING) {
+          this.enterJunction();
+        } else {
+          this.setState(CivilianCarState.WAITING);
+        }
+      }
+      return;
+    }
+
+    // Turn towards the waypoint at a limited rate
+    let angle = Math.atan2(dx, dz) - this.heading;
+    angle = Math.atan2(Math.sin(angle), Math.cos(angle));
+    const maxTurn = TURN_RATE * deltaTime * Math.min(1, this.speed / 4 + 0.2);
+    this.heading += Math.max(-maxTurn, Math.min(maxTurn, angle));
+  }
+
+  /**
+   * Pick the next road and drive through the junction
+   */
+  private enterJunction(): void {
+    const node = this.roadNetwork.getNode(this.toNode);
+    let options = node.neighbours.filter(id => id !== this.fromNode);
+    if (options.length === 0) {
+      options = node.neighbours;
+    }
+
+    const next = options[Math.floor(Math.random() * options.length)];
+    this.fromNode = this.toNode;
+    this.toNode = next;
+    this.waypoints = [this.getLaneStart(this.fromNode, this.toNode), this.getLaneEnd(this.fromNode, this.toNode)];
+
+    if (this.state === CivilianCarState.WAITING) {
+      this.setState(CivilianCarState.DRIVING);
+    }
+  }
+
+  /**
+   * Switch state
+   * @param state New state
+   */
+  private setState(state: CivilianCarState): void {
+    this.state = state;
+    this.stateTimer = 0;
+  }
+
+  /**
+   * Wreck the car after a hard hit; it stops driving and is left to physics
+   */
+  public crash(): void {
+    if (this.state === CivilianCarState.CRASHED) return;
+
+    this.setState(CivilianCarState.CRASHED);
+    this.speed = 0;
+    this.body.fixedRotation = false;
+    this.body.updateMassProperties();
+    this.body.linearDamping = 0.6;
+    this.stopEngineSound();
+  }
+
+  /**
+   * Silence the engine
+   */
+  private stopEngineSound(): void {
+    if (this.engineSoundHandle !== null) {
+      AudioManager.getInstance().stopPositionalLoop(this.engineSoundHandle);
+      this.engineSoundHandle = null;
+    }
+  }
+
+  /**
+   * Check whether the car is crossing a junction
+   * @param nodeId Junction node
+   * @returns True if inside the junction square
+   */
+  public isInJunction(nodeId: number): boolean {
+    const node = this.roadNetwork.getNode(nodeId).position;
+    const position = this.body.position;
+    return Math.abs(position.x - node.x) < ROAD_WIDTH / 2 + 1 && Math.abs(position.z - node.z) < ROAD_WIDTH / 2 + 1;
+  }
+
+  /**
+   * Get the current state
+   * @returns Car state
+   */
+  public getState(): CivilianCarState {
+    return this.state;
+  }
+
+  /**
+   * Check whether the car has crashed
+   * @returns True if crashed
+   */
+  public isCrashed(): boolean {
+    return this.state === CivilianCarState.CRASHED;
+  }
+
+  /**
+   * Get how long ago the car crashed
+   * @returns Seconds since the crash
+   */
+  public getCrashedTime(): number {
+    return this.crashedTime;
+  }
+
+  /**
+   * Get the heading
+   * @returns Heading in radians
+   */
+  public getHeading(): number {
+    return this.heading;
+  }
+
+  /**
+   * Get the physics body
+   * @returns Physics body
+   */
+  public getBody(): CANNON.Body {
+    return this.body;
+  }
+
+  /**
+   * Get the mesh
+   * @returns Car mesh group
+   */
+  public getMesh(): THREE.Group {
+    return this.mesh;
+  }
+
+  /**
+   * Get position
+   * @returns Current position
+   */
+  public getPosition(): THREE.Vector3 {
+    return new THREE.Vector3(this.body.position.x, this.body.position.y, this.body.position.z);
+  }
+
+  /**
+   * Remove from scene
+   */
+  public dispose(): void {
+    this.stopEngineSound();
+    this.scene.remove(this.mesh);
+    this.physicsWorld.removeBody(this.body);
+  }
+}
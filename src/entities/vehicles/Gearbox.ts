@@ -0,0 +1,208 @@
+// Engine speed range (revolutions per minute)
+export const IDLE_RPM = 900;
+export const REDLINE_RPM = 6500;
+export const LIMITER_RPM = 7000;
+
+// Automatic shift points
+const UPSHIFT_RPM = 6000;
+const DOWNSHIFT_RPM = 2600;
+
+// Share of the top gear's top speed reached at the redline in each forward gear
+const GEAR_SPREAD = [0.22, 0.38, 0.56, 0.77, 1.0];
+
+// Reverse is geared short, so backing up flat out runs into the limiter
+const REVERSE_SPREAD = 0.3;
+
+// Engine speed the clutch lets the engine rev to when pulling away in first
+const LAUNCH_RPM = 2500;
+
+// How quickly the engine speed follows the wheels (per second)
+const RPM_RESPONSE = 10;
+
+// A shift takes this long, with the drive reduced meanwhile
+const SHIFT_TIME = 0.2;            // Seconds
+const SHIFT_DRIVE_FACTOR = 0.3;    // Share of the drive kept during a shift
+
+// The limiter cuts the drive for this long and drops the revs by this much
+const LIMITER_CUT_TIME = 0.08;     // Seconds
+const LIMITER_DROP_RPM = 400;
+
+// Gear numbers other than the forward gears
+export const REVERSE_GEAR = -1;
+export const NEUTRAL_GEAR = 0;
+
+/**
+ * Automatic gearbox: works out engine speed from road speed, shifts up and
+ * down, bounces off the rev limiter and selects reverse
+ */
+export class Gearbox {
+  private gear: number = 1;
+  private rpm: number = IDLE_RPM;
+  private throttle: number = 0;
+
+  // Seconds left of the current shift and of the limiter cut
+  private shiftTimer: number = 0;
+  private limiterTimer: number = 0;
+
+  private shiftCallback: ((gear: number, upshift: boolean) => void) | null = null;
+
+  /**
+   * Constructor
+   * @param topSpeed Road speed at the redline in top gear (metres per second)
+   */
+  constructor(private topSpeed: number) {}
+
+  /**
+   * Set callback for gear changes, e.g. to play a shift sound
+   * @param callback Receives the new gear and whether it was an upshift
+   */
+  public onShift(callback: (gear: number, upshift: boolean) => void): void {
+    this.shiftCallback = callback;
+  }
+
+  /**
+   * Pick the gear and work out the engine speed
+   * @param deltaTime Time step
+   * @param velocity Forward velocity (negative when going backwards)
+   * @param throttle Accelerator pedal (0-1)
+   * @param wantsReverse Whether the driver is asking to back up
+   * @param engineRunning False once the car is wrecked
+   */
+  public update(deltaTime: number, velocity: number, throttle: number, wantsReverse: boolean, engineRunning: boolean): void {
+    this.throttle = engineRunning ? throttle : 0;
+    this.shiftTimer = Math.max(0, this.shiftTimer - deltaTime);
+    this.limiterTimer = Math.max(0, this.limiterTimer - deltaTime);
+
+    if (!engineRunning) {
+      this.gear = NEUTRAL_GEAR;
+      this.rpm = Math.max(0, this.rpm - IDLE_RPM * 2 * deltaTime);
+      return;
+    }
+
+    this.selectGear(velocity, wantsReverse);
+
+    // Engine speed the wheels and gear ask for, never below idle
+    let targetRpm = Math.max(IDLE_RPM, Math.abs(velocity) / this.getGearTopSpeed(this.gear) * REDLINE_RPM);
+
+    // Slipping the clutch when pulling away
+    if (Math.abs(this.gear) === 1) {
+      targetRpm = Math.max(targetRpm, IDLE_RPM + (LAUNCH_RPM - IDLE_RPM) * this.throttle);
+    }
+
+    this.rpm += (targetRpm - this.rpm) * Math.min(1, RPM_RESPONSE * deltaTime);
+
+    // Bounce off the limiter
+    if (this.rpm >= LIMITER_RPM && this.throttle > 0) {
+      this.rpm = LIMITER_RPM - LIMITER_DROP_RPM;
+      this.limiterTimer = LIMITER_CUT_TIME;
+    }
+    this.rpm = Math.min(this.rpm, LIMITER_RPM);
+  }
+
+  /**
+   * Shift between reverse and the forward gears, and up and down through them
+   * @param velocity Forward velocity
+   * @param wantsReverse Whether the driver is asking to back up
+   */
+  private selectGear(velocity: number, wantsReverse: boolean): void {
+    // Reverse once the car has stopped or is rolling backwards
+    if (velocity < -0.5 || (wantsReverse && velocity < 0.5)) {
+      if (this.gear !== REVERSE_GEAR) {
+        this.shiftTo(REVERSE_GEAR);
+      }
+      return;
+    }
+    if (this.gear <= NEUTRAL_GEAR) {
+      this.shiftTo(1);
+      return;
+    }
+
+    // Hold the gear until the current shift is done
+    if (this.shiftTimer > 0) return;
+
+    const speed = Math.max(0, velocity);
+    if (this.gear < GEAR_SPREAD.length && this.rpm > UPSHIFT_RPM && this.throttle > 0) {
+      this.shiftTo(this.gear + 1);
+    } else if (this.gear > 1 && speed / this.getGearTopSpeed(this.gear) * REDLINE_RPM < DOWNSHIFT_RPM) {
+      this.shiftTo(this.gear - 1);
+    }
+  }
+
+  /**
+   * Change gear
+   * @param gear New gear
+   */
+  private shiftTo(gear: number): void {
+    const upshift = gear > this.gear;
+    this.gear = gear;
+    this.shiftTimer = SHIFT_TIME;
+
+    if (this.shiftCallback) {
+      this.shiftCallback(gear, upshift);
+    }
+  }
+
+  /**
+   * Get the road speed at the redline in a gear
+   * @param gear Gear
+   * @returns Metres per second
+   */
+  private getGearTopSpeed(gear: number): number {
+    if (gear === REVERSE_GEAR) {
+      return this.topSpeed * REVERSE_SPREAD;
+    }
+    return this.topSpeed * GEAR_SPREAD[Math.max(1, gear) - 1];
+  }
+
+  /**
+   * Get how much of the engine's drive reaches the wheels right now
+   * @returns 0 while the limiter cuts, reduced during a shift, otherwise 1
+   */
+  public getDriveFactor(): number {
+    if (this.limiterTimer > 0) return 0;
+    if (this.shiftTimer > 0) return SHIFT_DRIVE_FACTOR;
+    return 1;
+  }
+
+  /**
+   * Get the current gear
+   * @returns REVERSE_GEAR, NEUTRAL_GEAR or 1 and up
+   */
+  public getGear(): number {
+    return this.gear;
+  }
+
+  /**
+   * Get the gear as shown on the dashboard
+   * @returns 'R', 'N' or the gear number
+   */
+  public getGearLabel(): string {
+    if (this.gear === REVERSE_GEAR) return 'R';
+    if (this.gear === NEUTRAL_GEAR) return 'N';
+    return String(this.gear);
+  }
+
+  /**
+   * Get the engine speed
+   * @returns Revolutions per minute
+   */
+  public getRpm(): number {
+    return this.rpm;
+  }
+
+  /**
+   * Get the accelerator pedal position
+   * @returns 0-1
+   */
+  public getThrottle(): number {
+    return this.throttle;
+  }
+
+  /**
+   * Check whether the rev limiter is cutting the engine
+   * @returns True while the limiter is on
+   */
+  public isLimiting(): boolean {
+    return this.limiterTimer > 0;
+  }
+}
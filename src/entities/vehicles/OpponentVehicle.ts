@@ -0,0 +1,322 @@
+import * as THREE from 'three';
+import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+import { RoadNetwork } from '../../core/environment/RoadNetwork';
+import { Human } from '../npcs/Human';
+import { Vehicle } from './Vehicle';
+import { DEFAULT_VEHICLE_ID, getVehicleSpec } from './VehicleCatalog';
+
+// What the AI driver is currently doing
+export enum OpponentState {
+  CRUISE = 'cruise',
+  CHASE_PEDESTRIAN = 'chase_pedestrian',
+  RAM_PLAYER = 'ram_player',
+  WRECKED = 'wrecked'
+}
+
+// Driving behaviour tuning
+const CRUISE_SPEED = 18;
+const CORNER_SPEED = 8;
+const CHASE_SPEED = 30;
+const RAM_SPEED = 40;
+const WAYPOINT_RADIUS = 8;
+export const PEDESTRIAN_SIGHT_RANGE = 35;
+const PLAYER_SIGHT_RANGE = 45;
+const RAM_DURATION = 5;
+const RAM_COOLDOWN = 8;
+const STUCK_TIME = 1.5;
+const REVERSE_TIME = 1.2;
+
+/**
+ * AI-controlled rival car that drives the streets, hunts pedestrians
+ * and rams the player
+ */
+export class OpponentVehicle extends Vehicle {
+  private roadNetwork: RoadNetwork;
+  private state: OpponentState = OpponentState.CRUISE;
+
+  // Road navigation
+  private previousNode: number;
+  private targetNode: number;
+
+  // Behaviour timers (seconds)
+  private stateTimer: number = 0;
+  private ramCooldown: number;
+  private stuckTimer: number = 0;
+  private reverseTimer: number = 0;
+
+  // How likely this driver is to go after the player (0-1)
+  private aggression: number;
+
+  // Points scored by this opponent
+  private score: number = 0;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param roadNetwork City road network to drive on
+   * @param startNode Road node to start at
+   * @param paintColor Body color
+   * @param aggression How likely the driver is to go after the player (0-1)
+   */
+  constructor(
+    scene: THREE.Scene,
+    physicsWorld: PhysicsWorld,
+    roadNetwork: RoadNetwork,
+    startNode: number,
+    paintColor: number,
+    aggression: number
+  ) {
+    const start = roadNetwork.getNode(startNode);
+    super(
+      scene,
+      physicsWorld,
+      new THREE.Vector3(start.position.x, 2, start.position.z),
+      getVehicleSpec(DEFAULT_VEHICLE_ID),
+      paintColor
+    );
+
+    this.roadNetwork = roadNetwork;
+    this.aggression = aggression;
+    this.ramCooldown = RAM_COOLDOWN * Math.random();
+
+    // Head off along a random road
+    this.previousNode = startNode;
+    this.targetNode = start.neighbours[Math.floor(Math.random() * start.neighbours.length)];
+    const target = roadNetwork.getNode(this.targetNode).position;
+    this.direction = Math.atan2(target.x - start.position.x, target.z - start.position.z);
+  }
+
+  /**
+   * Decide what to do and steer the car
+   * @param deltaTime Time since last update
+   * @param playerPosition Position of the player's car
+   * @param humans Pedestrians that can be hunted
+   */
+  public think(deltaTime: number, playerPosition: THREE.Vector3, humans: Human[]): void {
+    if (this.isWrecked()) {
+      this.state = OpponentState.WRECKED;
+      this.applyControls({ forward: false, backward: false, left: false, right: false, brake: true, handbrake: false });
+      return;
+    }
+
+    this.stateTimer += deltaTime;
+    this.ramCooldown = Math.max(0, this.ramCooldown - deltaTime);
+
+    const position = this.getPosition();
+    this.chooseState(position, playerPosition, humans);
+
+    // Work out where to drive and how fast
+    let target: THREE.Vector3;
+    let desiredSpeed: number;
+
+    switch (this.state) {
+      case OpponentState.RAM_PLAYER:
+        target = playerPosition;
+        desiredSpeed = RAM_SPEED;
+
+        // Contact made (or gave up), back off for a while
+        if (position.distanceTo(playerPosition) < 4 || this.stateTimer > RAM_DURATION) {
+          this.ramCooldown = RAM_COOLDOWN;
+          this.returnToRoad(position);
+        }
+        break;
+
+      case OpponentState.CHASE_PEDESTRIAN: {
+        const victim = this.findPedestrian(position, humans);
+        if (victim) {
+          target = victim.getPosition();
+          desiredSpeed = CHASE_SPEED;
+        } else {
+          this.returnToRoad(position);
+          target = this.getWaypoint();
+          desiredSpeed = CRUISE_SPEED;
+        }
+        break;
+      }
+
+      default:
+        target = this.getWaypoint();
+        desiredSpeed = CRUISE_SPEED;
+
+        // Arrived at the junction, pick the next road
+        if (Math.hypot(target.x - position.x, target.z - position.z) < WAYPOINT_RADIUS) {
+          this.advanceWaypoint();
+          target = this.getWaypoint();
+        }
+        break;
+    }
+
+    this.driveTowards(deltaTime, position, target, desiredSpeed);
+  }
+
+  /**
+   * Pick a behaviour based on what is nearby
+   * @param position Current position
+   * @param playerPosition Position of the player's car
+   * @param humans Pedestrians that can be hunted
+   */
+  private chooseState(position: THREE.Vector3, playerPosition: THREE.Vector3, humans: Human[]): void {
+    if (this.state === OpponentState.RAM_PLAYER) return;
+
+    // Go after the player when close and not cooling down
+    if (this.ramCooldown === 0 && position.distanceTo(playerPosition) < PLAYER_SIGHT_RANGE) {
+      if (Math.random() < this.aggression) {
+        this.setState(OpponentState.RAM_PLAYER);
+        return;
+      }
+      this.ramCooldown = RAM_COOLDOWN / 2;
+    }
+
+    // Otherwise hunt pedestrians that are ahead
+    if (this.state === OpponentState.CRUISE && this.findPedestrian(position, humans)) {
+      this.setState(OpponentState.CHASE_PEDESTRIAN);
+    }
+  }
+
+  /**
+   * Switch behaviour
+   * @param state New state
+   */
+  private setState(state: OpponentState): void {
+    this.state = state;
+    this.stateTimer = 0;
+  }
+
+  /**
+   * Go back to following the roads from the nearest junction
+   * @param position Current position
+   */
+  private returnToRoad(position: THREE.Vector3): void {
+    const nearest = this.roadNetwork.getNearestNode(position);
+    this.previousNode = nearest.id;
+    this.targetNode = nearest.id;
+    this.setState(OpponentState.CRUISE);
+  }
+
+  /**
+   * Find the closest pedestrian in front of the car
+   * @param position Current position
+   * @param humans Pedestrians that can be hunted
+   * @returns Pedestrian to chase, or null
+   */
+  private findPedestrian(position: THREE.Vector3, humans: Human[]): Human | null {
+    const forward = new THREE.Vector3(Math.sin(this.direction), 0, Math.cos(this.direction));
+    let closest: Human | null = null;
+    let closestDistance = PEDESTRIAN_SIGHT_RANGE;
+
+    for (const human of humans) {
+      const offset = human.getPosition().sub(position);
+      offset.y = 0;
+      const distance = offset.length();
+      if (distance >= closestDistance) continue;
+
+      // Only within a wide cone ahead, so the car doesn't spin round
+      if (offset.normalize().dot(forward) < 0) continue;
+
+      closest = human;
+      closestDistance = distance;
+    }
+
+    return closest;
+  }
+
+  /**
+   * Get the point in the right-hand lane at the junction being driven to
+   * @returns Waypoint position
+   */
+  private getWaypoint(): THREE.Vector3 {
+    if (this.previousNode === this.targetNode) {
+      return this.roadNetwork.getNode(this.targetNode).position.clone();
+    }
+    return this.roadNetwork.getLanePoint(this.previousNode, this.targetNode, 1);
+  }
+
+  /**
+   * Choose the next road at a junction, avoiding U-turns where possible
+   */
+  private advanceWaypoint(): void {
+    const node = this.roadNetwork.getNode(this.targetNode);
+    let options = node.neighbours.filter(id => id !== this.previousNode);
+    if (options.length === 0) {
+      options = node.neighbours;
+    }
+
+    this.previousNode = this.targetNode;
+    this.targetNode = options[Math.floor(Math.random() * options.length)];
+  }
+
+  /**
+   * Steer and use the pedals to head for a target
+   * @param deltaTime Time since last update
+   * @param position Current position
+   * @param target Point to drive to
+   * @param desiredSpeed Speed to aim for
+   */
+  private driveTowards(deltaTime: number, position: THREE.Vector3, target: THREE.Vector3, desiredSpeed: number): void {
+    // Signed angle between the heading and the target, wrapped to [-PI, PI]
+    const desiredDirection = Math.atan2(target.x - position.x, target.z - position.z);
+    let angle = desiredDirection - this.direction;
+    angle = Math.atan2(Math.sin(angle), Math.cos(angle));
+
+    // Slow down for sharp turns
+    const speed = Math.abs(angle) > 0.5 ? Math.min(desiredSpeed, CORNER_SPEED) : desiredSpeed;
+
+    // Back out when stuck against something
+    if (this.reverseTimer > 0) {
+      this.reverseTimer -= deltaTime;
+      this.applyControls({
+        forward: false,
+        backward: true,
+        left: angle < 0,
+        right: angle > 0,
+        brake: false,
+        handbrake: false
+      });
+      return;
+    }
+
+    if (this.getSpeed() < 1) {
+      this.stuckTimer += deltaTime;
+      if (this.stuckTimer > STUCK_TIME) {
+        this.stuckTimer = 0;
+        this.reverseTimer = REVERSE_TIME;
+      }
+    } else {
+      this.stuckTimer = 0;
+    }
+
+    this.applyControls({
+      forward: this.velocity < speed,
+      backward: false,
+      left: angle > 0.05,
+      right: angle < -0.05,
+      brake: this.velocity > speed + 3,
+      handbrake: false
+    });
+  }
+
+  /**
+   * Award points to this opponent
+   * @param points Points to add
+   */
+  public addScore(points: number): void {
+    this.score += points;
+  }
+
+  /**
+   * Get the points scored by this opponent
+   * @returns Opponent score
+   */
+  public getScore(): number {
+    return this.score;
+  }
+
+  /**
+   * Get the current behaviour
+   * @returns Opponent state
+   */
+  public getState(): OpponentState {
+    return this.state;
+  }
+}
@@ -0,0 +1,400 @@
+import * as THREE from 'three';
+import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+import { RoadNetwork } from '../../core/environment/RoadNetwork';
+import { Vehicle } from './Vehicle';
+import { DEFAULT_VEHICLE_ID, getVehicleSpec } from './VehicleCatalog';
+
+// What the police driver is currently doing
+export enum PoliceState {
+  PATROL = 'patrol',     // Cruising the streets, lights off
+  PURSUE = 'pursue',     // Following the player
+  BOX_IN = 'box_in',     // Cutting in ahead of the player to block the way
+  RAM = 'ram',           // Driving into the player
+  WRECKED = 'wrecked'
+}
+
+// Police livery
+const POLICE_PAINT = 0x102a66;
+const LIGHT_RED = 0xff2222;
+const LIGHT_BLUE = 0x2266ff;
+const LIGHT_OFF = 0x333333;
+const LIGHT_FLASH_RATE = 4;     // Flashes per second
+
+// Driving behaviour tuning
+const PATROL_SPEED = 16;
+const CORNER_SPEED = 10;
+const PURSUIT_SPEED = 45;
+const RAM_SPEED = 50;
+const WAYPOINT_RADIUS = 8;
+export const POLICE_SIGHT_RANGE = 60;
+const DIRECT_CHASE_RANGE = 40;  // Closer than this, drive straight at the player rather than by road
+const ROUTE_REFRESH_TIME = 2;   // Seconds between road route updates
+const TAIL_DISTANCE = 10;       // How far behind the player a pursuing car sits
+const BOX_IN_LEAD = 14;         // How far ahead of the player a boxing car aims
+const BOX_IN_SIDE_OFFSET = 3;
+const RAM_RANGE = 25;
+const RAM_DURATION = 4;
+const RAM_COOLDOWN = 6;
+const STUCK_TIME = 1.5;
+const REVERSE_TIME = 1.2;
+
+/**
+ * Police car that patrols the streets and, when the player is wanted,
+ * chases them down with lights and siren, boxes them in and rams them
+ */
+export class PoliceCar extends Vehicle {
+  private roadNetwork: RoadNetwork;
+  private state: PoliceState = PoliceState.PATROL;
+
+  // Patrol navigation
+  private previousNode: number;
+  private targetNode: number;
+
+  // Road route towards the player, used when they are out of direct reach
+  private route: number[] = [];
+  private routeTimer: number = 0;
+
+  // Behaviour timers (seconds)
+  private stateTimer: number = 0;
+  private ramCooldown: number;
+  private stuckTimer: number = 0;
+  private reverseTimer: number = 0;
+
+  // Roof light bar
+  private redLight: THREE.Mesh;
+  private blueLight: THREE.Mesh;
+  private lightTimer: number = 0;
+
+  // Which side of the player this car boxes in from (+1 right, -1 left)
+  private boxSide: number;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param roadNetwork City road network to drive on
+   * @param startNode Road node to start at
+   */
+  constructor(
+    scene: THREE.Scene,
+    physicsWorld: PhysicsWorld,
+    roadNetwork: RoadNetwork,
+    startNode: number
+  ) {
+    const start = roadNetwork.getNode(startNode);
+    super(
+      scene,
+      physicsWorld,
+      new THREE.Vector3(start.position.x, 2, start.position.z),
+      getVehicleSpec(DEFAULT_VEHICLE_ID),
+      POLICE_PAINT
+    );
+
+    this.roadNetwork = roadNetwork;
+    this.ramCooldown = RAM_COOLDOWN * Math.random();
+    this.boxSide = Math.random() < 0.5 ? 1 : -1;
+
+    // Head off along a random road
+    this.previousNode = startNode;
+    this.targetNode = start.neighbours[Math.floor(Math.random() * start.neighbours.length)];
+    const target = roadNetwork.getNode(this.targetNode).position;
+    this.direction = Math.atan2(target.x - start.position.x, target.z - start.position.z);
+
+    // Light bar on the roof, carried along by the physics mesh
+    this.redLight = this.createLight(-0.35);
+    this.blueLight = this.createLight(0.35);
+  }
+
+  /**
+   * Create one half of the roof light bar
+   * @param offsetX Sideways position on the roof
+   * @returns Light mesh
+   */
+  private createLight(offsetX: number): THREE.Mesh {
+    const light = new THREE.Mesh(
+      new THREE.BoxGeometry(0.6, 0.15, 0.25),
+      new THREE.MeshBasicMaterial({ color: LIGHT_OFF })
+    );
+    light.position.set(offsetX, 0.75, -0.2);
+    this.getMesh().add(light);
+    return light;
+  }
+
+  /**
+   * Decide what to do and steer the car
+   * @param deltaTime Time since last update
+   * @param player Player vehicle
+   * @param wantedLevel Player's current wanted level (0 = not wanted)
+   */
+  public think(deltaTime: number, player: Vehicle, wantedLevel: number): void {
+    if (this.isWrecked()) {
+      this.state = PoliceState.WRECKED;
+      this.setLights(false);
+      this.applyControls({ forward: false, backward: false, left: false, right: false, brake: true, handbrake: false });
+      return;
+    }
+
+    this.stateTimer += deltaTime;
+    this.ramCooldown = Math.max(0, this.ramCooldown - deltaTime);
+    this.routeTimer = Math.max(0, this.routeTimer - deltaTime);
+
+    const position = this.getPosition();
+    const playerPosition = player.getPosition();
+    this.chooseState(position, playerPosition, wantedLevel);
+    this.updateLights(deltaTime);
+
+    // Work out where to drive and how fast
+    let target: THREE.Vector3;
+    let desiredSpeed: number;
+    const distance = position.distanceTo(playerPosition);
+
+    if (this.state === PoliceState.PATROL) {
+      target = this.getWaypoint();
+      desiredSpeed = PATROL_SPEED;
+
+      // Arrived at the junction, pick the next road
+      if (Math.hypot(target.x - position.x, target.z - position.z) < WAYPOINT_RADIUS) {
+        this.advanceWaypoint();
+        target = this.getWaypoint();
+      }
+    } else if (distance > DIRECT_CHASE_RANGE) {
+      // Too far to drive straight at, follow the roads
+      target = this.getRoutePoint(position, playerPosition);
+      desiredSpeed = PURSUIT_SPEED;
+    } else {
+      const playerForward = new THREE.Vector3(Math.sin(player.getDirection()), 0, Math.cos(player.getDirection()));
+      const playerSpeed = player.getSpeed();
+
+      switch (this.state) {
+        case PoliceState.RAM:
+          target = playerPosition;
+          desiredSpeed = RAM_SPEED;
+
+          // Contact made (or gave up), drop back for a while
+          if (distance < 4 || this.stateTimer > RAM_DURATION) {
+            this.ramCooldown = RAM_COOLDOWN;
+            this.setState(PoliceState.PURSUE);
+          }
+          break;
+
+        case PoliceState.BOX_IN: {
+          // Aim for a spot ahead of the player, slightly to one side
+          const side = new THREE.Vector3(playerForward.z, 0, -playerForward.x);
+          target = playerPosition.clone()
+            .addScaledVector(playerForward, BOX_IN_LEAD)
+            .addScaledVector(side, BOX_IN_SIDE_OFFSET * this.boxSide);
+
+          // Once ahead, slow down in front of them
+          const ahead = position.clone().sub(playerPosition).dot(playerForward) > BOX_IN_LEAD / 2;
+          desiredSpeed = ahead ? playerSpeed * 0.5 : Math.min(PURSUIT_SPEED, playerSpeed + 15);
+          break;
+        }
+
+        default:
+          // Sit on the player's tail, leading them a little
+          target = playerPosition.clone().addScaledVector(playerForward, playerSpeed * 0.3);
+          desiredSpeed = distance > TAIL_DISTANCE ? PURSUIT_SPEED : playerSpeed;
+          break;
+      }
+    }
+
+    this.driveTowards(deltaTime, position, target, desiredSpeed);
+  }
+
+  /**
+   * Pick a behaviour from the wanted level and how close the player is
+   * @param position Current position
+   * @param playerPosition Position of the player's car
+   * @param wantedLevel Player's current wanted level
+   */
+  private chooseState(position: THREE.Vector3, playerPosition: THREE.Vector3, wantedLevel: number): void {
+    if (wantedLevel === 0) {
+      if (this.state !== PoliceState.PATROL) {
+        this.returnToRoad(position);
+      }
+      return;
+    }
+
+    if (this.state === PoliceState.RAM) return;
+
+    const distance = position.distanceTo(playerPosition);
+
+    // From three stars up the gloves come off
+    if (wantedLevel >= 3 && this.ramCooldown === 0 && distance < RAM_RANGE) {
+      this.setState(PoliceState.RAM);
+      return;
+    }
+
+    // From two stars up, try to get in front of the player
+    const desired = wantedLevel >= 2 ? PoliceState.BOX_IN : PoliceState.PURSUE;
+    if (this.state !== desired) {
+      this.setState(desired);
+    }
+  }
+
+  /**
+   * Switch behaviour
+   * @param state New state
+   */
+  private setState(state: PoliceState): void {
+    this.state = state;
+    this.stateTimer = 0;
+  }
+
+  /**
+   * Go back to patrolling from the nearest junction
+   * @param position Current position
+   */
+  private returnToRoad(position: THREE.Vector3): void {
+    const nearest = this.roadNetwork.getNearestNode(position);
+    this.previousNode = nearest.id;
+    this.targetNode = nearest.id;
+    this.route = [];
+    this.setState(PoliceState.PATROL);
+  }
+
+  /**
+   * Get the next point on the road route to the player, refreshing the route now and then
+   * @param position Current position
+   * @param playerPosition Position of the player's car
+   * @returns Point to drive to
+   */
+  private getRoutePoint(position: THREE.Vector3, playerPosition: THREE.Vector3): THREE.Vector3 {
+    if (this.routeTimer === 0 || this.route.length === 0) {
+      const start = this.roadNetwork.getNearestNode(position).id;
+      const goal = this.roadNetwork.getNearestNode(playerPosition).id;
+      this.route = this.roadNetwork.findPath(start, goal);
+      this.routeTimer = ROUTE_REFRESH_TIME;
+    }
+
+    // Skip junctions that have been reached, or that are behind the car
+    while (this.route.length > 1) {
+      const current = this.roadNetwork.getNode(this.route[0]).position;
+      const next = this.roadNetwork.getNode(this.route[1]).position;
+      const reached = Math.hypot(current.x - position.x, current.z - position.z) < WAYPOINT_RADIUS;
+      const passed = position.distanceTo(next) < current.distanceTo(next);
+      if (!reached && !passed) break;
+      this.route.shift();
+    }
+
+    return this.route.length > 0
+      ? this.roadNetwork.getNode(this.route[0]).position.clone()
+      : playerPosition.clone();
+  }
+
+  /**
+   * Get the point in the right-hand lane at the junction being driven to
+   * @returns Waypoint position
+   */
+  private getWaypoint(): THREE.Vector3 {
+    if (this.previousNode === this.targetNode) {
+      return this.roadNetwork.getNode(this.targetNode).position.clone();
+    }
+    return this.roadNetwork.getLanePoint(this.previousNode, this.targetNode, 1);
+  }
+
+  /**
+   * Choose the next road at a junction, avoiding U-turns where possible
+   */
+  private advanceWaypoint(): void {
+    const node = this.roadNetwork.getNode(this.targetNode);
+    let options = node.neighbours.filter(id => id !== this.previousNode);
+    if (options.length === 0) {
+      options = node.neighbours;
+    }
+
+    this.previousNode = this.targetNode;
+    this.targetNode = options[Math.floor(Math.random() * options.length)];
+  }
+
+  /**
+   * Steer and use the pedals to head for a target
+   * @param deltaTime Time since last update
+   * @param position Current position
+   * @param target Point to drive to
+   * @param desiredSpeed Speed to aim for
+   */
+  private driveTowards(deltaTime: number, position: THREE.Vector3, target: THREE.Vector3, desiredSpeed: number): void {
+    // Signed angle between the heading and the target, wrapped to [-PI, PI]
+    const desiredDirection = Math.atan2(target.x - position.x, target.z - position.z);
+    let angle = desiredDirection - this.direction;
+    angle = Math.atan2(Math.sin(angle), Math.cos(angle));
+
+    // Slow down for sharp turns
+    const speed = Math.abs(angle) > 0.5 ? Math.min(desiredSpeed, CORNER_SPEED) : desiredSpeed;
+
+    // Back out when stuck against something
+    if (this.reverseTimer > 0) {
+      this.reverseTimer -= deltaTime;
+      this.applyControls({
+        forward: false,
+        backward: true,
+        left: angle < 0,
+        right: angle > 0,
+        brake: false,
+        handbrake: false
+      });
+      return;
+    }
+
+    if (this.getSpeed() < 1 && desiredSpeed > 1) {
+      this.stuckTimer += deltaTime;
+      if (this.stuckTimer > STUCK_TIME) {
+        this.stuckTimer = 0;
+        this.reverseTimer = REVERSE_TIME;
+      }
+    } else {
+      this.stuckTimer = 0;
+    }
+
+    this.applyControls({
+      forward: this.velocity < speed,
+      backward: false,
+      left: angle > 0.05,
+      right: angle < -0.05,
+      brake: this.velocity > speed + 3,
+      handbrake: false
+    });
+  }
+
+  /**
+   * Flash the light bar red and blue while on a chase
+   * @param deltaTime Time since last update
+   */
+  private updateLights(deltaTime: number): void {
+    if (this.state === PoliceState.PATROL) {
+      this.setLights(false);
+      return;
+    }
+
+    this.lightTimer += deltaTime;
+    const redPhase = Math.floor(this.lightTimer * LIGHT_FLASH_RATE * 2) % 2 === 0;
+    (this.redLight.material as THREE.MeshBasicMaterial).color.setHex(redPhase ? LIGHT_RED : LIGHT_OFF);
+    (this.blueLight.material as THREE.MeshBasicMaterial).color.setHex(redPhase ? LIGHT_OFF : LIGHT_BLUE);
+  }
+
+  /**
+   * Switch the light bar off (or both halves on)
+   * @param on Whether the lights are lit
+   */
+  private setLights(on: boolean): void {
+    (this.redLight.material as THREE.MeshBasicMaterial).color.setHex(on ? LIGHT_RED : LIGHT_OFF);
+    (this.blueLight.material as THREE.MeshBasicMaterial).color.setHex(on ? LIGHT_BLUE : LIGHT_OFF);
+  }
+
+  /**
+   * Check whether the car is chasing the player, with lights and siren on
+   * @returns True while in pursuit
+   */
+  public isInPursuit(): boolean {
+    return this.state !== PoliceState.PATROL && this.state !== PoliceState.WRECKED;
+  }
+
+  /**
+   * Get the current behaviour
+   * @returns Police state
+   */
+  public getState(): PoliceState {
+    return this.state;
+  }
+}
@@ -0,0 +1,230 @@
+import * as CANNON from 'cannon-es';
+import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
+import { VehicleSpec, RaycastTuning } from './VehicleCatalog';
+import type { VehicleControlState } from './Vehicle';
+
+// Used when a raycast car has no tuning in the catalog
+const defaultTuning: RaycastTuning = {
+  suspensionStiffness: 30,
+  suspensionTravel: 0.3,
+  grip: 1.6,
+  rollInfluence: 0.02
+};
+
+// Wheel layout relative to the chassis centre (front is +z, left is +x)
+const WHEEL_RADIUS = 0.35;
+export const WHEEL_TRACK = 0.8;  // Half the distance between left and right wheels
+export const WHEEL_BASE = 1.2;   // Half the distance between front and rear axles
+const WHEEL_MOUNT_HEIGHT = -0.1;
+const SUSPENSION_REST_LENGTH = 0.4;
+
+// Steering
+const MAX_STEER_ANGLE = 0.5;     // Radians, at standstill
+const STEER_SPEED_FALLOFF = 25;  // Speed at which the steering lock is halved
+const STEER_RATE = 3;            // Radians per second the wheels turn
+
+// Handbrake locks the rear wheels and lets them slide
+const HANDBRAKE_GRIP = 0.45;     // Fraction of the rear grip kept
+
+// Physics wheel indices, matching the model wheel names
+const wheelIndices: Record<string, number> = {
+  wheel_fl: 0,
+  wheel_fr: 1,
+  wheel_rl: 2,
+  wheel_rr: 3
+};
+
+/**
+ * Driving model built on cannon-es RaycastVehicle: suspension, tyre grip,
+ * weight transfer and handbrake drifts
+ */
+export class RaycastDrive {
+  private raycastVehicle: CANNON.RaycastVehicle;
+  private tuning: RaycastTuning;
+  private steering: number = 0;
+
+  // Grip of the surface under each wheel, relative to asphalt
+  private wheelGrip: number[] = [1, 1, 1, 1];
+
+  /**
+   * Constructor
+   * @param physicsWorld Physics world
+   * @param chassisBody Car body the wheels are attached to
+   * @param spec Catalog entry with the handling and tuning
+   */
+  constructor(
+    private physicsWorld: PhysicsWorld,
+    private chassisBody: CANNON.Body,
+    private spec: VehicleSpec
+  ) {
+    this.tuning = spec.raycastTuning || defaultTuning;
+
+    this.raycastVehicle = new CANNON.RaycastVehicle({
+      chassisBody,
+      indexRightAxis: 0,
+      indexUpAxis: 1,
+      indexForwardAxis: 2
+    });
+
+    // Front left, front right, rear left, rear right
+    const positions = [
+      new CANNON.Vec3(WHEEL_TRACK, WHEEL_MOUNT_HEIGHT, WHEEL_BASE),
+      new CANNON.Vec3(-WHEEL_TRACK, WHEEL_MOUNT_HEIGHT, WHEEL_BASE),
+      new CANNON.Vec3(WHEEL_TRACK, WHEEL_MOUNT_HEIGHT, -WHEEL_BASE),
+      new CANNON.Vec3(-WHEEL_TRACK, WHEEL_MOUNT_HEIGHT, -WHEEL_BASE)
+    ];
+
+    positions.forEach((position, index) => {
+      this.raycastVehicle.addWheel({
+        chassisConnectionPointLocal: position,
+        directionLocal: new CANNON.Vec3(0, -1, 0),
+        axleLocal: new CANNON.Vec3(-1, 0, 0),
+        radius: WHEEL_RADIUS,
+        suspensionRestLength: SUSPENSION_REST_LENGTH,
+        suspensionStiffness: this.tuning.suspensionStiffness,
+        maxSuspensionTravel: this.tuning.suspensionTravel,
+        dampingCompression: 4.4,
+        dampingRelaxation: 2.3,
+        frictionSlip: this.tuning.grip,
+        rollInfluence: this.tuning.rollInfluence,
+        maxSuspensionForce: 100000,
+        isFrontWheel: index < 2,
+        useCustomSlidingRotationalSpeed: true,
+        customSlidingRotationalSpeed: -30
+      });
+    });
+
+    // The chassis is already in the world, adding it again is a no-op
+    this.raycastVehicle.addToWorld(this.physicsWorld.getWorld());
+  }
+
+  /**
+   * Apply the driver input to the wheels for the next physics step
+   * @param controlState Driver input
+   * @param deltaTime Fixed step length
+   * @param forwardSpeed Signed speed along the car's heading
+   * @param maxSpeed Top speed (reduced by damage)
+   * @param acceleration Acceleration (reduced by damage)
+   * @param turnSpeed Turn rate (reduced by damage)
+   * @param wrecked Whether the car is wrecked
+   */
+  public applyInput(
+    controlState: VehicleControlState,
+    deltaTime: number,
+    forwardSpeed: number,
+    maxSpeed: number,
+    acceleration: number,
+    turnSpeed: number,
+    wrecked: boolean
+  ): void {
+    const mass = this.chassisBody.mass;
+
+    // Rear-wheel drive: split the force needed for the car's acceleration over the rear wheels
+    let engineForce = 0;
+    let brake = 0;
+
+    if (!wrecked) {
+      if (controlState.forward && forwardSpeed < maxSpeed) {
+        engineForce = mass * acceleration / 2;
+      }
+
+      if (controlState.backward) {
+        if (forwardSpeed > 1) {
+          brake = mass * this.spec.brakeForce * deltaTime / 4;
+        } else if (forwardSpeed > -maxSpeed / 2) {
+          engineForce = -mass * acceleration / 2;
+        }
+      }
+
+      if (controlState.brake) {
+        brake = mass * this.spec.brakeForce * deltaTime / 4;
+      }
+    } else {
+      // Wrecked cars roll to a stop
+      brake = mass * 2 * deltaTime / 4;
+    }
+
+    for (let i = 0; i < 4; i++) {
+      this.raycastVehicle.setBrake(brake, i);
+    }
+    // With +x as the right axis, negative engine force drives towards +z (forward)
+    this.raycastVehicle.applyEngineForce(-engineForce, 2);
+    this.raycastVehicle.applyEngineForce(-engineForce, 3);
+
+    // Tyres grip as well as the ground under them allows
+    for (let i = 0; i < 4; i++) {
+      this.raycastVehicle.wheelInfos[i].frictionSlip = this.tuning.grip * this.wheelGrip[i];
+    }
+
+    // Handbrake locks the rear wheels and drops their grip so the tail steps out
+    for (const index of [2, 3]) {
+      if (controlState.handbrake && !wrecked) {
+        this.raycastVehicle.wheelInfos[index].frictionSlip *= HANDBRAKE_GRIP;
+        this.raycastVehicle.setBrake(mass * 20 * deltaTime / 2, index);
+      }
+    }
+
+    // Turn the front wheels towards the target angle; less lock at speed
+    const steerLock = MAX_STEER_ANGLE * (turnSpeed / this.spec.turnSpeed) /
+      (1 + Math.abs(forwardSpeed) / STEER_SPEED_FALLOFF);
+    let targetSteering = 0;
+    if (!wrecked) {
+      if (controlState.left) targetSteering += steerLock;
+      if (controlState.right) targetSteering -= steerLock;
+    }
+    const maxStep = STEER_RATE * deltaTime;
+    this.steering += Math.max(-maxStep, Math.min(maxStep, targetSteering - this.steering));
+
+    this.raycastVehicle.setSteeringValue(this.steering, 0);
+    this.raycastVehicle.setSteeringValue(this.steering, 1);
+  }
+
+  /**
+   * Set the grip of the ground under each wheel
+   * @param grip Grip relative to asphalt: front left, front right, rear left, rear right
+   */
+  public setWheelGrip(grip: number[]): void {
+    this.wheelGrip = grip;
+  }
+
+  /**
+   * Get the state of a wheel for syncing the model's wheel
+   * @param wheelName Model wheel name (wheel_fl, wheel_fr, wheel_rl, wheel_rr)
+   * @returns Steering angle and how far the suspension has extended past rest, or null
+   */
+  public getWheelState(wheelName: string): { steering: number; extension: number } | null {
+    const index = wheelIndices[wheelName];
+    if (index === undefined) return null;
+
+    const wheel = this.raycastVehicle.wheelInfos[index];
+    return {
+      steering: wheel.steering,
+      extension: wheel.suspensionLength - SUSPENSION_REST_LENGTH
+    };
+  }
+
+  /**
+   * Check whether the car is sliding on any wheel
+   * @returns True if the tyres have lost grip
+   */
+  public isSliding(): boolean {
+    return this.raycastVehicle.sliding;
+  }
+
+  /**
+   * Get the height of the chassis centre above the ground at rest
+   * @returns Ride height in metres
+   */
+  public getRideHeight(): number {
+    // Springs compress under a quarter of the car's weight each
+    const sag = 9.81 / (4 * this.tuning.suspensionStiffness);
+    return -WHEEL_MOUNT_HEIGHT + SUSPENSION_REST_LENGTH + WHEEL_RADIUS - sag;
+  }
+
+  /**
+   * Remove the wheels from the physics world
+   */
+  public dispose(): void {
+    this.raycastVehicle.removeFromWorld(this.physicsWorld.getWorld());
+  }
+}
@@ -3,9 +3,73 @@ import * as CANNON from 'cannon-es';
 import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { VehicleSpec, DrivingModel, DEFAULT_VEHICLE_ID, getVehicleSpec } from './VehicleCatalog';
+import { RaycastDrive, WHEEL_TRACK, WHEEL_BASE } from './RaycastDrive';
+import { Gearbox, REDLINE_RPM } from './Gearbox';
+import { AudioManager } from '../../systems/AudioManager';
+import { SurfaceType, SurfaceQuery, surfaceDefinitions } from '../../core/environment/Surfaces';
+
+// Damage zones around the vehicle body
+export enum DamageZone {
+  FRONT = 'front',
+  REAR = 'rear',
+  LEFT = 'left',
+  RIGHT = 'right'
+}
+
+// Named model parts that break off once a zone is badly damaged
+const detachableParts: Record<DamageZone, string[]> = {
+  [DamageZone.FRONT]: ['grills', 'lights'],
+  [DamageZone.REAR]: ['lights_red'],
+  [DamageZone.LEFT]: ['rim_fl', 'rim_rl'],
+  [DamageZone.RIGHT]: ['rim_fr', 'rim_rr']
+};
+
+// Damage tuning
+const DAMAGE_IMPACT_THRESHOLD = 3; // Impacts below this velocity cause no damage
+const DAMAGE_PER_IMPACT_UNIT = 1.5; // Health lost per unit of impact velocity above the threshold
+const DETACH_ZONE_DAMAGE = 60; // Zone damage at which parts fall off
+const DENT_RADIUS = 0.8; // Radius of a dent in model units
+const ARMOURED_FRONT_FACTOR = 0.2; // Share of front damage taken with the armoured bumper fitted
+
+// Bounce tuning for the bouncy car power-up
+const BOUNCE_RESTITUTION = 0.8; // Share of the speed kept when bouncing off
+const BOUNCE_LIFT = 4;          // Upward speed given by a bounce
+
+// Speed decay rates (per second) used for exponential slowdown
+const COAST_DRAG = 1.2;     // No throttle or reverse
+const HANDBRAKE_DRAG = 6.3; // Handbrake pulled
+const WRECK_DRAG = 3.1;     // Wrecked car rolling to a stop
+
+// Where the tyres touch the ground relative to the body centre: front left, front right, rear left, rear right
+const WHEEL_CONTACT_HEIGHT = -0.5; // Bottom of the chassis box
+const wheelContactOffsets = [
+  new CANNON.Vec3(WHEEL_TRACK, WHEEL_CONTACT_HEIGHT, WHEEL_BASE),
+  new CANNON.Vec3(-WHEEL_TRACK, WHEEL_CONTACT_HEIGHT, WHEEL_BASE),
+  new CANNON.Vec3(WHEEL_TRACK, WHEEL_CONTACT_HEIGHT, -WHEEL_BASE),
+  new CANNON.Vec3(-WHEEL_TRACK, WHEEL_CONTACT_HEIGHT, -WHEEL_BASE)
+];
+
+// Nitro tuning
+const NITRO_BOOST = 1.5;          // Top speed and acceleration multiplier while boosting
+const NITRO_BURN_RATE = 0.25;     // Share of a full tank used per second
+const NITRO_RECHARGE_RATE = 0.05; // Share of a full tank regained per second
+const NITRO_RECHARGE_DELAY = 2;   // Seconds after boosting before the tank starts to refill
+const NITRO_MIN_TO_START = 0.1;   // Tank needed to start a boost
+
+// Driver input applied on each physics step
+export interface VehicleControlState {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  brake: boolean;
+  handbrake: boolean;
+  boost?: boolean; // Nitro
+}
 
 /**
- * Vehicle class representing a Ferrari car with physics
+ * Vehicle class representing a drivable car with physics, configured from the vehicle catalog
  */
 export class Vehicle {
   // Vehicle mesh
@@ -20,15 +84,67 @@ export class Vehicle {
   // Physics body
   private body: CANNON.Body;
   
+  // Catalog entry the car was built from
+  private spec: VehicleSpec;
+  
   // Vehicle properties
-  private maxSpeed: number = 55;
-  private acceleration: number = 10;
-  private turnSpeed: number = 0.03;
-  private brakeForce: number = 15;
+  protected maxSpeed: number;
+  protected acceleration: number;
+  protected turnSpeed: number;
+  protected brakeForce: number;
+  
+  // Paint color of the body
+  private paintColor: number;
   
   // Current state
-  private velocity: number = 0;
-  private direction: number = 0;
+  protected velocity: number = 0;
+  protected direction: number = 0;
+  
+  // Latest driver input, integrated on every fixed physics step
+  private controls: VehicleControlState = {
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    brake: false,
+    handbrake: false
+  };
+  private fixedStepCallback: (fixedDeltaTime: number) => void;
+  
+  // Nitro tank (0-1) and whether it is being burnt
+  private nitro: number = 1;
+  private boosting: boolean = false;
+  private nitroRechargeDelay: number = 0;
+  
+  // Engine loop heard from outside the car (null for the player, whose engine plays unpositioned)
+  private engineSoundHandle: number | null = null;
+  
+  // What each wheel is driving on, in wheelContactOffsets order, and where to look it up
+  private wheelSurfaces: SurfaceType[] = wheelContactOffsets.map(() => SurfaceType.ASPHALT);
+  private surfaceQuery: SurfaceQuery | null = null;
+  
+  // Raycast wheel simulation (null for arcade handling)
+  private raycastDrive: RaycastDrive | null = null;
+  
+  // Automatic gearbox; top gear redlines at boosted top speed so nitro doesn't hit the limiter
+  private gearbox: Gearbox;
+  
+  // Damage state
+  private health: number = 100;
+  private zoneDamage: Record<DamageZone, number> = {
+    [DamageZone.FRONT]: 0,
+    [DamageZone.REAR]: 0,
+    [DamageZone.LEFT]: 0,
+    [DamageZone.RIGHT]: 0
+  };
+  private wrecked: boolean = false;
+  private frontArmour: boolean = false;
+  private detachedZones: Set<DamageZone> = new Set();
+  private looseParts: Array<{
+    object: THREE.Object3D;
+    velocity: THREE.Vector3;
+    spin: THREE.Vector3;
+  }> = [];
   
   // Debug
   private lastPosition: THREE.Vector3 = new THREE.Vector3();
@@ -47,12 +163,26 @@ export class Vehicle {
    * @param scene THREE.js scene
    * @param physicsWorld Physics world
    * @param position Initial position
+   * @param spec Catalog entry with the model and handling
+   * @param paintColor Body color (defaults to the catalog paint)
    */
   constructor(
-    private scene: THREE.Scene,
-    private physicsWorld: PhysicsWorld,
-    position: THREE.Vector3 = new THREE.Vector3(0, 0, 0)
+    protected scene: THREE.Scene,
+    protected physicsWorld: PhysicsWorld,
+    position: THREE.Vector3 = new THREE.Vector3(0, 0, 0),
+    spec: VehicleSpec = getVehicleSpec(DEFAULT_VEHICLE_ID),
+    paintColor: number = spec.paintColor
   ) {
+    this.spec = spec;
+    this.paintColor = paintColor;
+    
+    // Handling from the catalog
+    this.maxSpeed = spec.maxSpeed;
+    this.acceleration = spec.acceleration;
+    this.turnSpeed = spec.turnSpeed;
+    this.brakeForce = spec.brakeForce;
+    this.gearbox = new Gearbox(spec.maxSpeed * NITRO_BOOST);
+    
     // Initialize DRACO loader
     this.dracoLoader = new DRACOLoader();
     
@@ -89,12 +219,21 @@ export class Vehicle {
     this.mesh.position.copy(position);
     this.scene.add(this.mesh);
     
-    // Load the Ferrari model
+    // Load the car model
     this.loadVehicleModel(position);
     
     // Create physics body
     this.body = this.createPhysicsBody(position);
     
+    // Cars with the raycast model ride on simulated wheels
+    if (spec.drivingModel === DrivingModel.RAYCAST) {
+      this.raycastDrive = new RaycastDrive(this.physicsWorld, this.body, spec);
+    }
+    
+    // Drive the car on the physics clock rather than per rendered frame
+    this.fixedStepCallback = this.fixedUpdate.bind(this);
+    this.physicsWorld.registerFixedStepCallback(this.fixedStepCallback);
+    
     // Store initial position for debugging
     this.lastPosition.copy(position);
     
@@ -115,7 +254,7 @@ export class Vehicle {
     
     // Create a simple material
     const material = new THREE.MeshStandardMaterial({
-      color: 0xff0000, // Red car
+      color: this.paintColor,
       metalness: 0.5,
       roughness: 0.5
     });
@@ -129,23 +268,29 @@ export class Vehicle {
   }
   
   /**
-   * Load the Ferrari 3D model
+   * Load the 3D model of the car, or build the box car if it has none
    * @param position Initial position
    */
   private loadVehicleModel(position: THREE.Vector3): void {
-    // Define possible paths to try
-    const modelPaths = [
-      '/assets/models/ferrari.glb',
-      'assets/models/ferrari.glb',
-      './assets/models/ferrari.glb',
-      '../assets/models/ferrari.glb'
-    ];
+    if (!this.spec.modelPath) {
+      this.createFallbackCar();
+      return;
+    }
     
     // Log loading attempt
-    console.log('Attempting to load Ferrari model...');
+    console.log(`Attempting to load ${this.spec.name} model...`);
     
     // Try loading with first path
-    this.loadModelWithPath(modelPaths, 0, position);
+    this.loadModelWithPath(this.getAssetPaths(this.spec.modelPath), 0, position);
+  }
+  
+  /**
+   * Get the possible locations of an asset, depending on where the game is served from
+   * @param assetPath Asset path relative to the project root
+   * @returns Paths to try, in order
+   */
+  private getAssetPaths(assetPath: string): string[] {
+    return [`/${assetPath}`, assetPath, `./${assetPath}`, `../${assetPath}`];
   }
   
   /**
@@ -180,7 +325,7 @@ export class Vehicle {
         console.log('Car model structure:', this.carModel);
         
         // Scale and position the model
-        this.carModel.scale.set(1.0, 1.0, 1.0);
+        this.carModel.scale.setScalar(this.spec.modelScale);
         
         // Fix the position offset - align with physics body position
         this.carModel.position.copy(this.mesh.position);
@@ -194,7 +339,7 @@ export class Vehicle {
         
         // Apply materials
         const bodyMaterial = new THREE.MeshPhysicalMaterial({
-          color: 0xff0000,
+          color: this.paintColor,
           metalness: 1.0,
           roughness: 0.5,
           clearcoat: 1.0,
@@ -282,16 +427,10 @@ export class Vehicle {
    * Load the shadow texture
    */
   private loadShadowTexture(): void {
-    // Define possible paths to try
-    const texturePaths = [
-      '/assets/models/ferrari_ao.png',
-      'assets/models/ferrari_ao.png',
-      './assets/models/ferrari_ao.png',
-      '../assets/models/ferrari_ao.png'
-    ];
+    if (!this.spec.shadowTexturePath) return;
     
     console.log('Attempting to load shadow texture...');
-    this.loadShadowWithPath(texturePaths, 0);
+    this.loadShadowWithPath(this.getAssetPaths(this.spec.shadowTexturePath), 0);
   }
   
   /**
@@ -354,7 +493,7 @@ export class Vehicle {
     
     // Create the body - adjust position.y to add the height of half the box to ensure bottom is at y=0
     const body = new CANNON.Body({
-      mass: 100, // Reduced weight for easier movement
+      mass: this.spec.mass,
       position: new CANNON.Vec3(position.x, position.y + 0.5, position.z), // Add half the height to position the bottom at y=0
       shape: shape,
       material: new CANNON.Material("vehicleMaterial")
@@ -388,114 +527,264 @@ export class Vehicle {
   }
   
   /**
-   * Apply control state to vehicle
+   * Set the driver input, applied on the following physics steps
    * @param controlState Current control state
    */
-  public applyControls(controlState: {
-    forward: boolean;
-    backward: boolean;
-    left: boolean;
-    right: boolean;
-    brake: boolean;
-    handbrake: boolean;
-  }): void {
+  public applyControls(controlState: VehicleControlState): void {
+    this.controls = { ...controlState };
+  }
+  
+  /**
+   * Integrate the driver input and push the result to the physics body;
+   * runs once per fixed physics step
+   * @param deltaTime Fixed step length
+   */
+  private fixedUpdate(deltaTime: number): void {
+    this.updateNitro(deltaTime);
+    this.updateGearbox(deltaTime);
+    
+    // Raycast cars are moved by the wheel forces, not by setting the velocity
+    if (this.raycastDrive) {
+      this.syncFromChassis();
+      this.raycastDrive.setWheelGrip(this.wheelSurfaces.map(surface => surfaceDefinitions[surface].grip));
+      
+      // Soft ground holds the car back
+      const drag = Math.exp(-this.getSurfaceDrag() * deltaTime);
+      this.body.velocity.x *= drag;
+      this.body.velocity.z *= drag;
+      
+      this.raycastDrive.applyInput(
+        this.controls,
+        deltaTime,
+        this.velocity,
+        this.getEffectiveMaxSpeed(),
+        this.getEffectiveAcceleration(),
+        this.getEffectiveTurnSpeed(),
+        this.wrecked
+      );
+      return;
+    }
+    
+    this.integrateControls(this.controls, deltaTime);
+    
+    // Apply physics behavior to update the velocity based on direction
+    const quaternion = new CANNON.Quaternion();
+    quaternion.setFromAxisAngle(new CANNON.Vec3(0, 1, 0), this.direction);
+    this.body.quaternion = quaternion;
+    
+    // Apply velocity to the physics body to make the car move
+    this.body.velocity.x = Math.sin(this.direction) * this.velocity;
+    this.body.velocity.z = Math.cos(this.direction) * this.velocity;
+    
+    // Keep vertical velocity from physics for gravity effects
+    // But clamp it to prevent sinking too far or flying too high
+    this.body.velocity.y = Math.max(-10, Math.min(this.body.velocity.y, 10));
+    
+    // Ensure car doesn't sink below ground or fly too high
+    if (this.body.position.y < 0.5) { // 0.5 is half the car's height
+      this.body.position.y = 0.5;
+      this.body.velocity.y = 0;
+    }
+    
+    // Make sure the body is active
+    this.body.wakeUp();
+  }
+  
+  /**
+   * Burn nitro while the boost is held with the throttle, and refill the tank otherwise
+   * @param deltaTime Fixed step length
+   */
+  private updateNitro(deltaTime: number): void {
+    const wantsBoost = this.controls.boost === true && this.controls.forward && !this.wrecked;
+    const canBoost = this.boosting ? this.nitro > 0 : this.nitro >= NITRO_MIN_TO_START;
+    
+    if (wantsBoost && canBoost) {
+      this.boosting = true;
+      this.nitro = Math.max(0, this.nitro - NITRO_BURN_RATE * deltaTime);
+      this.nitroRechargeDelay = NITRO_RECHARGE_DELAY;
+      return;
+    }
+    
+    this.boosting = false;
+    if (this.nitroRechargeDelay > 0) {
+      this.nitroRechargeDelay -= deltaTime;
+    } else {
+      this.nitro = Math.min(1, this.nitro + NITRO_RECHARGE_RATE * deltaTime);
+    }
+  }
+  
+  /**
+   * Feed the pedals and road speed to the gearbox
+   * @param deltaTime Fixed step length
+   */
+  private updateGearbox(deltaTime: number): void {
+    const reversing = this.controls.backward && this.velocity < 0.5;
+    const throttle = this.controls.forward || reversing ? 1 : 0;
+    this.gearbox.update(deltaTime, this.velocity, throttle, reversing, !this.wrecked);
+  }
+  
+  /**
+   * Read speed and heading back from the chassis of a raycast car
+   */
+  private syncFromChassis(): void {
+    const forward = this.body.quaternion.vmult(new CANNON.Vec3(0, 0, 1));
+    this.direction = Math.atan2(forward.x, forward.z);
+    this.velocity = this.body.velocity.dot(forward);
+  }
+  
+  /**
+   * Update speed and heading from the driver input
+   * @param controlState Driver input
+   * @param deltaTime Time step
+   */
+  private integrateControls(controlState: VehicleControlState, deltaTime: number): void {
+    // A wrecked car only rolls to a stop
+    if (this.wrecked) {
+      this.velocity *= Math.exp(-WRECK_DRAG * deltaTime);
+      if (Math.abs(this.velocity) < 0.1) {
+        this.velocity = 0;
+      }
+      return;
+    }
+    
+    // Damage reduces the available performance, and loose ground the traction and steering
+    const grip = this.getSurfaceGrip();
+    const acceleration = this.getEffectiveAcceleration() * grip;
+    const turnSpeed = this.getEffectiveTurnSpeed() * (0.5 + 0.5 * grip);
+    const maxSpeed = this.getEffectiveMaxSpeed();
+    
     // Apply acceleration
     if (controlState.forward) {
-      this.velocity += this.acceleration * 0.016; // Rough approximation of deltaTime
+      this.velocity += acceleration * deltaTime;
     }
     
     // Apply braking or reverse
     if (controlState.backward) {
       if (this.velocity > 0) {
-        this.velocity -= this.brakeForce * 0.016;
+        this.velocity -= this.brakeForce * deltaTime;
       } else {
-        this.velocity -= this.acceleration * 0.016;
+        this.velocity -= acceleration * deltaTime;
       }
     }
     
     if (controlState.left) {
-      this.direction += this.turnSpeed ;
+      this.direction += turnSpeed * deltaTime;
     }
     
     if (controlState.right) {
-      this.direction -= this.turnSpeed;
+      this.direction -= turnSpeed * deltaTime;
     }
     
     // Apply handbrake
     if (controlState.handbrake) {
-      this.velocity *= 0.9; // Quick deceleration
+      this.velocity *= Math.exp(-HANDBRAKE_DRAG * deltaTime); // Quick deceleration
     }
     
     // Apply regular brake
     if (controlState.brake) {
       if (this.velocity > 0) {
-        this.velocity -= this.brakeForce * 0.016;
+        this.velocity -= this.brakeForce * deltaTime;
       } else if (this.velocity < 0) {
-        this.velocity += this.brakeForce * 0.016;
+        this.velocity += this.brakeForce * deltaTime;
       }
     }
     
-    // Clamp velocity to max speed
-    this.velocity = Math.max(Math.min(this.velocity, this.maxSpeed), -this.maxSpeed / 2);
+    // Clamp velocity to max speed; speed above it (after a boost) bleeds off gradually
+    const overspeedLimit = Math.max(maxSpeed, this.velocity - this.brakeForce * deltaTime);
+    this.velocity = Math.max(Math.min(this.velocity, overspeedLimit), -maxSpeed / 2);
     
     // Apply natural deceleration when no inputs
     if (!controlState.forward && !controlState.backward) {
       if (Math.abs(this.velocity) < 0.1) {
         this.velocity = 0;
       } else {
-        this.velocity *= 0.98; // Gradual slowdown
+        this.velocity *= Math.exp(-COAST_DRAG * deltaTime); // Gradual slowdown
       }
     }
+    
+    // Soft ground holds the car back
+    this.velocity *= Math.exp(-this.getSurfaceDrag() * deltaTime);
+  }
+  
+  /**
+   * Set how to find the surface under a wheel, e.g. from the city layout
+   * Cars without one drive as if on asphalt everywhere
+   * @param query Returns the surface at a world position
+   */
+  public setSurfaceQuery(query: SurfaceQuery): void {
+    this.surfaceQuery = query;
+  }
+  
+  /**
+   * Look up the surface under each wheel
+   */
+  private updateSurfaces(): void {
+    if (!this.surfaceQuery) return;
+    
+    const contactPoints = this.getWheelContactPoints();
+    for (let i = 0; i < contactPoints.length; i++) {
+      this.wheelSurfaces[i] = this.surfaceQuery(contactPoints[i]);
+    }
+  }
+  
+  /**
+   * Get the average grip of the surfaces under the wheels
+   * @returns Grip relative to asphalt
+   */
+  private getSurfaceGrip(): number {
+    const total = this.wheelSurfaces.reduce((sum, surface) => sum + surfaceDefinitions[surface].grip, 0);
+    return total / this.wheelSurfaces.length;
+  }
+  
+  /**
+   * Get the average rolling drag of the surfaces under the wheels
+   * @returns Extra slowdown per second
+   */
+  private getSurfaceDrag(): number {
+    const total = this.wheelSurfaces.reduce((sum, surface) => sum + surfaceDefinitions[surface].rollingDrag, 0);
+    return total / this.wheelSurfaces.length;
+  }
+  
+  /**
+   * Get where the tyres touch the ground
+   * @returns World positions: front left, front right, rear left, rear right
+   */
+  public getWheelContactPoints(): THREE.Vector3[] {
+    return wheelContactOffsets.map(offset => {
+      const point = this.body.pointToWorldFrame(offset);
+      return new THREE.Vector3(point.x, Math.max(0, point.y), point.z);
+    });
+  }
+  
+  /**
+   * Get the surface under each wheel
+   * @returns Surfaces: front left, front right, rear left, rear right
+   */
+  public getWheelSurfaces(): SurfaceType[] {
+    return [...this.wheelSurfaces];
   }
   
   /**
-   * Update vehicle position and rotation
+   * Sync the visuals with the physics body; the driving itself happens
+   * on the fixed physics step
    * @param deltaTime Time since last update
    */
   public update(deltaTime: number): void {
-    // Apply physics behavior to update the velocity based on direction
-    const quaternion = new CANNON.Quaternion();
-    quaternion.setFromAxisAngle(new CANNON.Vec3(0, 1, 0), this.direction);
-    this.body.quaternion = quaternion;
-    
-    // Calculate direction vector
-    const directionVector = new THREE.Vector3(
-      Math.sin(this.direction), 
-      0, 
-      Math.cos(this.direction)
-    );
-    
-    // Scale by velocity
-    directionVector.multiplyScalar(this.velocity);
-    
-    // Apply velocity to the physics body to make the car move
-    this.body.velocity.x = directionVector.x;
-    this.body.velocity.z = directionVector.z;
-    
-    // Keep vertical velocity from physics for gravity effects
-    // But clamp it to prevent sinking too far or flying too high
-    this.body.velocity.y = Math.max(-10, Math.min(this.body.velocity.y, 10));
-    
-    // Ensure car doesn't sink below ground or fly too high
-    if (this.body.position.y < 0.5) { // 0.5 is half the car's height
-      this.body.position.y = 0.5;
-      this.body.velocity.y = 0;
+    if (this.raycastDrive) {
+      this.syncFromChassis();
     }
     
-    // Make sure the body is active
-    this.body.wakeUp();
-    
     // Update physics position to the mesh
     const position = this.body.position;
     this.mesh.position.set(position.x, position.y, position.z);
     
     // Update model position if loaded
     if (this.carModel) {
-      // Apply position from physics to model's x and z
-      this.carModel.position.x = position.x;
-      this.carModel.position.z = position.z;
-      // Keep the y-position adjustment we made earlier (calculated from position.y)
-      this.carModel.position.y = position.y - 0.5; // Half the car's physical height, matches initial offset
+      // Place the model's ground level below the body: half the car's physical height,
+      // or the ride height on the suspension for raycast cars
+      const groundOffset = this.raycastDrive ? this.raycastDrive.getRideHeight() : 0.5;
+      const offset = this.body.quaternion.vmult(new CANNON.Vec3(0, -groundOffset, 0));
+      this.carModel.position.set(position.x + offset.x, position.y + offset.y, position.z + offset.z);
       
       // Apply rotation from physics to the model
       // But keep initial rotation offset (PI around Y axis) we applied
@@ -516,8 +805,16 @@ export class Vehicle {
           wheel.rotation.x += rotationSpeed;
         });
       }
+      
+      // Steer the front wheels and move all of them with the suspension
+      if (this.raycastDrive) {
+        this.syncWheelsToSuspension();
+      }
     }
     
+    // Animate parts that have broken off
+    this.updateLooseParts(deltaTime);
+    
     // Update rotation from physics for the placeholder mesh
     const bodyQuaternion = this.body.quaternion;
     this.mesh.quaternion.set(
@@ -536,6 +833,367 @@ export class Vehicle {
     
     // Update last position
     this.lastPosition.copy(pos);
+    
+    this.updateSurfaces();
+    this.updateEngineSound();
+  }
+  
+  /**
+   * Give the car its own engine sound, placed in the world; used for cars other than the player's
+   */
+  public enableEngineSound(): void {
+    if (this.engineSoundHandle !== null) return;
+    this.engineSoundHandle = AudioManager.getInstance().createPositionalLoop('engine', 0.5);
+  }
+  
+  /**
+   * Move the engine sound with the car and pitch it up with speed
+   */
+  private updateEngineSound(): void {
+    if (this.engineSoundHandle === null) return;
+    
+    const audioManager = AudioManager.getInstance();
+    if (this.wrecked) {
+      audioManager.stopPositionalLoop(this.engineSoundHandle);
+      this.engineSoundHandle = null;
+      return;
+    }
+    
+    // Pitch follows the revs
+    const rate = 0.6 + this.gearbox.getRpm() / REDLINE_RPM * 0.9;
+    const velocity = new THREE.Vector3(this.body.velocity.x, this.body.velocity.y, this.body.velocity.z);
+    audioManager.updatePositionalLoop(this.engineSoundHandle, this.mesh.position, velocity, rate);
+  }
+  
+  /**
+   * Match the model's wheels to the simulated wheels of a raycast car
+   */
+  private syncWheelsToSuspension(): void {
+    if (!this.raycastDrive) return;
+    
+    for (const wheel of this.wheels) {
+      const state = this.raycastDrive.getWheelState(wheel.name);
+      if (!state) continue;
+      
+      // Remember the modelled pose the first time round
+      if (wheel.userData.restY === undefined) {
+        wheel.userData.restY = wheel.position.y;
+        wheel.userData.restYaw = wheel.rotation.y;
+        wheel.rotation.order = 'YXZ'; // Steer, then spin
+      }
+      
+      wheel.rotation.y = wheel.userData.restYaw + state.steering;
+      wheel.position.y = wheel.userData.restY - state.extension / this.spec.modelScale;
+    }
+  }
+  
+  /**
+   * Apply collision damage to the vehicle
+   * @param impactVelocity Impact velocity along the contact normal
+   * @param impactPoint World position of the impact
+   * @param multiplier Damage multiplier for the type of object hit
+   */
+  public applyDamage(impactVelocity: number, impactPoint: THREE.Vector3, multiplier: number = 1): void {
+    if (this.wrecked) return;
+    
+    // Work out which side of the car took the hit
+    const zone = this.getImpactZone(impactPoint);
+    if (zone === DamageZone.FRONT && this.frontArmour) {
+      multiplier *= ARMOURED_FRONT_FACTOR;
+    }
+    
+    const damage = (impactVelocity - DAMAGE_IMPACT_THRESHOLD) * DAMAGE_PER_IMPACT_UNIT * multiplier / this.spec.durability;
+    if (damage <= 0) return;
+    
+    this.zoneDamage[zone] = Math.min(100, this.zoneDamage[zone] + damage);
+    this.health = Math.max(0, this.health - damage);
+    
+    // Hard impacts absorb most of the car's momentum; raycast cars are moved by
+    // their wheels, so slow the chassis itself
+    const slowdown = Math.max(0.2, 1 - damage / 40);
+    if (this.raycastDrive) {
+      this.body.velocity.x *= slowdown;
+      this.body.velocity.z *= slowdown;
+    } else {
+      this.velocity *= slowdown;
+    }
+    
+    // Visual feedback
+    this.dentModel(impactPoint, Math.min(0.3, damage / 100));
+    if (this.zoneDamage[zone] >= DETACH_ZONE_DAMAGE && !this.detachedZones.has(zone)) {
+      this.detachZoneParts(zone);
+    }
+    
+    if (this.health <= 0) {
+      this.wrecked = true;
+      console.log('Vehicle wrecked!');
+    }
+  }
+  
+  /**
+   * Bounce away from an impact instead of taking damage
+   * @param impactPoint World position of the impact
+   * @param impactVelocity Impact velocity along the contact normal
+   */
+  public bounceOff(impactPoint: THREE.Vector3, impactVelocity: number): void {
+    if (this.wrecked) return;
+    
+    if (this.raycastDrive) {
+      // Push the chassis away from the impact
+      const away = this.mesh.position.clone().sub(impactPoint);
+      away.y = 0;
+      if (away.lengthSq() === 0) return;
+      away.normalize().multiplyScalar(impactVelocity * (1 + BOUNCE_RESTITUTION));
+      this.body.velocity.x += away.x;
+      this.body.velocity.z += away.z;
+    } else {
+      // Arcade cars keep their heading, so send them back the way they came
+      this.velocity = -this.velocity * BOUNCE_RESTITUTION;
+    }
+    this.body.velocity.y = BOUNCE_LIFT;
+  }
+  
+  /**
+   * Fix some of the damage; parts that have fallen off stay off
+   * @param amount Health to restore
+   */
+  public repair(amount: number): void {
+    if (this.wrecked) return;
+    
+    const previousHealth = this.health;
+    this.health = Math.min(100, this.health + amount);
+    
+    // Zone damage is reduced in proportion to the repair
+    const repaired = previousHealth < 100 ? (this.health - previousHealth) / (100 - previousHealth) : 0;
+    for (const zone of Object.values(DamageZone)) {
+      this.zoneDamage[zone] *= 1 - repaired;
+    }
+  }
+  
+  /**
+   * Top up the nitro tank
+   * @param amount Share of a full tank to add (0-1)
+   */
+  public refillNitro(amount: number): void {
+    this.nitro = Math.min(1, this.nitro + amount);
+  }
+  
+  /**
+   * Get how much nitro is left
+   * @returns Tank level from 0 to 1
+   */
+  public getNitro(): number {
+    return this.nitro;
+  }
+  
+  /**
+   * Check whether nitro is being burnt
+   * @returns True while boosting
+   */
+  public isBoosting(): boolean {
+    return this.boosting;
+  }
+  
+  /**
+   * Fit or remove the armoured bumper, which shrugs off most frontal damage
+   * @param enabled Whether the bumper is fitted
+   */
+  public setFrontArmour(enabled: boolean): void {
+    this.frontArmour = enabled;
+  }
+  
+  /**
+   * Determine which damage zone an impact point belongs to
+   * @param impactPoint World position of the impact
+   * @returns Damage zone
+   */
+  private getImpactZone(impactPoint: THREE.Vector3): DamageZone {
+    // Transform the impact point into the vehicle's local frame (forward is +z, left is +x)
+    const local = impactPoint.clone().sub(this.mesh.position);
+    local.applyAxisAngle(new THREE.Vector3(0, 1, 0), -this.direction);
+    
+    // The body is twice as long as it is wide, so scale before comparing
+    if (Math.abs(local.z) / 2 >= Math.abs(local.x)) {
+      return local.z >= 0 ? DamageZone.FRONT : DamageZone.REAR;
+    }
+    return local.x >= 0 ? DamageZone.LEFT : DamageZone.RIGHT;
+  }
+  
+  /**
+   * Push the body panel vertices inwards around an impact point
+   * @param impactPoint World position of the impact
+   * @param depth Maximum dent depth in model units
+   */
+  private dentModel(impactPoint: THREE.Vector3, depth: number): void {
+    if (!this.carModel) return;
+    
+    const bodyPart = this.carModel.getObjectByName('body');
+    if (!(bodyPart instanceof THREE.Mesh)) return;
+    
+    // Give the body its own geometry before the first dent so clones are not affected
+    if (!bodyPart.userData.hasOwnGeometry) {
+      bodyPart.geometry = bodyPart.geometry.clone();
+      bodyPart.userData.hasOwnGeometry = true;
+    }
+    
+    const geometry = bodyPart.geometry as THREE.BufferGeometry;
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    
+    // Work in the body mesh's local space
+    this.carModel.updateMatrixWorld(true);
+    const localImpact = bodyPart.worldToLocal(impactPoint.clone());
+    geometry.computeBoundingBox();
+    const center = new THREE.Vector3();
+    geometry.boundingBox!.getCenter(center);
+    
+    // Dents push towards the middle of the car, keeping the original height
+    const inward = center.clone().sub(localImpact);
+    inward.y = 0;
+    if (inward.lengthSq() === 0) return;
+    inward.normalize();
+    
+    // Clamp the impact to the body surface so contacts slightly outside still dent
+    const box = geometry.boundingBox!;
+    localImpact.clamp(box.min, box.max);
+    
+    const vertex = new THREE.Vector3();
+    let changed = false;
+    for (let i = 0; i < positions.count; i++) {
+      vertex.fromBufferAttribute(positions, i);
+      const distance = vertex.distanceTo(localImpact);
+      if (distance < DENT_RADIUS) {
+        const falloff = 1 - distance / DENT_RADIUS;
+        vertex.addScaledVector(inward, depth * falloff);
+        positions.setXYZ(i, vertex.x, vertex.y, vertex.z);
+        changed = true;
+      }
+    }
+    
+    if (changed) {
+      positions.needsUpdate = true;
+      geometry.computeVertexNormals();
+    }
+  }
+  
+  /**
+   * Break off the model parts belonging to a badly damaged zone
+   * @param zone Damage zone
+   */
+  private detachZoneParts(zone: DamageZone): void {
+    if (!this.carModel) return;
+    this.detachedZones.add(zone);
+    
+    // Direction the parts fly off in (away from the car on the damaged side)
+    const outward = new THREE.Vector3(
+      zone === DamageZone.LEFT ? 1 : zone === DamageZone.RIGHT ? -1 : 0,
+      0,
+      zone === DamageZone.FRONT ? 1 : zone === DamageZone.REAR ? -1 : 0
+    ).applyAxisAngle(new THREE.Vector3(0, 1, 0), this.direction);
+    
+    for (const partName of detachableParts[zone]) {
+      const part = this.carModel.getObjectByName(partName);
+      if (!part) continue;
+      
+      // Move the part into world space so it keeps its current transform
+      this.scene.attach(part);
+      
+      this.looseParts.push({
+        object: part,
+        velocity: outward.clone().multiplyScalar(3 + Math.random() * 3).add(
+          new THREE.Vector3(0, 3 + Math.random() * 2, 0)
+        ),
+        spin: new THREE.Vector3(Math.random() * 6, Math.random() * 6, Math.random() * 6)
+      });
+    }
+  }
+  
+  /**
+   * Move detached parts until they come to rest on the ground
+   * @param deltaTime Time since last update
+   */
+  private updateLooseParts(deltaTime: number): void {
+    for (const part of this.looseParts) {
+      if (part.velocity.lengthSq() === 0) continue;
+      
+      part.velocity.y -= 9.81 * deltaTime;
+      part.object.position.addScaledVector(part.velocity, deltaTime);
+      part.object.rotation.x += part.spin.x * deltaTime;
+      part.object.rotation.y += part.spin.y * deltaTime;
+      part.object.rotation.z += part.spin.z * deltaTime;
+      
+      // Settle on the ground
+      if (part.object.position.y <= 0.1) {
+        part.object.position.y = 0.1;
+        part.velocity.set(0, 0, 0);
+      }
+    }
+  }
+  
+  /**
+   * Get top speed after damage to the front of the car and any boost
+   * @returns Effective maximum speed
+   */
+  private getEffectiveMaxSpeed(): number {
+    return this.maxSpeed * (1 - 0.5 * this.zoneDamage[DamageZone.FRONT] / 100) * this.getBoostMultiplier();
+  }
+  
+  /**
+   * Get acceleration after damage to the rear of the car, any boost, and gear shifts or the rev limiter
+   * @returns Effective acceleration
+   */
+  private getEffectiveAcceleration(): number {
+    return this.acceleration * (1 - 0.4 * this.zoneDamage[DamageZone.REAR] / 100) * this.getBoostMultiplier()
+      * this.gearbox.getDriveFactor();
+  }
+  
+  /**
+   * Get the performance multiplier from nitro
+   * @returns Multiplier on top speed and acceleration
+   */
+  private getBoostMultiplier(): number {
+    return this.boosting ? NITRO_BOOST : 1;
+  }
+  
+  /**
+   * Get steering rate after damage to the sides of the car
+   * @returns Effective turn speed
+   */
+  private getEffectiveTurnSpeed(): number {
+    const sideDamage = (this.zoneDamage[DamageZone.LEFT] + this.zoneDamage[DamageZone.RIGHT]) / 2;
+    return this.turnSpeed * (1 - 0.5 * sideDamage / 100);
+  }
+  
+  /**
+   * Get the catalog entry the car was built from
+   * @returns Vehicle spec
+   */
+  public getSpec(): VehicleSpec {
+    return this.spec;
+  }
+  
+  /**
+   * Get overall vehicle health
+   * @returns Health from 0 to 100
+   */
+  public getHealth(): number {
+    return this.health;
+  }
+  
+  /**
+   * Get damage for a single zone
+   * @param zone Damage zone
+   * @returns Damage from 0 to 100
+   */
+  public getZoneDamage(zone: DamageZone): number {
+    return this.zoneDamage[zone];
+  }
+  
+  /**
+   * Check whether the vehicle has been wrecked
+   * @returns True once health reaches zero
+   */
+  public isWrecked(): boolean {
+    return this.wrecked;
   }
   
   /**
@@ -554,6 +1212,14 @@ export class Vehicle {
     return Math.abs(this.velocity);
   }
   
+  /**
+   * Get the gearbox, for the revs, gear and shift events
+   * @returns Gearbox
+   */
+  public getGearbox(): Gearbox {
+    return this.gearbox;
+  }
+  
   /**
    * Get current direction
    * @returns Direction in radians
@@ -586,10 +1252,23 @@ export class Vehicle {
     return this.mesh;
   }
   
+  /**
+   * Get the visible car model
+   * @returns Loaded or fallback model, null while it is still loading
+   */
+  public getModel(): THREE.Object3D | null {
+    return this.carModel;
+  }
+  
   /**
    * Dispose of all resources
    */
   public dispose(): void {
+    if (this.engineSoundHandle !== null) {
+      AudioManager.getInstance().stopPositionalLoop(this.engineSoundHandle);
+      this.engineSoundHandle = null;
+    }
+    
     if (this.carModel) {
       this.scene.remove(this.carModel);
     }
@@ -598,6 +1277,10 @@ export class Vehicle {
       this.scene.remove(this.tempMesh);
     }
     
+    // Remove parts that broke off
+    this.looseParts.forEach(part => this.scene.remove(part.object));
+    this.looseParts = [];
+    
     this.scene.remove(this.mesh);
     
     if (this.debugHelper) {
@@ -609,23 +1292,33 @@ export class Vehicle {
       this.dracoLoader.dispose();
     }
     
+    this.physicsWorld.unregisterFixedStepCallback(this.fixedStepCallback);
+    if (this.raycastDrive) {
+      this.raycastDrive.dispose();
+    }
     this.physicsWorld.removeBody(this.body);
   }
   
   /**
-   * Creates a Ferrari-like car directly with Three.js geometries as a fallback
-   * if the model fails to load
+   * Creates a simple car directly with Three.js geometries, used for cars
+   * without a model and as a fallback if the model fails to load
    */
   private createFallbackCar(): void {
-    console.log('Creating fallback Ferrari car model');
+    console.log(`Creating box car model for ${this.spec.name}`);
+    
+    // Replace the temporary mesh
+    if (this.tempMesh) {
+      this.scene.remove(this.tempMesh);
+      this.tempMesh = null;
+    }
     
     // Create a group to hold all car parts
     const carGroup = new THREE.Group();
     this.carModel = carGroup;
     
-    // Car body - red with metallic finish
+    // Car body - metallic finish in the paint color
     const bodyMaterial = new THREE.MeshPhysicalMaterial({
-      color: 0xff0000,
+      color: this.paintColor,
       metalness: 0.8,
       roughness: 0.2,
       clearcoat: 1.0,
@@ -722,7 +1415,8 @@ export class Vehicle {
     shadow.renderOrder = 2;
     carGroup.add(shadow);
     
-    // Position the car
+    // Scale and position the car
+    carGroup.scale.setScalar(this.spec.modelScale);
     if (this.mesh) {
       carGroup.position.copy(this.mesh.position);
       // Fix the height offset for the fallback car too
@@ -735,6 +1429,6 @@ export class Vehicle {
     // Model is now loaded
     this.modelLoaded = true;
     
-    console.log('Fallback Ferrari car created successfully');
+    console.log('Box car created successfully');
   }
 }
@@ -0,0 +1,147 @@
+// How a car is simulated
+export enum DrivingModel {
+  ARCADE = 'arcade',   // Velocity set directly from the input, always grips
+  RAYCAST = 'raycast'  // Raycast wheels with suspension, tyre grip and drifting
+}
+
+// Suspension and tyre setup for the raycast driving model
+export interface RaycastTuning {
+  suspensionStiffness: number;
+  suspensionTravel: number;  // Metres
+  grip: number;              // Tyre friction before the wheel slides
+  rollInfluence: number;     // 0 = no body roll, 1 = full
+}
+
+// Configuration of a drivable car
+export interface VehicleSpec {
+  id: string;
+  name: string;
+  description: string;
+  modelPath: string | null;         // GLB model, or null for the built-in box car
+  shadowTexturePath: string | null; // Baked ground shadow for the model
+  modelScale: number;
+  mass: number;
+  maxSpeed: number;                 // Metres per second
+  acceleration: number;             // Metres per second squared
+  turnSpeed: number;                // Radians per second
+  brakeForce: number;
+  durability: number;               // Damage taken is divided by this
+  paintColor: number;
+  drivingModel: DrivingModel;
+  raycastTuning?: RaycastTuning;    // Required for the raycast model
+  unlockScore: number;              // Career points needed to drive it, 0 if available from the start
+}
+
+// Car used when nothing else is selected
+export const DEFAULT_VEHICLE_ID = 'ferrari';
+
+// Available cars, in menu order
+export const vehicles: VehicleSpec[] = [
+  {
+    id: 'ferrari',
+    name: 'Ferrari',
+    description: 'Quick and nimble. The classic choice.',
+    modelPath: 'assets/models/ferrari.glb',
+    shadowTexturePath: 'assets/models/ferrari_ao.png',
+    modelScale: 1.0,
+    mass: 100,
+    maxSpeed: 55,
+    acceleration: 10,
+    turnSpeed: 1.8,
+    brakeForce: 15,
+    durability: 1.0,
+    paintColor: 0xff0000,
+    unlockScore: 0,
+    drivingModel: DrivingModel.ARCADE
+  },
+  {
+    id: 'interceptor',
+    name: 'Interceptor',
+    description: 'Tuned for top speed, but the bodywork crumples easily.',
+    modelPath: 'assets/models/ferrari.glb',
+    shadowTexturePath: 'assets/models/ferrari_ao.png',
+    modelScale: 1.0,
+    mass: 90,
+    maxSpeed: 65,
+    acceleration: 12,
+    turnSpeed: 1.56,
+    brakeForce: 14,
+    durability: 0.7,
+    paintColor: 0xffcc00,
+    unlockScore: 5000,
+    drivingModel: DrivingModel.ARCADE
+  },
+  {
+    id: 'hatchback',
+    name: 'Hatchback',
+    description: 'Slow on the straights, darts round corners.',
+    modelPath: null,
+    shadowTexturePath: null,
+    modelScale: 0.9,
+    mass: 80,
+    maxSpeed: 42,
+    acceleration: 11,
+    turnSpeed: 2.4,
+    brakeForce: 17,
+    durability: 0.9,
+    paintColor: 0x2277dd,
+    unlockScore: 0,
+    drivingModel: DrivingModel.ARCADE
+  },
+  {
+    id: 'bruiser',
+    name: 'Bruiser',
+    description: 'Heavy and armoured. Hard to get going, harder to stop.',
+    modelPath: null,
+    shadowTexturePath: null,
+    modelScale: 1.15,
+    mass: 180,
+    maxSpeed: 45,
+    acceleration: 7,
+    turnSpeed: 1.32,
+    brakeForce: 12,
+    durability: 1.8,
+    paintColor: 0x556b2f,
+    unlockScore: 10000,
+    drivingModel: DrivingModel.RAYCAST,
+    raycastTuning: {
+      suspensionStiffness: 40,
+      suspensionTravel: 0.25,
+      grip: 2.0,
+      rollInfluence: 0.01
+    }
+  },
+  {
+    id: 'drifter',
+    name: 'Drifter',
+    description: 'Soft springs and loose tyres. Pull the handbrake and hang the tail out.',
+    modelPath: 'assets/models/ferrari.glb',
+    shadowTexturePath: 'assets/models/ferrari_ao.png',
+    modelScale: 1.0,
+    mass: 100,
+    maxSpeed: 55,
+    acceleration: 11,
+    turnSpeed: 1.8,
+    brakeForce: 15,
+    durability: 1.0,
+    paintColor: 0xf0f0f0,
+    unlockScore: 20000,
+    drivingModel: DrivingModel.RAYCAST,
+    raycastTuning: {
+      suspensionStiffness: 28,
+      suspensionTravel: 0.3,
+      grip: 1.4,
+      rollInfluence: 0.05
+    }
+  }
+];
+
+/**
+ * Look up a car by id
+ * @param id Vehicle id
+ * @returns Vehicle spec, or the default car if the id is unknown
+ */
+export function getVehicleSpec(id: string): VehicleSpec {
+  return vehicles.find(vehicle => vehicle.id === id)
+    || vehicles.find(vehicle => vehicle.id === DEFAULT_VEHICLE_ID)!;
+}
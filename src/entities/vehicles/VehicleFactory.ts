@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { PhysicsWorld } from '../../core/physics/PhysicsWorld';
 import { Vehicle } from './Vehicle';
+import { DEFAULT_VEHICLE_ID, getVehicleSpec } from './VehicleCatalog';
 
 /**
  * Factory class for creating vehicle instances
@@ -11,13 +12,15 @@ export class VehicleFactory {
    * @param scene THREE.js scene
    * @param physicsWorld Physics world
    * @param position Initial position
+   * @param vehicleId Catalog id of the car to build
    * @returns Vehicle instance
    */
   public static createVehicle(
     scene: THREE.Scene,
     physicsWorld: PhysicsWorld,
-    position: THREE.Vector3 = new THREE.Vector3(0, 1, 0)
+    position: THREE.Vector3 = new THREE.Vector3(0, 1, 0),
+    vehicleId: string = DEFAULT_VEHICLE_ID
   ): Vehicle {
-    return new Vehicle(scene, physicsWorld, position);
+    return new Vehicle(scene, physicsWorld, position, getVehicleSpec(vehicleId));
   }
 }
@@ -1,5 +1,8 @@
 import { Engine } from '../core/Engine';
 import { GameMenu } from '../ui/GameMenu';
+import { GameOptions } from './GameOptions';
+import { SaveManager } from './SaveManager';
+import { AudioManager } from '../systems/AudioManager';
 
 /**
  * Main game class that manages the game state and connects the engine with the UI
@@ -10,6 +13,12 @@ export class Game {
   private container: HTMLElement;
   private isGameRunning: boolean = false;
   private isGameInitializing: boolean = false;
+  
+  // Options of the current or most recent session
+  private lastOptions: GameOptions | null = null;
+  
+  // Career progress, unlocks and best scores kept between page loads
+  private saveManager: SaveManager;
 
   /**
    * Constructor
@@ -17,15 +26,21 @@ export class Game {
    */
   constructor(container: HTMLElement) {
     this.container = container;
-    this.gameMenu = new GameMenu(container);
+    this.saveManager = new SaveManager();
+    this.lastOptions = this.saveManager.getLastOptions();
+    AudioManager.getInstance().applySettings(this.saveManager.getSettings().audio);
+    this.gameMenu = new GameMenu(container, this.lastOptions, this.saveManager);
     
     // Setup game menu start callback
-    this.gameMenu.onGameStart(() => {
-      this.startGame();
+    this.gameMenu.onGameStart((options) => {
+      this.startGame(options);
     });
     
     // Listen for back to menu event
     window.addEventListener('backToMenu', this.handleBackToMenu.bind(this));
+    
+    // Listen for restart from the pause menu
+    window.addEventListener('restartGame', this.handleRestart.bind(this));
   }
 
   /**
@@ -38,10 +53,13 @@ export class Game {
 
   /**
    * Start the game after menu
+   * @param options Options selected in the menu
    */
-  private async startGame(): Promise<void> {
+  private async startGame(options: GameOptions): Promise<void> {
     if (this.isGameRunning || this.isGameInitializing) return;
     this.isGameInitializing = true;
+    this.lastOptions = options;
+    this.saveManager.setLastOptions(options);
     
     // Show simple loading indicator
     this.showLoadingIndicator();
@@ -51,7 +69,8 @@ export class Game {
     
     try {
       // Create the 3D engine
-      this.engine = new Engine(this.container);
+      this.engine = new Engine(this.container, options);
+      this.engine.setSaveManager(this.saveManager);
       
       // Initialize and generate city (async operation)
       await this.engine.initialize();
@@ -63,7 +82,7 @@ export class Game {
       this.isGameInitializing = false;
       
       // Log game start
-      console.log('Game started!');
+      console.log(`Game started with seed ${options.seed}!`);
     } catch (error) {
       console.error('Error starting game:', error);
       
@@ -113,11 +132,11 @@ export class Game {
     // Clear container
     this.container.innerHTML = '';
     
-    // Initialize menu
-    this.gameMenu = new GameMenu(this.container);
+    // Initialize menu, offering the previous options again
+    this.gameMenu = new GameMenu(this.container, this.lastOptions, this.saveManager);
     this.gameMenu.initialize();
-    this.gameMenu.onGameStart(() => {
-      this.startGame();
+    this.gameMenu.onGameStart((options) => {
+      this.startGame(options);
     });
   }
   
@@ -127,4 +146,18 @@ export class Game {
   private handleBackToMenu(): void {
     this.stopGame();
   }
+  
+  /**
+   * Handle restart event: play the same options and city seed again
+   */
+  private handleRestart(): void {
+    if (!this.lastOptions) return;
+    
+    if (this.engine) {
+      this.engine.stop();
+    }
+    this.isGameRunning = false;
+    
+    this.startGame(this.lastOptions);
+  }
 } 
\ No newline at end of file
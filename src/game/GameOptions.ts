@@ -0,0 +1,26 @@
+// Game modes selectable in the menu
+export enum GameMode {
+  FREE_ROAM = 'free_roam',
+  MISSION = 'mission',
+  RACE = 'race'
+}
+
+/**
+ * Options chosen in the menu that configure a game session
+ */
+export interface GameOptions {
+  // Seed for the procedural city layout
+  seed: number;
+  
+  // Selected game mode
+  mode: GameMode;
+  
+  // Mission to play in mission mode
+  missionId: string | null;
+  
+  // Number of AI opponent cars
+  opponentCount: number;
+  
+  // Catalog id of the player's car
+  vehicleId: string;
+}
@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+import { CollisionManager, CollisionEvent, CollisionObjectType } from '../systems/CollisionManager';
+import { RoadNetwork } from '../core/environment/RoadNetwork';
+import { MissionDefinition, MissionObjective, ObjectiveType } from './Missions';
+
+// Overall state of a mission
+export enum MissionStatus {
+  IN_PROGRESS = 'in_progress',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+// Runtime progress of a single objective
+export interface ObjectiveProgress {
+  objective: MissionObjective;
+  progress: number;
+  target: number;
+  completed: boolean;
+}
+
+// Minimum impact speed (m/s) that counts as destroying the statue
+const STATUE_DESTROY_VELOCITY = 8;
+
+// Radius around the checkpoint that counts as reaching it
+const CHECKPOINT_RADIUS = 8;
+
+/**
+ * Tracks the objectives and countdown timer of the active mission
+ */
+export class MissionManager {
+  private mission: MissionDefinition;
+  private scene: THREE.Scene;
+
+  private objectives: ObjectiveProgress[];
+  private status: MissionStatus = MissionStatus.IN_PROGRESS;
+  private failureReason: string = '';
+
+  // Seconds left on the clock
+  private timeRemaining: number;
+
+  // Pedestrians already counted (by body id)
+  private killedPedestrians: Set<number> = new Set();
+
+  // Checkpoint location and its marker in the world
+  private checkpointPosition: THREE.Vector3 | null = null;
+  private checkpointMarker: THREE.Mesh | null = null;
+
+  /**
+   * Constructor
+   * @param mission Mission to run
+   * @param scene Scene to place mission markers in
+   * @param collisionManager Collision manager reporting player hits
+   * @param roadNetwork City road network (used to place checkpoints)
+   */
+  constructor(
+    mission: MissionDefinition,
+    scene: THREE.Scene,
+    collisionManager: CollisionManager,
+    roadNetwork: RoadNetwork | null
+  ) {
+    this.mission = mission;
+    this.scene = scene;
+    this.timeRemaining = mission.timeLimit;
+
+    this.objectives = mission.objectives.map(objective => ({
+      objective,
+      progress: 0,
+      target: objective.type === ObjectiveType.KILL_PEDESTRIANS ? (objective.count ?? 1) : 1,
+      completed: false
+    }));
+
+    // Place the checkpoint if any objective needs one
+    const checkpointObjective = mission.objectives.find(o => o.type === ObjectiveType.REACH_CHECKPOINT);
+    if (checkpointObjective) {
+      this.createCheckpoint(checkpointObjective.distance ?? 200, roadNetwork);
+    }
+
+    collisionManager.registerCollisionCallback(this.handleCollision.bind(this));
+  }
+
+  /**
+   * Place the checkpoint at the junction closest to the requested distance from the start
+   * @param distance Preferred distance from the start (metres)
+   * @param roadNetwork City road network
+   */
+  private createCheckpoint(distance: number, roadNetwork: RoadNetwork | null): void {
+    if (roadNetwork) {
+      let best = roadNetwork.getNodes()[0];
+      let bestError = Infinity;
+      for (const node of roadNetwork.getNodes()) {
+        const error = Math.abs(node.position.length() - distance);
+        if (error < bestError) {
+          bestError = error;
+          best = node;
+        }
+      }
+      this.checkpointPosition = best.position.clone();
+    } else {
+      this.checkpointPosition = new THREE.Vector3(distance, 0, 0);
+    }
+
+    // Tall translucent beacon visible from a distance
+    const geometry = new THREE.CylinderGeometry(CHECKPOINT_RADIUS, CHECKPOINT_RADIUS, 40, 24, 1, true);
+    const material = new THREE.MeshBasicMaterial({
+      color: 0x00ff00,
+      transparent: true,
+      opacity: 0.3,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    });
+    this.checkpointMarker = new THREE.Mesh(geometry, material);
+    this.checkpointMarker.position.copy(this.checkpointPosition);
+    this.checkpointMarker.position.y = 20;
+    this.checkpointMarker.name = 'mission-checkpoint';
+    this.scene.add(this.checkpointMarker);
+  }
+
+  /**
+   * Count pedestrian kills and statue hits
+   * @param event Collision event
+   */
+  private handleCollision(event: CollisionEvent): void {
+    if (this.status !== MissionStatus.IN_PROGRESS) return;
+    if (event.targetType !== CollisionObjectType.HUMAN_NPC) return;
+
+    const isStatue = event.target !== null && event.target.userData.isTrumpStatue === true;
+
+    if (isStatue) {
+      if (event.impactVelocity >= STATUE_DESTROY_VELOCITY) {
+        this.advanceObjectives(ObjectiveType.DESTROY_STATUE, 1);
+      }
+    } else if (!this.killedPedestrians.has(event.targetBody.id)) {
+      this.killedPedestrians.add(event.targetBody.id);
+      this.advanceObjectives(ObjectiveType.KILL_PEDESTRIANS, 1);
+    }
+  }
+
+  /**
+   * Add progress to all unfinished objectives of a type
+   * @param type Objective type
+   * @param amount Progress to add
+   */
+  private advanceObjectives(type: ObjectiveType, amount: number): void {
+    for (const entry of this.objectives) {
+      if (entry.completed || entry.objective.type !== type) continue;
+
+      entry.progress = Math.min(entry.target, entry.progress + amount);
+      if (entry.progress >= entry.target) {
+        entry.completed = true;
+        console.log(`Objective complete: ${entry.objective.description}`);
+      }
+    }
+
+    if (this.objectives.every(entry => entry.completed)) {
+      this.status = MissionStatus.SUCCEEDED;
+      this.removeCheckpointMarker();
+    }
+  }
+
+  /**
+   * Update the timer and position-based objectives
+   * @param deltaTime Time since last update (seconds)
+   * @param playerPosition Current position of the player vehicle
+   */
+  public update(deltaTime: number, playerPosition: THREE.Vector3): void {
+    if (this.status !== MissionStatus.IN_PROGRESS) return;
+
+    // Checkpoint reached?
+    if (this.checkpointPosition) {
+      const dx = playerPosition.x - this.checkpointPosition.x;
+      const dz = playerPosition.z - this.checkpointPosition.z;
+      if (dx * dx + dz * dz < CHECKPOINT_RADIUS * CHECKPOINT_RADIUS) {
+        this.advanceObjectives(ObjectiveType.REACH_CHECKPOINT, 1);
+        this.removeCheckpointMarker();
+        this.checkpointPosition = null;
+      }
+    }
+
+    // Gently pulse the beacon
+    if (this.checkpointMarker) {
+      const material = this.checkpointMarker.material as THREE.MeshBasicMaterial;
+      material.opacity = 0.25 + Math.sin(performance.now() / 200) * 0.1;
+    }
+
+    if (this.status !== MissionStatus.IN_PROGRESS) return;
+
+    // Countdown
+    this.timeRemaining = Math.max(0, this.timeRemaining - deltaTime);
+    if (this.timeRemaining === 0) {
+      this.fail('Out of time');
+    }
+  }
+
+  /**
+   * Put extra time on the clock
+   * @param seconds Seconds to add
+   */
+  public addTime(seconds: number): void {
+    if (this.status !== MissionStatus.IN_PROGRESS) return;
+    this.timeRemaining += seconds;
+  }
+
+  /**
+   * Fail the mission
+   * @param reason Reason shown on the failure screen
+   */
+  public fail(reason: string): void {
+    if (this.status !== MissionStatus.IN_PROGRESS) return;
+
+    this.status = MissionStatus.FAILED;
+    this.failureReason = reason;
+    this.removeCheckpointMarker();
+  }
+
+  /**
+   * Remove the checkpoint beacon from the scene
+   */
+  private removeCheckpointMarker(): void {
+    if (!this.checkpointMarker) return;
+
+    this.scene.remove(this.checkpointMarker);
+    this.checkpointMarker.geometry.dispose();
+    (this.checkpointMarker.material as THREE.Material).dispose();
+    this.checkpointMarker = null;
+  }
+
+  /**
+   * Get the mission being played
+   * @returns Mission definition
+   */
+  public getMission(): MissionDefinition {
+    return this.mission;
+  }
+
+  /**
+   * Get the current mission status
+   * @returns Mission status
+   */
+  public getStatus(): MissionStatus {
+    return this.status;
+  }
+
+  /**
+   * Get why the mission failed
+   * @returns Failure reason, empty unless failed
+   */
+  public getFailureReason(): string {
+    return this.failureReason;
+  }
+
+  /**
+   * Get the seconds left on the clock
+   * @returns Remaining time in seconds
+   */
+  public getTimeRemaining(): number {
+    return this.timeRemaining;
+  }
+
+  /**
+   * Get the progress of every objective
+   * @returns Objective progress list
+   */
+  public getObjectives(): ObjectiveProgress[] {
+    return this.objectives;
+  }
+
+  /**
+   * Get the checkpoint the player still has to reach
+   * @returns Checkpoint position, or null if none is active
+   */
+  public getCheckpointPosition(): THREE.Vector3 | null {
+    return this.checkpointPosition;
+  }
+
+  /**
+   * Clean up mission markers
+   */
+  public dispose(): void {
+    this.removeCheckpointMarker();
+  }
+}
@@ -0,0 +1,74 @@
+// Kinds of objectives a mission can contain
+export enum ObjectiveType {
+  KILL_PEDESTRIANS = 'kill_pedestrians',
+  REACH_CHECKPOINT = 'reach_checkpoint',
+  DESTROY_STATUE = 'destroy_statue'
+}
+
+// A single mission objective
+export interface MissionObjective {
+  type: ObjectiveType;
+  description: string;
+  count?: number;     // Pedestrians to wipe out (KILL_PEDESTRIANS)
+  distance?: number;  // Preferred distance of the checkpoint from the start (REACH_CHECKPOINT)
+}
+
+// A mission selectable in the menu
+export interface MissionDefinition {
+  id: string;
+  title: string;
+  briefing: string;
+  timeLimit: number; // Seconds
+  objectives: MissionObjective[];
+}
+
+// Available missions, in menu order
+export const missions: MissionDefinition[] = [
+  {
+    id: 'rush_hour',
+    title: 'Rush Hour',
+    briefing: 'The sidewalks are packed. Thin out the crowd before the clock runs out.',
+    timeLimit: 120,
+    objectives: [
+      { type: ObjectiveType.KILL_PEDESTRIANS, description: 'Wipe out 15 pedestrians', count: 15 }
+    ]
+  },
+  {
+    id: 'special_delivery',
+    title: 'Special Delivery',
+    briefing: 'Get across town to the marked junction. Nobody said you had to use the road.',
+    timeLimit: 60,
+    objectives: [
+      { type: ObjectiveType.REACH_CHECKPOINT, description: 'Reach the checkpoint', distance: 250 }
+    ]
+  },
+  {
+    id: 'monumental',
+    title: 'Monumental',
+    briefing: 'The statue in the central plaza has stood long enough. Hit it hard.',
+    timeLimit: 45,
+    objectives: [
+      { type: ObjectiveType.DESTROY_STATUE, description: 'Destroy the statue' }
+    ]
+  },
+  {
+    id: 'grand_tour',
+    title: 'Grand Tour',
+    briefing: 'A little of everything: some pedestrians, a trip across town and the statue in the plaza.',
+    timeLimit: 150,
+    objectives: [
+      { type: ObjectiveType.KILL_PEDESTRIANS, description: 'Wipe out 5 pedestrians', count: 5 },
+      { type: ObjectiveType.REACH_CHECKPOINT, description: 'Reach the checkpoint', distance: 200 },
+      { type: ObjectiveType.DESTROY_STATUE, description: 'Destroy the statue' }
+    ]
+  }
+];
+
+/**
+ * Look up a mission by id
+ * @param id Mission id
+ * @returns Mission definition, or null if unknown
+ */
+export function getMission(id: string): MissionDefinition | null {
+  return missions.find(mission => mission.id === id) || null;
+}
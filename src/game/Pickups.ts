@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+
+// Kinds of power-up lying around the city
+export enum PickupType {
+  REPAIR = 'repair',
+  NITRO = 'nitro',
+  TIME_BONUS = 'time_bonus',
+  PEDESTRIAN_MAGNET = 'pedestrian_magnet',
+  FROZEN_PEDESTRIANS = 'frozen_pedestrians',
+  BOUNCY_CAR = 'bouncy_car',
+  ARMOURED_BUMPER = 'armoured_bumper'
+}
+
+// What a power-up does and how it looks
+export interface PickupDefinition {
+  type: PickupType;
+  name: string;
+  color: number;
+  duration: number; // Seconds the effect lasts, 0 for instant effects
+  amount?: number;  // Health repaired (REPAIR), seconds added (TIME_BONUS) or share of the tank refilled (NITRO)
+}
+
+// Number of pickups scattered around the city
+export const PICKUP_COUNT = 14;
+
+// A power-up placed in the world
+export interface Pickup {
+  definition: PickupDefinition;
+  position: THREE.Vector3;
+  marker: THREE.Group;
+  respawnTimer: number; // Seconds until it reappears after being collected, 0 while available
+}
+
+// All power-ups
+export const pickupDefinitions: Record<PickupType, PickupDefinition> = {
+  [PickupType.REPAIR]: {
+    type: PickupType.REPAIR,
+    name: 'Repair',
+    color: 0x33ff33,
+    duration: 0,
+    amount: 40
+  },
+  [PickupType.NITRO]: {
+    type: PickupType.NITRO,
+    name: 'Nitro',
+    color: 0x33ccff,
+    duration: 0,
+    amount: 1
+  },
+  [PickupType.TIME_BONUS]: {
+    type: PickupType.TIME_BONUS,
+    name: 'Time Bonus',
+    color: 0xffff33,
+    duration: 0,
+    amount: 15
+  },
+  [PickupType.PEDESTRIAN_MAGNET]: {
+    type: PickupType.PEDESTRIAN_MAGNET,
+    name: 'Pedestrian Magnet',
+    color: 0xff33cc,
+    duration: 10
+  },
+  [PickupType.FROZEN_PEDESTRIANS]: {
+    type: PickupType.FROZEN_PEDESTRIANS,
+    name: 'Frozen Pedestrians',
+    color: 0xccffff,
+    duration: 10
+  },
+  [PickupType.BOUNCY_CAR]: {
+    type: PickupType.BOUNCY_CAR,
+    name: 'Bouncy Car',
+    color: 0xff9933,
+    duration: 15
+  },
+  [PickupType.ARMOURED_BUMPER]: {
+    type: PickupType.ARMOURED_BUMPER,
+    name: 'Armoured Bumper',
+    color: 0x999999,
+    duration: 20
+  }
+};
@@ -0,0 +1,363 @@
+import * as THREE from 'three';
+import { CollisionManager, CollisionEvent, CollisionObjectType } from '../systems/CollisionManager';
+import { RoadNetwork } from '../core/environment/RoadNetwork';
+import { RaceCheckpoint } from '../core/environment/CityGenerator';
+
+// Number of laps to win the race
+export const RACE_LAPS = 3;
+
+// Pedestrians in the city during a race (wiping them all out also wins)
+export const RACE_PEDESTRIANS = 60;
+
+// Ways a race can be won
+export enum RaceResult {
+  NONE = 'none',
+  LAPS_COMPLETED = 'laps_completed',
+  PEDESTRIANS_WASTED = 'pedestrians_wasted'
+}
+
+// Radius around a checkpoint that counts as passing it
+const CHECKPOINT_RADIUS = 9;
+
+// How often the route to the next checkpoint is recalculated (seconds)
+const ROUTE_UPDATE_INTERVAL = 1;
+
+// Checkpoint gate colors
+const NEXT_CHECKPOINT_COLOR = 0x00ff00;
+const OTHER_CHECKPOINT_COLOR = 0xffffff;
+
+// Split time recorded at a checkpoint
+export interface RaceSplit {
+  checkpoint: number;
+  lapTime: number;          // Time into the lap when the checkpoint was passed
+  delta: number | null;     // Difference to the best lap at this checkpoint
+}
+
+/**
+ * Tracks checkpoints, laps and split times of a checkpoint race
+ */
+export class RaceManager {
+  private checkpoints: RaceCheckpoint[];
+  private roadNetwork: RoadNetwork | null;
+
+  // Progress
+  private nextCheckpoint: number = 0;
+  private currentLap: number = 1;
+  private result: RaceResult = RaceResult.NONE;
+
+  // Timing (seconds)
+  private raceTime: number = 0;
+  private lapStartTime: number = 0;
+  private lapTimes: number[] = [];
+  private currentSplits: number[] = [];
+  private bestLapSplits: number[] | null = null;
+  private lastSplit: RaceSplit | null = null;
+
+  // Pedestrians
+  private pedestrianTotal: number = 0;
+  private wastedPedestrians: Set<number> = new Set();
+
+  // Route to the next checkpoint, for the minimap
+  private route: THREE.Vector3[] = [];
+  private routeTimer: number = 0;
+
+  /**
+   * Constructor
+   * @param checkpoints Ordered checkpoint loop
+   * @param collisionManager Collision manager reporting player hits
+   * @param roadNetwork City road network (used for routing)
+   */
+  constructor(
+    checkpoints: RaceCheckpoint[],
+    collisionManager: CollisionManager,
+    roadNetwork: RoadNetwork | null
+  ) {
+    this.checkpoints = checkpoints;
+    this.roadNetwork = roadNetwork;
+
+    collisionManager.registerCollisionCallback(this.handleCollision.bind(this));
+    this.highlightNextCheckpoint();
+  }
+
+  /**
+   * Set the size of the fixed pedestrian population
+   * @param total Size of the pedestrian population
+   */
+  public setPedestrianTotal(total: number): void {
+    this.pedestrianTotal = total;
+  }
+
+  /**
+   * Count pedestrians wasted by the player
+   * @param event Collision event
+   */
+  private handleCollision(event: CollisionEvent): void {
+    if (this.result !== RaceResult.NONE) return;
+    if (event.targetType !== CollisionObjectType.HUMAN_NPC) return;
+
+    // The statue doesn't count as a pedestrian
+    if (event.target && event.target.userData.isTrumpStatue === true) return;
+
+    this.wastedPedestrians.add(event.targetBody.id);
+  }
+
+  /**
+   * Update timers, checkpoint progress and the route
+   * @param deltaTime Time since last update (seconds)
+   * @param playerPosition Current position of the player vehicle
+   * @param livePedestrians Pedestrians still walking around
+   */
+  public update(deltaTime: number, playerPosition: THREE.Vector3, livePedestrians: number): void {
+    if (this.result !== RaceResult.NONE || this.checkpoints.length === 0) return;
+
+    this.raceTime += deltaTime;
+
+    // Rivals and police knock pedestrians down too, so the race ends once nobody is left
+    if (this.pedestrianTotal > 0 && livePedestrians === 0) {
+      this.finish(RaceResult.PEDESTRIANS_WASTED);
+      return;
+    }
+
+    // Checkpoint passed?
+    const checkpoint = this.checkpoints[this.nextCheckpoint];
+    const dx = playerPosition.x - checkpoint.position.x;
+    const dz = playerPosition.z - checkpoint.position.z;
+    if (dx * dx + dz * dz < CHECKPOINT_RADIUS * CHECKPOINT_RADIUS) {
+      this.passCheckpoint();
+      this.routeTimer = 0;
+    }
+
+    // Keep the route up to date as the player drives
+    this.routeTimer -= deltaTime;
+    if (this.routeTimer <= 0) {
+      this.updateRoute(playerPosition);
+      this.routeTimer = ROUTE_UPDATE_INTERVAL;
+    }
+  }
+
+  /**
+   * Record the split at the next checkpoint and advance
+   */
+  private passCheckpoint(): void {
+    const lapTime = this.raceTime - this.lapStartTime;
+    const index = this.currentSplits.length;
+    this.currentSplits.push(lapTime);
+
+    const bestSplit = this.bestLapSplits ? this.bestLapSplits[index] : undefined;
+    this.lastSplit = {
+      checkpoint: this.nextCheckpoint,
+      lapTime,
+      delta: bestSplit !== undefined ? lapTime - bestSplit : null
+    };
+
+    this.nextCheckpoint++;
+
+    // Passing the last gate of the loop completes a lap
+    if (this.nextCheckpoint >= this.checkpoints.length) {
+      this.completeLap(lapTime);
+    }
+
+    this.highlightNextCheckpoint();
+  }
+
+  /**
+   * Finish the current lap
+   * @param lapTime Time of the lap
+   */
+  private completeLap(lapTime: number): void {
+    const bestLap = this.getBestLapTime();
+    this.lapTimes.push(lapTime);
+
+    if (bestLap === null || lapTime < bestLap) {
+      this.bestLapSplits = this.currentSplits;
+    }
+
+    console.log(`Lap ${this.currentLap} completed in ${lapTime.toFixed(2)}s`);
+
+    this.currentSplits = [];
+    this.lapStartTime = this.raceTime;
+    this.nextCheckpoint = 0;
+
+    if (this.currentLap >= RACE_LAPS) {
+      this.finish(RaceResult.LAPS_COMPLETED);
+    } else {
+      this.currentLap++;
+    }
+  }
+
+  /**
+   * End the race
+   * @param result How the race was won
+   */
+  private finish(result: RaceResult): void {
+    this.result = result;
+    this.route = [];
+
+    for (const checkpoint of this.checkpoints) {
+      checkpoint.marker.visible = false;
+    }
+  }
+
+  /**
+   * Color the next checkpoint gate and dim the others
+   */
+  private highlightNextCheckpoint(): void {
+    this.checkpoints.forEach((checkpoint, i) => {
+      const material = checkpoint.marker.userData.material as THREE.MeshStandardMaterial | undefined;
+      if (!material) return;
+
+      const isNext = i === this.nextCheckpoint;
+      material.color.setHex(isNext ? NEXT_CHECKPOINT_COLOR : OTHER_CHECKPOINT_COLOR);
+      material.emissive.setHex(isNext ? 0x005500 : 0x222222);
+      material.opacity = isNext ? 0.9 : 0.4;
+    });
+  }
+
+  /**
+   * Recalculate the road route from the player to the next checkpoint
+   * @param playerPosition Current position of the player vehicle
+   */
+  private updateRoute(playerPosition: THREE.Vector3): void {
+    const target = this.checkpoints[this.nextCheckpoint];
+
+    if (!this.roadNetwork) {
+      this.route = [playerPosition.clone(), target.position.clone()];
+      return;
+    }
+
+    const start = this.roadNetwork.getNearestNode(playerPosition);
+    const path = this.roadNetwork.findPath(start.id, target.nodeId);
+
+    this.route = [playerPosition.clone()];
+    for (const id of path) {
+      this.route.push(this.roadNetwork.getNode(id).position.clone());
+    }
+  }
+
+  /**
+   * Get how the race ended
+   * @returns Race result, NONE while racing
+   */
+  public getResult(): RaceResult {
+    return this.result;
+  }
+
+  /**
+   * Get the lap being driven
+   * @returns Lap number (1-based)
+   */
+  public getCurrentLap(): number {
+    return this.currentLap;
+  }
+
+  /**
+   * Get the index of the next checkpoint
+   * @returns Checkpoint index
+   */
+  public getNextCheckpointIndex(): number {
+    return this.nextCheckpoint;
+  }
+
+  /**
+   * Get the number of checkpoints per lap
+   * @returns Checkpoint count
+   */
+  public getCheckpointCount(): number {
+    return this.checkpoints.length;
+  }
+
+  /**
+   * Get the position of the next checkpoint
+   * @returns Checkpoint position, or null when the race is over
+   */
+  public getNextCheckpointPosition(): THREE.Vector3 | null {
+    if (this.result !== RaceResult.NONE || this.checkpoints.length === 0) return null;
+    return this.checkpoints[this.nextCheckpoint].position;
+  }
+
+  /**
+   * Get the route to the next checkpoint
+   * @returns Route points, starting at the player
+   */
+  public getRoute(): THREE.Vector3[] {
+    return this.route;
+  }
+
+  /**
+   * Get the total race time
+   * @returns Seconds since the start
+   */
+  public getRaceTime(): number {
+    return this.raceTime;
+  }
+
+  /**
+   * Get the time of the lap being driven
+   * @returns Seconds since the lap started
+   */
+  public getCurrentLapTime(): number {
+    return this.raceTime - this.lapStartTime;
+  }
+
+  /**
+   * Get the times of completed laps
+   * @returns Lap times in seconds
+   */
+  public getLapTimes(): number[] {
+    return this.lapTimes;
+  }
+
+  /**
+   * Get the fastest completed lap
+   * @returns Best lap time in seconds, or null if no lap is complete
+   */
+  public getBestLapTime(): number | null {
+    return this.lapTimes.length > 0 ? Math.min(...this.lapTimes) : null;
+  }
+
+  /**
+   * Get the most recent split, clearing it so it is only reported once
+   * @returns Last split, or null if none is pending
+   */
+  public consumeLastSplit(): RaceSplit | null {
+    const split = this.lastSplit;
+    this.lastSplit = null;
+    return split;
+  }
+
+  /**
+   * Get the number of pedestrians wasted
+   * @returns Wasted pedestrian count
+   */
+  public getWastedCount(): number {
+    return this.wastedPedestrians.size;
+  }
+
+  /**
+   * Get the size of the pedestrian population
+   * @returns Pedestrian total
+   */
+  public getPedestrianTotal(): number {
+    return this.pedestrianTotal;
+  }
+
+  /**
+   * Remove the checkpoint gates
+   */
+  public dispose(): void {
+    for (const checkpoint of this.checkpoints) {
+      checkpoint.marker.parent?.remove(checkpoint.marker);
+    }
+  }
+}
+
+/**
+ * Format a time for race displays
+ * @param seconds Time in seconds
+ * @returns Time as m:ss.cc
+ */
+export function formatRaceTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(2).padStart(5, '0')}`;
+}
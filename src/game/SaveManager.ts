@@ -0,0 +1,377 @@
+import { GameOptions, GameMode } from './GameOptions';
+import { GameSettings, createDefaultSettings, copyKeyBindings } from './Settings';
+import { VehicleSpec, vehicles } from '../entities/vehicles/VehicleCatalog';
+
+// Storage key of the saved game
+const SAVE_KEY = 'carmageddon-clone.save';
+
+// Bumped when the save format changes incompatibly
+const SAVE_VERSION = 1;
+
+// Entries kept on each high score table
+export const LEADERBOARD_SIZE = 10;
+
+// Key-value store the save is written to (localStorage in the browser)
+export interface SaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+// Progress carried over between runs
+export interface CareerProgress {
+  totalScore: number;           // Points from every run added up, unlocks cars
+  runsPlayed: number;
+  completedMissions: string[];  // Mission ids
+  racesWon: number;
+}
+
+// Everything that is saved
+export interface SaveData {
+  version: number;
+  career: CareerProgress;
+  unlockedVehicles: string[];                       // Vehicle ids
+  bestScores: Partial<Record<GameMode, number>>;
+  lastOptions: GameOptions | null;                  // Options of the last session, for Continue
+  leaderboards: Record<string, LeaderboardEntry[]>; // High score tables by mode and seed, best first
+  settings: GameSettings;
+}
+
+// What happened during a run
+export interface RunStats {
+  pedestriansHit: number;
+  animalsHit: number;
+  bestCombo: number;
+  topSpeed: number; // Metres per second
+  distance: number; // Metres
+  time: number;     // Seconds
+}
+
+// How a run ended
+export interface RunResult {
+  options: GameOptions;
+  score: number;
+  completed: boolean; // Mission completed or race finished
+  stats: RunStats;
+}
+
+// What a run earned
+export interface RunOutcome {
+  unlockedVehicles: VehicleSpec[];
+  leaderboardRank: number | null; // 1-based place on the high score table, null if it didn't make it
+}
+
+// A run on a high score table
+export interface LeaderboardEntry {
+  score: number;
+  vehicleId: string;
+  missionId: string | null;
+  date: number; // Milliseconds since the epoch
+  stats: RunStats;
+}
+
+/**
+ * Storage that only lives as long as the page, used when localStorage is unavailable
+ */
+export class MemoryStorage implements SaveStorage {
+  private items: Map<string, string> = new Map();
+
+  /**
+   * Read a value
+   * @param key Storage key
+   * @returns Stored value, or null
+   */
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  /**
+   * Write a value
+   * @param key Storage key
+   * @param value Value to store
+   */
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+/**
+ * Loads and saves career progress, unlocked cars, best scores and the last options
+ */
+export class SaveManager {
+  private storage: SaveStorage;
+  private data: SaveData;
+
+  /**
+   * Constructor
+   * @param storage Where to keep the save, localStorage by default
+   */
+  constructor(storage: SaveStorage = SaveManager.getDefaultStorage()) {
+    this.storage = storage;
+    this.data = this.load();
+  }
+
+  /**
+   * Use localStorage when the browser allows it
+   * @returns Storage to save to
+   */
+  private static getDefaultStorage(): SaveStorage {
+    try {
+      if (typeof window !== 'undefined' && window.localStorage) {
+        return window.localStorage;
+      }
+    } catch (error) {
+      console.error('localStorage unavailable, progress will not be kept:', error);
+    }
+    return new MemoryStorage();
+  }
+
+  /**
+   * Create the save of a new player
+   * @returns Empty save
+   */
+  private static createDefaultData(): SaveData {
+    return {
+      version: SAVE_VERSION,
+      career: {
+        totalScore: 0,
+        runsPlayed: 0,
+        completedMissions: [],
+        racesWon: 0
+      },
+      unlockedVehicles: vehicles.filter(vehicle => vehicle.unlockScore === 0).map(vehicle => vehicle.id),
+      bestScores: {},
+      lastOptions: null,
+      leaderboards: {},
+      settings: createDefaultSettings()
+    };
+  }
+
+  /**
+   * Read the save from storage, starting afresh if it is missing or unreadable
+   * @returns Save data
+   */
+  private load(): SaveData {
+    const defaults = SaveManager.createDefaultData();
+
+    try {
+      const json = this.storage.getItem(SAVE_KEY);
+      if (!json) return defaults;
+
+      const saved = JSON.parse(json) as Partial<SaveData>;
+      if (saved.version !== SAVE_VERSION) {
+        console.log(`Ignoring save with version ${saved.version}`);
+        return defaults;
+      }
+
+      // Fill in anything missing so older saves keep working
+      return {
+        ...defaults,
+        ...saved,
+        career: { ...defaults.career, ...saved.career },
+        unlockedVehicles: Array.from(new Set([...defaults.unlockedVehicles, ...(saved.unlockedVehicles || [])])),
+        bestScores: { ...saved.bestScores },
+        leaderboards: { ...saved.leaderboards },
+        settings: {
+          ...defaults.settings,
+          ...saved.settings,
+          audio: {
+            ...defaults.settings.audio,
+            ...saved.settings?.audio,
+            categoryVolumes: { ...defaults.settings.audio.categoryVolumes, ...saved.settings?.audio?.categoryVolumes }
+          },
+          keyBindings: { ...defaults.settings.keyBindings, ...saved.settings?.keyBindings }
+        }
+      };
+    } catch (error) {
+      console.error('Could not read saved game:', error);
+      return defaults;
+    }
+  }
+
+  /**
+   * Write the save to storage
+   */
+  private save(): void {
+    try {
+      this.storage.setItem(SAVE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.error('Could not save game:', error);
+    }
+  }
+
+  /**
+   * Add a finished run to the career, the best score and the high score table, and unlock cars
+   * @param result How the run ended
+   * @returns Cars unlocked and the place on the high score table
+   */
+  public recordRun(result: RunResult): RunOutcome {
+    const career = this.data.career;
+    const mode = result.options.mode;
+
+    career.runsPlayed++;
+    // Negative runs don't take points off the career
+    career.totalScore += Math.max(0, result.score);
+
+    if (result.completed) {
+      if (mode === GameMode.MISSION && result.options.missionId
+          && !career.completedMissions.includes(result.options.missionId)) {
+        career.completedMissions.push(result.options.missionId);
+      } else if (mode === GameMode.RACE) {
+        career.racesWon++;
+      }
+    }
+
+    const best = this.data.bestScores[mode];
+    if (best === undefined || result.score > best) {
+      this.data.bestScores[mode] = result.score;
+    }
+
+    const leaderboardRank = this.addLeaderboardEntry(result);
+
+    // Unlock every car the career has now earned
+    const unlocked = vehicles.filter(vehicle =>
+      !this.data.unlockedVehicles.includes(vehicle.id) && career.totalScore >= vehicle.unlockScore
+    );
+    for (const vehicle of unlocked) {
+      this.data.unlockedVehicles.push(vehicle.id);
+      console.log(`Unlocked ${vehicle.name}`);
+    }
+
+    this.save();
+    return { unlockedVehicles: unlocked, leaderboardRank };
+  }
+
+  /**
+   * Put a run on the high score table of its mode and seed if it is good enough
+   * @param result How the run ended
+   * @returns 1-based place, or null if it didn't make the table
+   */
+  private addLeaderboardEntry(result: RunResult): number | null {
+    const key = SaveManager.getLeaderboardKey(result.options.mode, result.options.seed);
+    const entries = this.data.leaderboards[key] || [];
+
+    const entry: LeaderboardEntry = {
+      score: result.score,
+      vehicleId: result.options.vehicleId,
+      missionId: result.options.missionId,
+      date: Date.now(),
+      stats: { ...result.stats }
+    };
+
+    // Ties go to the earlier run
+    let index = entries.findIndex(existing => result.score > existing.score);
+    if (index === -1) {
+      index = entries.length;
+    }
+    if (index >= LEADERBOARD_SIZE) return null;
+
+    entries.splice(index, 0, entry);
+    this.data.leaderboards[key] = entries.slice(0, LEADERBOARD_SIZE);
+    return index + 1;
+  }
+
+  /**
+   * Get the storage key of a high score table
+   * @param mode Game mode
+   * @param seed City seed
+   * @returns Table key
+   */
+  private static getLeaderboardKey(mode: GameMode, seed: number): string {
+    return `${mode}:${seed}`;
+  }
+
+  /**
+   * Get the high score table of a mode and city
+   * @param mode Game mode
+   * @param seed City seed
+   * @returns Entries, best first
+   */
+  public getLeaderboard(mode: GameMode, seed: number): LeaderboardEntry[] {
+    const entries = this.data.leaderboards[SaveManager.getLeaderboardKey(mode, seed)] || [];
+    return entries.map(entry => ({ ...entry, stats: { ...entry.stats } }));
+  }
+
+  /**
+   * Get the cities that have a high score table in a mode
+   * @param mode Game mode
+   * @returns City seeds, most recently played first
+   */
+  public getLeaderboardSeeds(mode: GameMode): number[] {
+    const prefix = `${mode}:`;
+    const latestRun = (entries: LeaderboardEntry[]) => Math.max(...entries.map(entry => entry.date));
+
+    return Object.keys(this.data.leaderboards)
+      .filter(key => key.startsWith(prefix) && this.data.leaderboards[key].length > 0)
+      .sort((a, b) => latestRun(this.data.leaderboards[b]) - latestRun(this.data.leaderboards[a]))
+      .map(key => parseInt(key.slice(prefix.length), 10));
+  }
+
+  /**
+   * Remember the options of a session so it can be continued later
+   * @param options Options the session was started with
+   */
+  public setLastOptions(options: GameOptions): void {
+    this.data.lastOptions = { ...options };
+    this.save();
+  }
+
+  /**
+   * Get the options of the last session
+   * @returns Options, or null if nothing has been played yet
+   */
+  public getLastOptions(): GameOptions | null {
+    return this.data.lastOptions ? { ...this.data.lastOptions } : null;
+  }
+
+  /**
+   * Get the player's settings
+   * @returns Copy of the settings
+   */
+  public getSettings(): GameSettings {
+    const settings = this.data.settings;
+    return {
+      ...settings,
+      audio: { ...settings.audio, categoryVolumes: { ...settings.audio.categoryVolumes } },
+      keyBindings: copyKeyBindings(settings.keyBindings)
+    };
+  }
+
+  /**
+   * Save the player's settings
+   * @param settings New settings
+   */
+  public setSettings(settings: GameSettings): void {
+    this.data.settings = {
+      ...settings,
+      audio: { ...settings.audio, categoryVolumes: { ...settings.audio.categoryVolumes } },
+      keyBindings: copyKeyBindings(settings.keyBindings)
+    };
+    this.save();
+  }
+
+  /**
+   * Check whether a car can be driven
+   * @param vehicleId Vehicle id
+   * @returns True if unlocked
+   */
+  public isVehicleUnlocked(vehicleId: string): boolean {
+    return this.data.unlockedVehicles.includes(vehicleId);
+  }
+
+  /**
+   * Get the best score reached in a mode
+   * @param mode Game mode
+   * @returns Best score, or null if the mode has not been played
+   */
+  public getBestScore(mode: GameMode): number | null {
+    return this.data.bestScores[mode] ?? null;
+  }
+
+  /**
+   * Get the career progress
+   * @returns Copy of the career progress
+   */
+  public getCareer(): CareerProgress {
+    return { ...this.data.career, completedMissions: [...this.data.career.completedMissions] };
+  }
+}
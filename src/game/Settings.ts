@@ -0,0 +1,147 @@
+import { AudioSettings, SoundCategory } from '../systems/AudioManager';
+import { KeyBindings, ControlAction, DEFAULT_KEY_BINDINGS } from '../core/controls/VehicleControls';
+
+// Graphics quality presets selectable in the settings
+export enum GraphicsQuality {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high'
+}
+
+// Renderer and scene settings of a quality preset
+export interface GraphicsPreset {
+  label: string;
+  maxPixelRatio: number; // Cap on the device pixel ratio
+  shadows: boolean;
+  shadowMapSize: number;
+  drawDistance: number;  // Metres beyond which city objects are hidden
+}
+
+// All graphics presets
+export const graphicsPresets: Record<GraphicsQuality, GraphicsPreset> = {
+  [GraphicsQuality.LOW]: {
+    label: 'Low',
+    maxPixelRatio: 1,
+    shadows: false,
+    shadowMapSize: 512,
+    drawDistance: 150
+  },
+  [GraphicsQuality.MEDIUM]: {
+    label: 'Medium',
+    maxPixelRatio: 1.5,
+    shadows: true,
+    shadowMapSize: 1024,
+    drawDistance: 300
+  },
+  [GraphicsQuality.HIGH]: {
+    label: 'High',
+    maxPixelRatio: 2,
+    shadows: true,
+    shadowMapSize: 2048,
+    drawDistance: 500
+  }
+};
+
+// Names of the driving controls, in settings order
+export const controlLabels: Record<ControlAction, string> = {
+  forward: 'Accelerate',
+  backward: 'Brake / Reverse',
+  left: 'Steer Left',
+  right: 'Steer Right',
+  brake: 'Brake',
+  handbrake: 'Handbrake',
+  boost: 'Nitro'
+};
+
+// Keys used by the game itself that can't be bound to a driving control
+export const RESERVED_KEYS: Record<string, string> = {
+  'Escape': 'Pause',
+  'c': 'Switch Camera'
+};
+
+// Names of the sound groups, in settings order
+export const soundCategoryLabels: Record<SoundCategory, string> = {
+  [SoundCategory.VEHICLE]: 'Vehicles',
+  [SoundCategory.COLLISION]: 'Crashes',
+  [SoundCategory.NPC]: 'Pedestrians & Animals',
+  [SoundCategory.UI]: 'Interface',
+  [SoundCategory.AMBIENT]: 'Ambience',
+  [SoundCategory.MUSIC]: 'Music'
+};
+
+// Player preferences kept between sessions
+export interface GameSettings {
+  audio: AudioSettings;
+  keyBindings: KeyBindings;
+  graphicsQuality: GraphicsQuality;
+}
+
+/**
+ * Create the settings of a new player
+ * @returns Default settings
+ */
+export function createDefaultSettings(): GameSettings {
+  const categoryVolumes = {} as Record<SoundCategory, number>;
+  for (const category of Object.values(SoundCategory)) {
+    categoryVolumes[category] = 1;
+  }
+
+  return {
+    audio: {
+      masterVolume: 0.8,
+      soundEnabled: true,
+      categoryVolumes
+    },
+    keyBindings: copyKeyBindings(DEFAULT_KEY_BINDINGS),
+    graphicsQuality: GraphicsQuality.MEDIUM
+  };
+}
+
+/**
+ * Deep-copy key bindings so edits don't leak into the original
+ * @param bindings Key bindings
+ * @returns Copy of the bindings
+ */
+export function copyKeyBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  for (const action of Object.keys(bindings) as ControlAction[]) {
+    copy[action] = [...bindings[action]];
+  }
+  return copy;
+}
+
+/**
+ * Find what a key is already used for
+ * @param bindings Current key bindings
+ * @param key Key to check (normalized)
+ * @param ignoreAction Control being rebound, whose own keys don't count
+ * @returns Name of the conflicting control, or null if the key is free
+ */
+export function findKeyConflict(bindings: KeyBindings, key: string, ignoreAction: ControlAction): string | null {
+  if (RESERVED_KEYS[key]) {
+    return RESERVED_KEYS[key];
+  }
+
+  for (const action of Object.keys(bindings) as ControlAction[]) {
+    if (action !== ignoreAction && bindings[action].includes(key)) {
+      return controlLabels[action];
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a readable name for a key
+ * @param key Key as stored in the bindings
+ * @returns Display name
+ */
+export function formatKey(key: string): string {
+  const names: Record<string, string> = {
+    ' ': 'Space',
+    'ArrowUp': '↑',
+    'ArrowDown': '↓',
+    'ArrowLeft': '←',
+    'ArrowRight': '→'
+  };
+  return names[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
@@ -1,4 +1,124 @@
-import { Howl, Howler } from 'howler';
+import * as THREE from 'three';
+import { Howl, Howler, PannerAttributes } from 'howler';
+
+// Groups of sounds with their own volume slider
+export enum SoundCategory {
+  VEHICLE = 'vehicle',
+  COLLISION = 'collision',
+  NPC = 'npc',
+  UI = 'ui',
+  AMBIENT = 'ambient',
+  MUSIC = 'music'
+}
+
+// Moods of the adaptive music, from quietest to most intense
+export enum MusicState {
+  CALM = 'calm',
+  CHASE = 'chase',
+  FRENZY = 'frenzy'
+}
+
+// What is going on in the game, for the music to follow
+export interface MusicCues {
+  combo: number;                // Current pedestrian hit streak
+  policeHeat: number;           // 0-1
+  health: number;               // Player's car, 0-100
+  timeRemaining: number | null; // Seconds left on the clock, null without a timer
+}
+
+// Player's audio preferences
+export interface AudioSettings {
+  masterVolume: number; // 0.0 - 1.0
+  soundEnabled: boolean;
+  categoryVolumes: Record<SoundCategory, number>; // 0.0 - 1.0 each
+}
+
+// How sounds placed in the world fade with distance from the listener
+const SPATIAL_PANNER: PannerAttributes = {
+  distanceModel: 'inverse',
+  refDistance: 10,    // Metres within which a sound plays at full volume, about the chase camera distance
+  rolloffFactor: 1,
+  maxDistance: 150,
+  panningModel: 'equalpower'
+};
+
+// Looping sources further away than this are paused until they come back in range (metres)
+const LOOP_AUDIBLE_DISTANCE = 90;
+
+// Doppler shift: speed of sound (m/s), exaggeration so it is noticeable at game speeds, pitch limits
+const SPEED_OF_SOUND = 343;
+const DOPPLER_FACTOR = 2;
+const MIN_DOPPLER_RATE = 0.6;
+const MAX_DOPPLER_RATE = 1.6;
+
+// Listener speeds above this are camera cuts, not movement (m/s)
+const MAX_LISTENER_SPEED = 100;
+
+// A loop of the player's engine recorded at one engine speed
+interface EngineLayer {
+  sound: string; // Vehicle sound name
+  rpm: number;   // Engine speed the sample was recorded at
+}
+
+// Layers of the player's engine, crossfaded by engine speed, lowest first
+const ENGINE_LAYERS: EngineLayer[] = [
+  { sound: 'engine_idle', rpm: 900 },
+  { sound: 'engine_low', rpm: 3000 },
+  { sound: 'engine_high', rpm: 6000 }
+];
+
+// Player's engine loudness, and the share of it left off the throttle
+const ENGINE_VOLUME = 0.7;
+const ENGINE_OFF_LOAD_VOLUME = 0.6;
+
+// Limits on how far a layer is pitched away from the speed it was recorded at
+const MIN_ENGINE_LAYER_RATE = 0.5;
+const MAX_ENGINE_LAYER_RATE = 2;
+
+// Music stems; all the same length and tempo so they stay in step when started together
+const MUSIC_STEMS = ['pad', 'bass', 'drums', 'lead'];
+
+// Volume of each stem in each mood
+const musicMixes: Record<MusicState, Record<string, number>> = {
+  [MusicState.CALM]: { pad: 1, bass: 0.4, drums: 0, lead: 0 },
+  [MusicState.CHASE]: { pad: 0.6, bass: 1, drums: 1, lead: 0 },
+  [MusicState.FRENZY]: { pad: 0.4, bass: 1, drums: 1, lead: 1 }
+};
+
+// Music loudness before the music volume setting
+const MUSIC_VOLUME = 0.5;
+
+// Seconds for a stem to fade fully in or out
+const MUSIC_FADE_TIME = 2;
+
+// Seconds the game has to stay quieter before the music calms down, so it doesn't flicker between moods
+const MUSIC_CALM_DOWN_DELAY = 5;
+
+/**
+ * Pick the mood of the music for what is going on
+ * @param cues Game state
+ * @returns Music state
+ */
+function getMusicStateForCues(cues: MusicCues): MusicState {
+  const timeRunningOut = (seconds: number) => cues.timeRemaining !== null && cues.timeRemaining <= seconds;
+  
+  if (cues.combo >= 5 || cues.policeHeat >= 0.6 || timeRunningOut(10)) {
+    return MusicState.FRENZY;
+  }
+  if (cues.combo >= 3 || cues.policeHeat >= 0.2 || cues.health <= 30 || timeRunningOut(30)) {
+    return MusicState.CHASE;
+  }
+  return MusicState.CALM;
+}
+
+// A looping sound attached to something moving around the world
+interface PositionalLoop {
+  howl: Howl;
+  id: number;
+  category: SoundCategory;
+  volume: number;
+  playing: boolean;
+}
 
 /**
  * Manages all audio for the game using Howler.js
@@ -13,20 +133,45 @@ export class AudioManager {
   private collisionSounds: Map<string, Howl> = new Map();
   private uiSounds: Map<string, Howl> = new Map();
   private ambientSounds: Map<string, Howl> = new Map();
+  private musicSounds: Map<string, Howl> = new Map();
   
-  // Engine sound specific variables
-  private engineSound: Howl | null = null;
-  private engineVolume: number = 0.3;
-  private enginePitch: number = 1.0;
+  // Player's engine: the playing id of each layer, null while stopped
+  private engineLayerIds: number[] | null = null;
   
   // State
   private muted: boolean = false;
   private masterVolume: number = 0.8;
   private soundEnabled: boolean = true;
+  private paused: boolean = false;
+  
+  // Volume of each sound group, on top of the master volume
+  private categoryVolumes: Record<SoundCategory, number> = {
+    [SoundCategory.VEHICLE]: 1,
+    [SoundCategory.COLLISION]: 1,
+    [SoundCategory.NPC]: 1,
+    [SoundCategory.UI]: 1,
+    [SoundCategory.AMBIENT]: 1,
+    [SoundCategory.MUSIC]: 1
+  };
   
   // IDs for looping sounds
   private ambientSoundId: number | null = null;
-  private engineSoundId: number | null = null;
+  private sirenSoundId: number | null = null;
+  
+  // Adaptive music: the playing id and current volume of each stem, and the mood it is heading for
+  private musicIds: Map<string, number> | null = null;
+  private stemVolumes: Map<string, number> = new Map();
+  private musicState: MusicState = MusicState.CALM;
+  private calmDownTimer: number = 0;
+  
+  // Looping sounds placed in the world, by handle
+  private positionalLoops: Map<number, PositionalLoop> = new Map();
+  private nextLoopHandle: number = 1;
+  
+  // Where the listener is and how fast it moves, for distance checks and doppler
+  private listenerPosition: THREE.Vector3 = new THREE.Vector3();
+  private listenerVelocity: THREE.Vector3 = new THREE.Vector3();
+  private hasListenerPosition: boolean = false;
   
   /**
    * Private constructor for singleton pattern
@@ -53,11 +198,25 @@ export class AudioManager {
    * Initialize all game sounds
    */
   private initializeSounds(): void {
-    // Load vehicle sounds
+    // Load vehicle sounds; the single engine loop is for other cars, the player's engine is layered
     this.vehicleSounds.set('engine', new Howl({
       src: ['assets/audio/vehicle/engine.mp3'],
       loop: true,
-      volume: this.engineVolume
+      volume: 0.3
+    }));
+    
+    ENGINE_LAYERS.forEach(layer => {
+      this.vehicleSounds.set(layer.sound, new Howl({
+        src: [`assets/audio/vehicle/${layer.sound}.mp3`],
+        loop: true,
+        volume: 0
+      }));
+    });
+    
+    // Exhaust pop on a gear change
+    this.vehicleSounds.set('shift_pop', new Howl({
+      src: ['assets/audio/vehicle/shift_pop.mp3'],
+      volume: 0.5
     }));
     
     this.vehicleSounds.set('brake', new Howl({
@@ -65,13 +224,29 @@ export class AudioManager {
       volume: 0.6
     }));
     
+    // Tyres sliding over grass or dirt
+    this.vehicleSounds.set('skid_loose', new Howl({
+      src: ['assets/audio/vehicle/skid_loose.mp3'],
+      volume: 0.5
+    }));
+    
     this.vehicleSounds.set('horn', new Howl({
       src: ['assets/audio/vehicle/horn.mp3'],
       volume: 0.7
     }));
     
-    // Cache engine sound for frequent access
-    this.engineSound = this.vehicleSounds.get('engine') || null;
+    // Police siren wail, looped while a pursuit is on
+    this.vehicleSounds.set('siren', new Howl({
+      src: ['assets/audio/vehicle/siren.mp3'],
+      loop: true,
+      volume: 0
+    }));
+    
+    // Nitro whoosh, played when a boost kicks in
+    this.vehicleSounds.set('nitro', new Howl({
+      src: ['assets/audio/vehicle/nitro.mp3'],
+      volume: 0.8
+    }));
     
     // Load collision sounds
     this.collisionSounds.set('human', new Howl({
@@ -148,6 +323,15 @@ export class AudioManager {
       loop: true,
       volume: 0.3
     }));
+    
+    // Load music stems
+    MUSIC_STEMS.forEach(stem => {
+      this.musicSounds.set(stem, new Howl({
+        src: [`assets/audio/music/stem_${stem}.mp3`],
+        loop: true,
+        volume: 0
+      }));
+    });
   }
   
   /**
@@ -159,7 +343,7 @@ export class AudioManager {
     
     const soundObj = this.vehicleSounds.get(sound);
     if (soundObj) {
-      soundObj.play();
+      this.playInCategory(soundObj, SoundCategory.VEHICLE);
     }
   }
   
@@ -167,29 +351,34 @@ export class AudioManager {
    * Play a collision sound
    * @param type Collision type
    * @param volume Optional volume override
+   * @param position Optional world position to play it from
    */
-  public playCollisionSound(type: string, volume?: number): void {
+  public playCollisionSound(type: string, volume?: number, position?: THREE.Vector3): void {
     if (!this.soundEnabled) return;
     
     const soundObj = this.collisionSounds.get(type);
     if (soundObj) {
-      if (volume !== undefined) {
-        soundObj.volume(volume);
+      const id = this.playInCategory(soundObj, SoundCategory.COLLISION, volume);
+      if (position) {
+        this.placeSound(soundObj, id, position);
       }
-      soundObj.play();
     }
   }
   
   /**
    * Play an NPC sound
    * @param type NPC sound type
+   * @param position Optional world position to play it from
    */
-  public playNPCSound(type: string): void {
+  public playNPCSound(type: string, position?: THREE.Vector3): void {
     if (!this.soundEnabled) return;
     
     const soundObj = this.npcSounds.get(type);
     if (soundObj) {
-      soundObj.play();
+      const id = this.playInCategory(soundObj, SoundCategory.NPC);
+      if (position) {
+        this.placeSound(soundObj, id, position);
+      }
     }
   }
   
@@ -202,7 +391,7 @@ export class AudioManager {
     
     const soundObj = this.uiSounds.get(sound);
     if (soundObj) {
-      soundObj.play();
+      this.playInCategory(soundObj, SoundCategory.UI);
     }
   }
   
@@ -218,7 +407,7 @@ export class AudioManager {
     
     const soundObj = this.ambientSounds.get(sound);
     if (soundObj) {
-      this.ambientSoundId = soundObj.play();
+      this.ambientSoundId = this.playInCategory(soundObj, SoundCategory.AMBIENT);
     }
   }
   
@@ -235,46 +424,336 @@ export class AudioManager {
   }
   
   /**
-   * Start engine sound
+   * Start the adaptive music, fading in calm
+   */
+  public startMusic(): void {
+    if (!this.soundEnabled) return;
+    
+    this.stopMusic();
+    
+    this.musicIds = new Map();
+    this.musicSounds.forEach((howl, stem) => {
+      const id = howl.play();
+      howl.volume(0, id);
+      this.musicIds!.set(stem, id);
+      this.stemVolumes.set(stem, 0);
+    });
+    this.musicState = MusicState.CALM;
+    this.calmDownTimer = 0;
+  }
+  
+  /**
+   * Stop the adaptive music
+   */
+  public stopMusic(): void {
+    if (this.musicIds === null) return;
+    
+    this.musicIds.forEach((id, stem) => this.musicSounds.get(stem)?.stop(id));
+    this.musicIds = null;
+  }
+  
+  /**
+   * Move the music towards the mood of the game: it intensifies straight away
+   * and calms down once things have stayed quieter for a while
+   * @param deltaTime Time since last update
+   * @param cues Game state
+   */
+  public updateMusic(deltaTime: number, cues: MusicCues): void {
+    if (this.musicIds === null) return;
+    
+    const moods = Object.values(MusicState);
+    const wanted = getMusicStateForCues(cues);
+    if (moods.indexOf(wanted) > moods.indexOf(this.musicState)) {
+      this.musicState = wanted;
+      this.calmDownTimer = 0;
+    } else if (wanted !== this.musicState) {
+      this.calmDownTimer += deltaTime;
+      if (this.calmDownTimer >= MUSIC_CALM_DOWN_DELAY) {
+        this.musicState = wanted;
+        this.calmDownTimer = 0;
+      }
+    } else {
+      this.calmDownTimer = 0;
+    }
+    
+    // Fade each stem towards its level in the mix
+    const mix = musicMixes[this.musicState];
+    const step = deltaTime / MUSIC_FADE_TIME;
+    this.musicIds.forEach((id, stem) => {
+      const current = this.stemVolumes.get(stem) ?? 0;
+      const target = mix[stem] ?? 0;
+      const volume = current + Math.sign(target - current) * Math.min(Math.abs(target - current), step);
+      this.stemVolumes.set(stem, volume);
+      this.musicSounds.get(stem)?.volume(volume * MUSIC_VOLUME * this.categoryVolumes[SoundCategory.MUSIC], id);
+    });
+  }
+  
+  /**
+   * Start the player's engine sound (silent until the first update)
    */
   public startEngineSound(): void {
-    if (!this.soundEnabled || !this.engineSound) return;
+    if (!this.soundEnabled) return;
     
     // Stop if already playing
     this.stopEngineSound();
     
-    // Start new sound
-    this.engineSoundId = this.engineSound.play();
+    this.engineLayerIds = ENGINE_LAYERS.map(layer => {
+      const howl = this.vehicleSounds.get(layer.sound)!;
+      const id = howl.play();
+      howl.volume(0, id);
+      return id;
+    });
   }
   
   /**
-   * Stop engine sound
+   * Stop the player's engine sound
    */
   public stopEngineSound(): void {
-    if (this.engineSoundId !== null && this.engineSound) {
-      this.engineSound.stop();
-      this.engineSoundId = null;
+    if (this.engineLayerIds === null) return;
+    
+    ENGINE_LAYERS.forEach((layer, index) => {
+      this.vehicleSounds.get(layer.sound)?.stop(this.engineLayerIds![index]);
+    });
+    this.engineLayerIds = null;
+  }
+  
+  /**
+   * Crossfade the engine layers for the engine speed and pitch each towards it
+   * @param rpm Engine speed
+   * @param throttle Accelerator pedal (0-1); the engine sounds harsher on load
+   */
+  public updateEngineSound(rpm: number, throttle: number): void {
+    if (!this.soundEnabled || this.engineLayerIds === null) return;
+    
+    const weights = this.getEngineLayerWeights(rpm);
+    const load = ENGINE_OFF_LOAD_VOLUME + (1 - ENGINE_OFF_LOAD_VOLUME) * throttle;
+    
+    ENGINE_LAYERS.forEach((layer, index) => {
+      const howl = this.vehicleSounds.get(layer.sound);
+      const id = this.engineLayerIds![index];
+      if (!howl) return;
+      
+      // Idle sounds the same on and off the throttle
+      const layerLoad = index === 0 ? 1 : load;
+      howl.volume(ENGINE_VOLUME * weights[index] * layerLoad * this.categoryVolumes[SoundCategory.VEHICLE], id);
+      howl.rate(Math.max(MIN_ENGINE_LAYER_RATE, Math.min(MAX_ENGINE_LAYER_RATE, rpm / layer.rpm)), id);
+    });
+  }
+  
+  /**
+   * Work out how loud each engine layer is at an engine speed
+   * @param rpm Engine speed
+   * @returns Weight of each layer (0-1), equal-power between the two nearest layers
+   */
+  private getEngineLayerWeights(rpm: number): number[] {
+    const weights = ENGINE_LAYERS.map(() => 0);
+    const last = ENGINE_LAYERS.length - 1;
+    
+    if (rpm <= ENGINE_LAYERS[0].rpm) {
+      weights[0] = 1;
+    } else if (rpm >= ENGINE_LAYERS[last].rpm) {
+      weights[last] = 1;
+    } else {
+      const upper = ENGINE_LAYERS.findIndex(layer => layer.rpm > rpm);
+      const lower = upper - 1;
+      const mix = (rpm - ENGINE_LAYERS[lower].rpm) / (ENGINE_LAYERS[upper].rpm - ENGINE_LAYERS[lower].rpm);
+      weights[lower] = Math.cos(mix * Math.PI / 2);
+      weights[upper] = Math.sin(mix * Math.PI / 2);
+    }
+    return weights;
+  }
+  
+  /**
+   * Start the police siren loop (silent until its volume is set)
+   */
+  public startSiren(): void {
+    if (!this.soundEnabled || this.sirenSoundId !== null) return;
+    
+    const siren = this.vehicleSounds.get('siren');
+    if (!siren) return;
+    
+    this.sirenSoundId = siren.play();
+    siren.volume(0, this.sirenSoundId);
+  }
+  
+  /**
+   * Stop the police siren loop
+   */
+  public stopSiren(): void {
+    const siren = this.vehicleSounds.get('siren');
+    if (this.sirenSoundId !== null && siren) {
+      siren.stop(this.sirenSoundId);
+      this.sirenSoundId = null;
+    }
+  }
+  
+  /**
+   * Set how loud the siren is, e.g. from the distance to the nearest police car
+   * @param volume Volume level (0.0 - 1.0)
+   */
+  public updateSiren(volume: number): void {
+    const siren = this.vehicleSounds.get('siren');
+    if (!this.soundEnabled || this.sirenSoundId === null || !siren) return;
+    
+    siren.volume(Math.max(0, Math.min(1, volume)) * this.categoryVolumes[SoundCategory.VEHICLE], this.sirenSoundId);
+  }
+  
+  /**
+   * Move the listener to a camera, so world sounds are heard from its view
+   * @param camera Active camera
+   * @param deltaTime Time since last update
+   */
+  public setListener(camera: THREE.Camera, deltaTime: number): void {
+    const position = new THREE.Vector3();
+    camera.getWorldPosition(position);
+    
+    // Velocity from the last position, ignoring jumps when the camera mode changes
+    if (this.hasListenerPosition && deltaTime > 0) {
+      const velocity = position.clone().sub(this.listenerPosition).divideScalar(deltaTime);
+      this.listenerVelocity.copy(velocity.length() > MAX_LISTENER_SPEED ? new THREE.Vector3() : velocity);
     }
+    this.listenerPosition.copy(position);
+    this.hasListenerPosition = true;
+    
+    const forward = new THREE.Vector3();
+    camera.getWorldDirection(forward);
+    const up = camera.up.clone().applyQuaternion(camera.quaternion);
+    
+    Howler.pos(position.x, position.y, position.z);
+    Howler.orientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+  }
+  
+  /**
+   * Start a looping sound that follows something around the world, e.g. another car's engine
+   * @param sound Vehicle sound name
+   * @param volume Volume of the loop before distance falloff
+   * @returns Handle to update and stop the loop with, or null if it can't play
+   */
+  public createPositionalLoop(sound: string, volume: number): number | null {
+    if (!this.soundEnabled) return null;
+    
+    const howl = this.vehicleSounds.get(sound);
+    if (!howl) return null;
+    
+    // Starts paused; the first update plays it once it is within earshot
+    const id = howl.play();
+    howl.pause(id);
+    howl.loop(true, id);
+    howl.pannerAttr(SPATIAL_PANNER, id);
+    
+    const handle = this.nextLoopHandle++;
+    this.positionalLoops.set(handle, { howl, id, category: SoundCategory.VEHICLE, volume, playing: false });
+    return handle;
   }
   
   /**
-   * Update engine sound parameters based on vehicle speed
-   * @param speed Current vehicle speed, normalized 0-1
+   * Move a looping sound and shift its pitch for the doppler effect
+   * @param handle Handle from createPositionalLoop()
+   * @param position World position of the source
+   * @param velocity World velocity of the source
+   * @param rate Playback rate before the doppler shift, e.g. from engine speed
    */
-  public updateEngineSound(speed: number): void {
-    if (!this.soundEnabled || this.engineSoundId === null || !this.engineSound) return;
+  public updatePositionalLoop(handle: number, position: THREE.Vector3, velocity: THREE.Vector3, rate: number = 1): void {
+    const loop = this.positionalLoops.get(handle);
+    if (!loop || this.paused) return;
     
-    // Map speed to pitch range (0.8 - 1.5)
-    const pitch = 0.8 + (speed * 0.7);
-    this.enginePitch = pitch;
+    // Only keep loops within earshot playing
+    const inRange = position.distanceTo(this.listenerPosition) < LOOP_AUDIBLE_DISTANCE;
+    if (inRange !== loop.playing) {
+      if (inRange) {
+        loop.howl.play(loop.id);
+      } else {
+        loop.howl.pause(loop.id);
+      }
+      loop.playing = inRange;
+    }
+    if (!inRange) return;
     
-    // Map speed to volume range (0.3 - 1.0)
-    const volume = 0.3 + (speed * 0.7);
-    this.engineVolume = volume;
+    loop.howl.pos(position.x, position.y, position.z, loop.id);
+    loop.howl.volume(loop.volume * this.categoryVolumes[loop.category], loop.id);
+    loop.howl.rate(rate * this.getDopplerRate(position, velocity), loop.id);
+  }
+  
+  /**
+   * Stop a looping sound for good
+   * @param handle Handle from createPositionalLoop()
+   */
+  public stopPositionalLoop(handle: number): void {
+    const loop = this.positionalLoops.get(handle);
+    if (!loop) return;
     
-    // Apply changes
-    this.engineSound.rate(this.enginePitch, this.engineSoundId);
-    this.engineSound.volume(this.engineVolume, this.engineSoundId);
+    loop.howl.stop(loop.id);
+    this.positionalLoops.delete(handle);
+  }
+  
+  /**
+   * Work out the pitch shift of a moving source heard by the moving listener
+   * @param position Source position
+   * @param velocity Source velocity
+   * @returns Playback rate multiplier
+   */
+  private getDopplerRate(position: THREE.Vector3, velocity: THREE.Vector3): number {
+    const toListener = this.listenerPosition.clone().sub(position);
+    if (toListener.lengthSq() < 0.0001) return 1;
+    toListener.normalize();
+    
+    // Speeds towards each other along the line between them
+    const sourceApproach = velocity.dot(toListener) * DOPPLER_FACTOR;
+    const listenerApproach = -this.listenerVelocity.dot(toListener) * DOPPLER_FACTOR;
+    
+    const rate = (SPEED_OF_SOUND + listenerApproach) / (SPEED_OF_SOUND - sourceApproach);
+    return Math.max(MIN_DOPPLER_RATE, Math.min(MAX_DOPPLER_RATE, rate));
+  }
+  
+  /**
+   * Place a playing sound in the world so it pans and fades with distance
+   * @param howl Sound
+   * @param id Id of the playing sound
+   * @param position World position
+   */
+  private placeSound(howl: Howl, id: number, position: THREE.Vector3): void {
+    howl.pannerAttr(SPATIAL_PANNER, id);
+    howl.pos(position.x, position.y, position.z, id);
+  }
+  
+  /**
+   * Play a sound at its own volume scaled by its group's volume
+   * @param howl Sound to play
+   * @param category Group the sound belongs to
+   * @param volume Optional volume override
+   * @returns Id of the playing sound
+   */
+  private playInCategory(howl: Howl, category: SoundCategory, volume?: number): number {
+    const id = howl.play();
+    howl.volume((volume ?? howl.volume()) * this.categoryVolumes[category], id);
+    return id;
+  }
+  
+  /**
+   * Set the volume of a group of sounds
+   * @param category Sound group
+   * @param volume Volume level (0.0 - 1.0)
+   */
+  public setCategoryVolume(category: SoundCategory, volume: number): void {
+    this.categoryVolumes[category] = Math.max(0, Math.min(1, volume));
+    
+    // The ambient loop runs for the whole session, so change it straight away
+    const ambient = this.ambientSounds.get('city');
+    if (category === SoundCategory.AMBIENT && this.ambientSoundId !== null && ambient) {
+      ambient.volume(ambient.volume() * this.categoryVolumes[category], this.ambientSoundId);
+    }
+  }
+  
+  /**
+   * Apply the player's audio preferences
+   * @param settings Audio settings
+   */
+  public applySettings(settings: AudioSettings): void {
+    this.setMasterVolume(settings.masterVolume);
+    this.setSoundEnabled(settings.soundEnabled);
+    for (const category of Object.values(SoundCategory)) {
+      this.setCategoryVolume(category, settings.categoryVolumes[category] ?? 1);
+    }
   }
   
   /**
@@ -286,6 +765,35 @@ export class AudioManager {
     Howler.volume(this.masterVolume);
   }
   
+  /**
+   * Freeze every sound where it is, for the pause menu
+   */
+  public pauseAll(): void {
+    if (this.paused) return;
+    this.paused = true;
+    
+    // Suspending the audio context holds loops and one-shots mid-play
+    if (Howler.ctx) {
+      Howler.ctx.suspend();
+    } else {
+      Howler.mute(true);
+    }
+  }
+  
+  /**
+   * Carry on playing the sounds frozen by pauseAll()
+   */
+  public resumeAll(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    
+    if (Howler.ctx) {
+      Howler.ctx.resume();
+    } else {
+      Howler.mute(this.muted);
+    }
+  }
+  
   /**
    * Toggle sound on/off
    * @param enabled Whether sound is enabled
@@ -310,7 +818,10 @@ export class AudioManager {
   public dispose(): void {
     // Stop all sounds
     this.stopEngineSound();
+    this.stopSiren();
     this.stopAmbientSound();
+    this.stopMusic();
+    Array.from(this.positionalLoops.keys()).forEach(handle => this.stopPositionalLoop(handle));
     
     // Unload all sounds to free memory
     this.vehicleSounds.forEach(sound => sound.unload());
@@ -318,5 +829,6 @@ export class AudioManager {
     this.collisionSounds.forEach(sound => sound.unload());
     this.uiSounds.forEach(sound => sound.unload());
     this.ambientSounds.forEach(sound => sound.unload());
+    this.musicSounds.forEach(sound => sound.unload());
   }
 } 
\ No newline at end of file
@@ -3,6 +3,7 @@ import * as CANNON from 'cannon-es';
 import { Vehicle } from '../entities/vehicles/Vehicle';
 import { PhysicsWorld } from '../core/physics/PhysicsWorld';
 import { AudioManager } from './AudioManager';
+import { GameClock } from '../core/utils/GameClock';
 
 // Enum for object types involved in collisions
 export enum CollisionObjectType {
@@ -11,6 +12,10 @@ export enum CollisionObjectType {
   HUMAN_NPC = 'human_npc',
   ANIMAL_NPC = 'animal_npc',
   PROP = 'prop',
+  OPPONENT_VEHICLE = 'opponent_vehicle',
+  CIVILIAN_VEHICLE = 'civilian_vehicle',
+  POLICE_VEHICLE = 'police_vehicle',
+  RAGDOLL = 'ragdoll',
   GROUND = 'ground',
   MISC = 'misc'
 }
@@ -19,6 +24,7 @@ export enum CollisionObjectType {
 export interface CollisionEvent {
   bodyA: CANNON.Body;
   bodyB: CANNON.Body;
+  targetBody: CANNON.Body;
   contact: CANNON.ContactEquation;
   target: THREE.Object3D | null;
   targetType: CollisionObjectType;
@@ -53,9 +59,26 @@ export class CollisionManager {
   // Score tracking
   private score: number = 0;
   
+  // Run statistics for the results screen
+  private pedestriansHit: number = 0;
+  private animalsHit: number = 0;
+  private bestCombo: number = 0;
+  
   // Object type mapping (body ID to type)
   private objectTypes: Map<number, CollisionObjectType> = new Map();
   
+  // AI opponent and police cars (body ID to vehicle)
+  private opponents: Map<number, Vehicle> = new Map();
+  
+  // Bonus for wrecking an opponent
+  private opponentWreckBonus: number = 1000;
+  
+  // Base points for smashing into a civilian car
+  private civilianCarPoints: number = 50;
+  
+  // Bouncy car power-up: the player's car bounces off things instead of taking damage
+  private bouncyCar: boolean = false;
+  
   // Impact sound effects (to be implemented)
   private sounds: any = {
     // Will be populated with actual sound effects
@@ -64,8 +87,12 @@ export class CollisionManager {
   // Particle systems for visual feedback
   private particleSystems: Map<string, THREE.Object3D> = new Map();
   
-  // Track objects that have already been hit to prevent multiple collisions
-  private hitObjects: Set<number> = new Set();
+  // Objects that have already been hit, by body id, with the game time they can be hit
+  // again, to prevent multiple collisions
+  private hitObjects: Map<number, number> = new Map();
+  
+  // Blood and debris effects, with the game time they are removed
+  private timedEffects: { object: THREE.Object3D; removeAt: number }[] = [];
   
   // Debug mode
   private debugMode: boolean = false;
@@ -134,6 +161,61 @@ export class CollisionManager {
     }
   }
   
+  /**
+   * Stop tracking a physics body that has been removed from the world
+   * @param body Physics body
+   */
+  public unregisterObject(body: CANNON.Body): void {
+    this.objectTypes.delete(body.id);
+  }
+  
+  /**
+   * Get the registered type of a physics body
+   * @param body Physics body
+   * @returns Object type, or MISC if not registered
+   */
+  public getObjectType(body: CANNON.Body): CollisionObjectType {
+    return this.objectTypes.get(body.id) || CollisionObjectType.MISC;
+  }
+  
+  /**
+   * Register an AI opponent car so collisions with the player damage both cars
+   * @param vehicle Opponent vehicle
+   */
+  public registerOpponent(vehicle: Vehicle): void {
+    const body = vehicle.getBody();
+    this.opponents.set(body.id, vehicle);
+    this.registerObject(body, CollisionObjectType.OPPONENT_VEHICLE);
+  }
+  
+  /**
+   * Stop tracking an AI opponent car
+   * @param vehicle Opponent vehicle
+   */
+  public unregisterOpponent(vehicle: Vehicle): void {
+    const body = vehicle.getBody();
+    this.opponents.delete(body.id);
+    this.objectTypes.delete(body.id);
+  }
+  
+  /**
+   * Register a police car so collisions with the player damage both cars
+   * @param vehicle Police car
+   */
+  public registerPoliceCar(vehicle: Vehicle): void {
+    const body = vehicle.getBody();
+    this.opponents.set(body.id, vehicle);
+    this.registerObject(body, CollisionObjectType.POLICE_VEHICLE);
+  }
+  
+  /**
+   * Stop tracking a police car
+   * @param vehicle Police car
+   */
+  public unregisterPoliceCar(vehicle: Vehicle): void {
+    this.unregisterOpponent(vehicle);
+  }
+  
   /**
    * Register a callback for collision events
    * @param callback Collision callback function
@@ -197,10 +279,7 @@ export class CollisionManager {
     if (this.hitObjects.has(targetBody.id)) return;
     
     // Add to hit objects to prevent multiple collisions in short time
-    this.hitObjects.add(targetBody.id);
-    setTimeout(() => {
-      this.hitObjects.delete(targetBody.id);
-    }, 1000); // Reset after 1 second
+    this.hitObjects.set(targetBody.id, GameClock.now() + 1000); // Reset after 1 second
     
     // Get collision point - handle case when contact is null
     let collisionPoint: THREE.Vector3;
@@ -223,6 +302,7 @@ export class CollisionManager {
     const collisionEvent: CollisionEvent = {
       bodyA: bodyA,
       bodyB: bodyB,
+      targetBody: targetBody,
       contact: event.contact,
       target: targetMesh,
       targetType: targetType,
@@ -262,6 +342,22 @@ export class CollisionManager {
         this.processPropCollision(event);
         break;
         
+      case CollisionObjectType.OPPONENT_VEHICLE:
+        this.processOpponentCollision(event);
+        break;
+        
+      case CollisionObjectType.CIVILIAN_VEHICLE:
+        this.processCivilianCollision(event);
+        break;
+        
+      case CollisionObjectType.POLICE_VEHICLE:
+        this.processPoliceCollision(event);
+        break;
+        
+      case CollisionObjectType.RAGDOLL:
+        this.processRagdollCollision(event);
+        break;
+        
       default:
         // Generic collision handling
         this.createDebrisEffect(event.collisionPoint, event.impactVelocity);
@@ -274,12 +370,6 @@ export class CollisionManager {
    * @param event Collision event data
    */
   private processHumanCollision(event: CollisionEvent): void {
-    // Check if already handled this collision
-    if (this.hitObjects.has(event.bodyB.id)) return;
-    
-    // Add to hit objects
-    this.hitObjects.add(event.bodyB.id);
-    
     // Check if this is a Trump statue by looking at the target mesh userData
     const isTrumpStatue = event.target && 
                          event.target.userData && 
@@ -291,9 +381,13 @@ export class CollisionManager {
     let scoreGain = Math.round(scoreBase * speedMultiplier);
     
     // Apply combo multiplier if active
-    const now = Date.now();
+    const now = GameClock.now();
     this.consecutiveHumanHits++;
     this.lastHitTime = now;
+    this.bestCombo = Math.max(this.bestCombo, this.consecutiveHumanHits);
+    if (!isTrumpStatue) {
+      this.pedestriansHit++;
+    }
     
     // Start with combo of 2x after 3 consecutive hits
     if (this.consecutiveHumanHits >= 3) {
@@ -314,9 +408,9 @@ export class CollisionManager {
     // Play appropriate sound
     const soundSystem = AudioManager.getInstance();
     if (isTrumpStatue) {
-      soundSystem.playCollisionSound('trump', 1.0); // Special Trump sound at full volume
+      soundSystem.playCollisionSound('trump', 1.0, event.collisionPoint); // Special Trump sound at full volume
     } else {
-      soundSystem.playCollisionSound('human', 0.8); // Regular human sound
+      soundSystem.playCollisionSound('human', 0.8, event.collisionPoint); // Regular human sound
     }
     
     // Create blood effect with higher intensity for Trump statue
@@ -337,14 +431,15 @@ export class CollisionManager {
    * @param event Collision event
    */
   private processAnimalCollision(event: CollisionEvent): void {
-    // Check if already handled this collision
-    if (this.hitObjects.has(event.bodyB.id)) return;
-    
-    // Add to hit objects
-    this.hitObjects.add(event.bodyB.id);
+    // Heavy animals do real damage to the car
+    if (this.vehicle) {
+      const massFactor = Math.min(1, event.targetBody.mass / 600);
+      this.vehicle.applyDamage(event.impactVelocity, event.collisionPoint, massFactor);
+    }
     
     // Animals give negative points!
     this.score -= 200;
+    this.animalsHit++;
     
     // Reset combo
     this.consecutiveHumanHits = 0;
@@ -370,23 +465,23 @@ export class CollisionManager {
     const audioManager = (window as any).audioManager;
     if (audioManager) {
       // Play generic animal collision sound
-      audioManager.playCollisionSound('animal', 1.0);
+      audioManager.playCollisionSound('animal', 1.0, event.collisionPoint);
       
       // Determine which specific animal sound to play based on the collision
       const animalType = (event.bodyB as any)._animalType;
       if (animalType) {
         switch (animalType) {
           case 'cow':
-            audioManager.playNPCSound('cow_moo');
+            audioManager.playNPCSound('cow_moo', event.collisionPoint);
             break;
           case 'dog':
-            audioManager.playNPCSound('dog_bark');
+            audioManager.playNPCSound('dog_bark', event.collisionPoint);
             break;
           case 'cat':
-            audioManager.playNPCSound('cat_meow');
+            audioManager.playNPCSound('cat_meow', event.collisionPoint);
             break;
           case 'deer':
-            audioManager.playNPCSound('deer_sound');
+            audioManager.playNPCSound('deer_sound', event.collisionPoint);
             break;
           default:
             // No specific sound for this animal type
@@ -405,10 +500,14 @@ export class CollisionManager {
    * @param event Collision event
    */
   private processBuildingCollision(event: CollisionEvent): void {
+    // Buildings and perimeter walls do full damage
+    this.damagePlayer(event, 1.0);
+    
     // Create debris effect
     this.createDebrisEffect(event.collisionPoint, event.impactVelocity);
     
-    // TODO: Play crash sound based on impact velocity
+    // Crash sound scaled by impact velocity
+    AudioManager.getInstance().playCollisionSound('building', Math.min(1.0, event.impactVelocity / 20), event.collisionPoint);
   }
   
   /**
@@ -416,12 +515,100 @@ export class CollisionManager {
    * @param event Collision event
    */
   private processPropCollision(event: CollisionEvent): void {
+    // Street furniture does less damage than buildings
+    this.damagePlayer(event, 0.5);
+    
     // Create debris effect scaled by impact velocity
     this.createDebrisEffect(event.collisionPoint, event.impactVelocity);
     
     // TODO: Play prop hit sound
   }
   
+  /**
+   * Damage the player's car in a crash, or bounce it off while the bouncy car power-up is active
+   * @param event Collision event
+   * @param multiplier Damage multiplier for the type of object hit
+   */
+  private damagePlayer(event: CollisionEvent, multiplier: number): void {
+    if (!this.vehicle) return;
+    
+    if (this.bouncyCar) {
+      this.vehicle.bounceOff(event.collisionPoint, event.impactVelocity);
+    } else {
+      this.vehicle.applyDamage(event.impactVelocity, event.collisionPoint, multiplier);
+    }
+  }
+  
+  /**
+   * Process a crash between the player and an AI opponent
+   * @param event Collision event
+   */
+  private processOpponentCollision(event: CollisionEvent): void {
+    const opponent = this.opponents.get(event.targetBody.id);
+    if (!opponent) return;
+    
+    // Both cars take damage; the opponent takes a bit more so ramming back pays off
+    this.damagePlayer(event, 0.8);
+    
+    const wasWrecked = opponent.isWrecked();
+    opponent.applyDamage(event.impactVelocity, event.collisionPoint, 1.2);
+    
+    // Bonus for finishing an opponent off
+    if (!wasWrecked && opponent.isWrecked()) {
+      this.score += this.opponentWreckBonus;
+      this.showScorePopup(event.collisionPoint, `+${this.opponentWreckBonus}`, 0xff8800);
+    }
+    
+    this.createDebrisEffect(event.collisionPoint, event.impactVelocity);
+    AudioManager.getInstance().playCollisionSound('building', Math.min(1.0, event.impactVelocity / 20), event.collisionPoint);
+  }
+  
+  /**
+   * Process a crash between the player and a police car
+   * @param event Collision event
+   */
+  private processPoliceCollision(event: CollisionEvent): void {
+    const policeCar = this.opponents.get(event.targetBody.id);
+    if (!policeCar) return;
+    
+    // Police cars are reinforced, so neither side comes off better
+    this.damagePlayer(event, 1.0);
+    policeCar.applyDamage(event.impactVelocity, event.collisionPoint, 1.0);
+    
+    this.createDebrisEffect(event.collisionPoint, event.impactVelocity);
+    AudioManager.getInstance().playCollisionSound('building', Math.min(1.0, event.impactVelocity / 20), event.collisionPoint);
+  }
+  
+  /**
+   * Process a crash between the player and a civilian car
+   * @param event Collision event
+   */
+  private processCivilianCollision(event: CollisionEvent): void {
+    // Points scale with impact speed, like pedestrians
+    const speedMultiplier = Math.min(3, event.impactVelocity / 5);
+    const scoreGain = Math.round(this.civilianCarPoints * speedMultiplier);
+    if (scoreGain > 0) {
+      this.score += scoreGain;
+      this.showScorePopup(event.collisionPoint, `+${scoreGain}`, 0x3399ff);
+    }
+    
+    // Civilian cars are lighter than buildings
+    this.damagePlayer(event, 0.6);
+    
+    this.createDebrisEffect(event.collisionPoint, event.impactVelocity);
+    AudioManager.getInstance().playCollisionSound('building', Math.min(1.0, event.impactVelocity / 20), event.collisionPoint);
+  }
+  
+  /**
+   * Handle running over a pedestrian who has already been knocked down
+   * The kill was scored on the first hit, so this is only a splat
+   * @param event Collision event
+   */
+  private processRagdollCollision(event: CollisionEvent): void {
+    this.createBloodEffect(event.collisionPoint, event.impactVelocity * 0.5);
+    AudioManager.getInstance().playCollisionSound('human', Math.min(0.5, event.impactVelocity / 20), event.collisionPoint);
+  }
+  
   /**
    * Create blood particle effect
    * @param position Position to create effect
@@ -480,9 +667,7 @@ export class CollisionManager {
     this.scene.add(bloodSystem);
     
     // Setup auto-removal after animation
-    setTimeout(() => {
-      this.scene.remove(bloodSystem);
-    }, 2000);
+    this.timedEffects.push({ object: bloodSystem, removeAt: GameClock.now() + 2000 });
   }
   
   /**
@@ -543,9 +728,7 @@ export class CollisionManager {
     this.scene.add(debrisSystem);
     
     // Setup auto-removal after animation
-    setTimeout(() => {
-      this.scene.remove(debrisSystem);
-    }, 1500);
+    this.timedEffects.push({ object: debrisSystem, removeAt: GameClock.now() + 1500 });
   }
   
   /**
@@ -678,21 +861,38 @@ export class CollisionManager {
       // No need to traverse scene objects here
 
       // Check for combo timeouts
-      const now = Date.now();
+      const now = GameClock.now();
       if (this.lastHitTime > 0 && now - this.lastHitTime > this.comboTimeWindow) {
         // Reset combo if window expired
         this.consecutiveHumanHits = 0;
       }
       
-      // Clear hit objects every so often to allow re-hitting the same objects
-      if (now % 1000 < 20) {
-        this.hitObjects.clear();
-      }
+      // Allow re-hitting objects once their cooldown has passed
+      this.hitObjects.forEach((hitAgainAt, bodyId) => {
+        if (now >= hitAgainAt) {
+          this.hitObjects.delete(bodyId);
+        }
+      });
+      
+      // Remove blood and debris whose animation is over
+      this.timedEffects = this.timedEffects.filter(effect => {
+        if (now < effect.removeAt) return true;
+        this.scene.remove(effect.object);
+        return false;
+      });
     } catch (error) {
       console.error('Error updating collision manager:', error);
     }
   }
   
+  /**
+   * Turn the bouncy car power-up on or off
+   * @param enabled Whether the player's car bounces off things
+   */
+  public setBouncyCar(enabled: boolean): void {
+    this.bouncyCar = enabled;
+  }
+  
   /**
    * Get the current score
    * @returns Current game score
@@ -701,11 +901,46 @@ export class CollisionManager {
     return this.score;
   }
   
+  /**
+   * Get the number of pedestrians run down this run
+   * @returns Pedestrians hit
+   */
+  public getPedestriansHit(): number {
+    return this.pedestriansHit;
+  }
+  
+  /**
+   * Get the number of animals hit this run
+   * @returns Animals hit
+   */
+  public getAnimalsHit(): number {
+    return this.animalsHit;
+  }
+  
+  /**
+   * Get the chain of pedestrian hits still running
+   * @returns Current combo, 0 once the combo window has passed
+   */
+  public getCombo(): number {
+    return this.consecutiveHumanHits;
+  }
+  
+  /**
+   * Get the longest chain of pedestrian hits this run
+   * @returns Best combo
+   */
+  public getBestCombo(): number {
+    return this.bestCombo;
+  }
+  
   /**
    * Reset the score system
    */
   public reset(): void {
     this.score = 0;
+    this.pedestriansHit = 0;
+    this.animalsHit = 0;
+    this.bestCombo = 0;
     this.consecutiveHumanHits = 0;
     this.lastHitTime = 0;
     this.hitObjects.clear();
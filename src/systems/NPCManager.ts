@@ -1,18 +1,35 @@
 import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
 import { PhysicsWorld } from '../core/physics/PhysicsWorld';
 import { Human } from '../entities/npcs/Human';
 import { Animal, AnimalType } from '../entities/npcs/Animal';
-import { CollisionManager, CollisionObjectType } from './CollisionManager';
+import { Ragdoll } from '../entities/npcs/Ragdoll';
+import { PedestrianContext } from '../entities/npcs/HumanBehaviour';
+import { CollisionManager, CollisionObjectType, CollisionEvent } from './CollisionManager';
 import { Vehicle } from '../entities/vehicles/Vehicle';
+import { RoadNetwork } from '../core/environment/RoadNetwork';
+import { PointOfInterest } from '../core/environment/CityGenerator';
+import { TrafficManager } from './TrafficManager';
+import { SpatialHash, SpatialCategory } from '../core/utils/SpatialHash';
+import { GameClock } from '../core/utils/GameClock';
 
 /**
  * Manages NPC spawning and behavior
+ * Also provides pedestrians with what they need to know about their surroundings
  */
-export class NPCManager {
+export class NPCManager implements PedestrianContext {
   // Array of active NPCs
   private humans: Human[] = [];
   private animals: Animal[] = [];
   
+  // Knocked-down pedestrians
+  private ragdolls: Ragdoll[] = [];
+  private maxRagdolls: number = 30; // Oldest are cleaned up first
+  
+  // Pedestrians hit during the physics step, turned into ragdolls on the next update
+  // (bodies can't be removed while the world is stepping)
+  private pendingKnockdowns: { body: CANNON.Body; velocity: THREE.Vector3 }[] = [];
+  
   // Spawn settings for humans
   private maxHumans: number = 200; // Increased from 30
   private humanSpawnInterval: number = 1500; // Reduced from 3000 to 1.5 seconds
@@ -35,9 +52,37 @@ export class NPCManager {
   // Panic radius (NPCs within this radius of the vehicle will panic/flee)
   private panicRadius: number = 15;
   
+  // Panic spreading from person to person
+  private panicSpreadRadius: number = 8;      // Pedestrians this close notice someone panicking
+  private callForHelpRadius: number = 25;     // Shouting for help carries further
+  private witnessRadius: number = 20;         // Everyone this close sees a pedestrian get hit
+  private panicSpreadInterval: number = 0.25; // Seconds between checks
+  private panicSpreadTimer: number = 0;
+  
+  // Pedestrians wait at the kerb while a moving car is this close to the crossing
+  private crossingClearance: number = 15;
+  
   // Player vehicle reference
   private playerVehicle: Vehicle | null = null;
   
+  // City road network (pedestrians spawn on its sidewalks)
+  private roadNetwork: RoadNetwork | null = null;
+  
+  // Places pedestrians walk between
+  private pointsOfInterest: PointOfInterest[] = [];
+  
+  // Civilian traffic pedestrians wait for before crossing
+  private trafficManager: TrafficManager | null = null;
+  
+  // When set, pedestrians are neither respawned nor despawned
+  private fixedHumanPopulation: boolean = false;
+  
+  // Power-up effects on pedestrians
+  private magnetPosition: THREE.Vector3 | null = null;
+  private magnetRadius: number = 40;
+  private attractedHumans: Set<Human> = new Set();
+  private pedestriansFrozen: boolean = false;
+  
   // Maximum total NPCs for performance control
   private maxTotalNPCs: number = 350; // Higher but still reasonable for performance
   
@@ -46,12 +91,16 @@ export class NPCManager {
    * @param scene THREE.js scene
    * @param physicsWorld Physics world
    * @param collisionManager Collision manager for registering NPCs
+   * @param spatialHash Spatial hash NPCs are registered in for proximity queries
    */
   constructor(
     private scene: THREE.Scene,
     private physicsWorld: PhysicsWorld,
-    private collisionManager: CollisionManager
-  ) {}
+    private collisionManager: CollisionManager,
+    private spatialHash: SpatialHash = new SpatialHash()
+  ) {
+    this.collisionManager.registerCollisionCallback(this.handleCollision.bind(this));
+  }
   
   /**
    * Set the player vehicle
@@ -61,15 +110,43 @@ export class NPCManager {
     this.playerVehicle = vehicle;
   }
   
+  /**
+   * Set the road network used for pedestrian spawning
+   * @param roadNetwork City road network
+   */
+  public setRoadNetwork(roadNetwork: RoadNetwork): void {
+    this.roadNetwork = roadNetwork;
+  }
+  
+  /**
+   * Set the places pedestrians walk between
+   * @param pointsOfInterest Doorways, plaza and parks
+   */
+  public setPointsOfInterest(pointsOfInterest: PointOfInterest[]): void {
+    this.pointsOfInterest = pointsOfInterest;
+  }
+  
+  /**
+   * Set the civilian traffic pedestrians look out for when crossing
+   * @param trafficManager Traffic manager
+   */
+  public setTrafficManager(trafficManager: TrafficManager): void {
+    this.trafficManager = trafficManager;
+  }
+  
   /**
    * Update all NPCs
    * @param deltaTime Time since last update
    */
   public update(deltaTime: number): void {
-    const now = Date.now();
+    const now = GameClock.now();
+    
+    // Swap pedestrians hit since the last update for ragdolls
+    this.processKnockdowns();
+    this.updateRagdolls(deltaTime);
     
     // Attempt to spawn new humans at regular intervals
-    if (now - this.lastHumanSpawnTime > this.humanSpawnInterval) {
+    if (!this.fixedHumanPopulation && now - this.lastHumanSpawnTime > this.humanSpawnInterval) {
       this.trySpawnHuman();
       this.lastHumanSpawnTime = now;
     }
@@ -80,6 +157,9 @@ export class NPCManager {
       this.lastAnimalSpawnTime = now;
     }
     
+    // Drag pedestrians towards the magnet power-up
+    this.updateMagnet();
+    
     // Update all humans
     for (let i = this.humans.length - 1; i >= 0; i--) {
       const human = this.humans[i];
@@ -89,22 +169,29 @@ export class NPCManager {
       
       // Check if human is too far away, if so remove it
       const position = human.getPosition();
-      if (position.length() > 150) {
+      if (!this.fixedHumanPopulation && position.length() > 150) {
         this.removeHuman(i);
         continue;
       }
       
-      // Make humans panic if the player vehicle is nearby
-      if (this.playerVehicle) {
-        const vehiclePosition = this.playerVehicle.getPosition();
-        const distanceToVehicle = position.distanceTo(vehiclePosition);
-        
-        if (distanceToVehicle < this.panicRadius) {
-          human.panic(vehiclePosition);
-        }
+      this.spatialHash.move(human, position);
+    }
+    
+    // Make humans panic if the player vehicle is nearby
+    if (this.playerVehicle) {
+      const vehiclePosition = this.playerVehicle.getPosition();
+      for (const human of this.getHumansInRadius(vehiclePosition, this.panicRadius)) {
+        human.panic(vehiclePosition);
       }
     }
     
+    // Let panic ripple through the crowd
+    this.panicSpreadTimer -= deltaTime;
+    if (this.panicSpreadTimer <= 0) {
+      this.panicSpreadTimer = this.panicSpreadInterval;
+      this.spreadPanic();
+    }
+    
     // Update all animals
     for (let i = this.animals.length - 1; i >= 0; i--) {
       const animal = this.animals[i];
@@ -119,16 +206,223 @@ export class NPCManager {
         continue;
       }
       
-      // Make animals flee if the player vehicle is nearby
-      if (this.playerVehicle) {
-        const vehiclePosition = this.playerVehicle.getPosition();
-        const distanceToVehicle = position.distanceTo(vehiclePosition);
-        
-        if (distanceToVehicle < this.panicRadius) {
-          animal.flee(vehiclePosition);
+      this.spatialHash.move(animal, position);
+    }
+    
+    // Make animals flee if the player vehicle is nearby
+    if (this.playerVehicle) {
+      const vehiclePosition = this.playerVehicle.getPosition();
+      const animals = this.spatialHash.queryRadius<Animal>(SpatialCategory.ANIMAL, vehiclePosition, this.panicRadius);
+      for (const animal of animals) {
+        animal.flee(vehiclePosition);
+      }
+    }
+  }
+  
+  /**
+   * Knock down pedestrians run over by the player
+   * @param event Collision event
+   */
+  private handleCollision(event: CollisionEvent): void {
+    if (event.targetType !== CollisionObjectType.HUMAN_NPC) return;
+    
+    const carBody = event.targetBody === event.bodyA ? event.bodyB : event.bodyA;
+    const velocity = new THREE.Vector3(carBody.velocity.x, carBody.velocity.y, carBody.velocity.z);
+    
+    // Scale the throw to the impact rather than the car's whole speed
+    if (velocity.lengthSq() > 0) {
+      velocity.setLength(Math.max(event.impactVelocity, 1));
+    }
+    
+    this.knockDownHuman(event.targetBody, velocity);
+  }
+  
+  /**
+   * Queue a pedestrian to be replaced by a ragdoll
+   * @param body Physics body of the pedestrian that was hit
+   * @param velocity Velocity of whatever hit them
+   * @returns True if the body belongs to a live pedestrian
+   */
+  public knockDownHuman(body: CANNON.Body, velocity: THREE.Vector3): boolean {
+    if (!this.humans.some(human => human.getBody() === body)) return false;
+    if (this.pendingKnockdowns.some(knockdown => knockdown.body === body)) return false;
+    
+    this.pendingKnockdowns.push({ body, velocity: velocity.clone() });
+    return true;
+  }
+  
+  /**
+   * Replace queued pedestrians with ragdolls
+   */
+  private processKnockdowns(): void {
+    for (const knockdown of this.pendingKnockdowns) {
+      const index = this.humans.findIndex(human => human.getBody() === knockdown.body);
+      if (index === -1) continue;
+      
+      const ragdoll = new Ragdoll(this.scene, this.physicsWorld, this.humans[index].getMesh(), knockdown.velocity);
+      for (const body of ragdoll.getBodies()) {
+        this.collisionManager.registerObject(body, CollisionObjectType.RAGDOLL);
+      }
+      this.ragdolls.push(ragdoll);
+      
+      const position = this.humans[index].getPosition();
+      this.removeHuman(index);
+      
+      // Everyone who saw it happen panics
+      this.alertHumans(position, this.witnessRadius, position);
+    }
+    this.pendingKnockdowns = [];
+    
+    // Keep the number of bodies lying around in check
+    while (this.ragdolls.length > this.maxRagdolls) {
+      this.removeRagdoll(0);
+    }
+  }
+  
+  /**
+   * Age ragdolls and clean up the ones that have been lying around long enough
+   * @param deltaTime Time since last update
+   */
+  private updateRagdolls(deltaTime: number): void {
+    for (let i = this.ragdolls.length - 1; i >= 0; i--) {
+      const ragdoll = this.ragdolls[i];
+      ragdoll.update(deltaTime);
+      
+      if (ragdoll.isExpired()) {
+        this.removeRagdoll(i);
+      }
+    }
+  }
+  
+  /**
+   * Pass panic on from panicking pedestrians to calm ones around them
+   */
+  private spreadPanic(): void {
+    for (const human of this.humans) {
+      if (!human.isPanicking()) continue;
+      
+      const threatPosition = human.getThreatPosition();
+      if (!threatPosition) continue;
+      
+      const radius = human.isCallingForHelp() ? this.callForHelpRadius : this.panicSpreadRadius;
+      this.alertHumans(human.getPosition(), radius, threatPosition);
+    }
+  }
+  
+  /**
+   * Alarm the calm pedestrians around a point
+   * @param position Centre of the alarm
+   * @param radius Distance the alarm carries
+   * @param threatPosition Threat the pedestrians react to
+   */
+  private alertHumans(position: THREE.Vector3, radius: number, threatPosition: THREE.Vector3): void {
+    for (const human of this.getHumansInRadius(position, radius)) {
+      if (!human.isPanicking()) {
+        human.hearAlarm(threatPosition);
+      }
+    }
+  }
+  
+  /**
+   * Pull pedestrians towards a point, e.g. the player's car with the magnet power-up
+   * @param position Point pedestrians are drawn to, or null to switch the magnet off
+   * @param radius Distance the pull reaches
+   */
+  public setMagnet(position: THREE.Vector3 | null, radius: number = this.magnetRadius): void {
+    this.magnetPosition = position ? position.clone() : null;
+    this.magnetRadius = radius;
+  }
+  
+  /**
+   * Point the pedestrians in reach of the magnet at it and release the rest
+   */
+  private updateMagnet(): void {
+    const inReach = new Set(this.magnetPosition
+      ? this.getHumansInRadius(this.magnetPosition, this.magnetRadius)
+      : []);
+    
+    this.attractedHumans.forEach(human => {
+      if (!inReach.has(human)) human.setAttractor(null);
+    });
+    inReach.forEach(human => human.setAttractor(this.magnetPosition));
+    this.attractedHumans = inReach;
+  }
+  
+  /**
+   * Freeze or unfreeze every pedestrian, including ones spawned while frozen
+   * @param frozen Whether pedestrians are frozen
+   */
+  public setPedestriansFrozen(frozen: boolean): void {
+    this.pedestriansFrozen = frozen;
+    for (const human of this.humans) {
+      human.setFrozen(frozen);
+    }
+  }
+  
+  /**
+   * Find the pedestrians near a point
+   * @param position Centre of the search
+   * @param radius Search radius
+   * @returns Pedestrians within the radius
+   */
+  public getHumansInRadius(position: THREE.Vector3, radius: number): Human[] {
+    return this.spatialHash.queryRadius<Human>(SpatialCategory.HUMAN, position, radius);
+  }
+  
+  /**
+   * Get the road network pedestrians walk along
+   * @returns Road network, or null if there is none
+   */
+  public getRoadNetwork(): RoadNetwork | null {
+    return this.roadNetwork;
+  }
+  
+  /**
+   * Get the places pedestrians walk between
+   * @returns Points of interest
+   */
+  public getPointsOfInterest(): PointOfInterest[] {
+    return this.pointsOfInterest;
+  }
+  
+  /**
+   * Count the pedestrians hanging around a place
+   * @param pointOfInterest Place to count at
+   * @returns Number of pedestrians there
+   */
+  public getVisitorCount(pointOfInterest: PointOfInterest): number {
+    return this.getHumansInRadius(pointOfInterest.position, pointOfInterest.radius + 2).length;
+  }
+  
+  /**
+   * Check whether a road crossing is free of moving cars
+   * @param from Kerb the pedestrian is waiting at
+   * @param to Kerb on the other side
+   * @returns True if it is safe to cross
+   */
+  public isCrossingClear(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const crossing = from.clone().add(to).multiplyScalar(0.5);
+    const clearanceSquared = this.crossingClearance * this.crossingClearance;
+    
+    const isNear = (position: THREE.Vector3, velocity: CANNON.Vec3) => {
+      const dx = position.x - crossing.x;
+      const dz = position.z - crossing.z;
+      return dx * dx + dz * dz < clearanceSquared && velocity.length() > 1;
+    };
+    
+    if (this.playerVehicle && isNear(this.playerVehicle.getPosition(), this.playerVehicle.getBody().velocity)) {
+      return false;
+    }
+    
+    if (this.trafficManager) {
+      for (const car of this.trafficManager.getCars()) {
+        if (!car.isCrashed() && isNear(car.getPosition(), car.getBody().velocity)) {
+          return false;
         }
       }
     }
+    
+    return true;
   }
   
   /**
@@ -152,25 +446,64 @@ export class NPCManager {
       const spawnPosition = this.findSpawnPosition(true); // true for urban area
       if (!spawnPosition) continue;
       
-      // Create a new human NPC
-      const human = new Human(this.scene, this.physicsWorld, spawnPosition);
-      
-      // Register with collision manager - add safety checks
-      try {
-        const body = human.getBody();
-        if (body) {
-          this.collisionManager.registerObject(
-            body,
-            CollisionObjectType.HUMAN_NPC
-          );
-        }
-      } catch (error) {
-        console.error('Error registering human NPC for collision detection:', error);
+      this.spawnHuman(spawnPosition);
+    }
+  }
+  
+  /**
+   * Create a human NPC and register it for collisions
+   * @param spawnPosition Position to spawn at
+   */
+  private spawnHuman(spawnPosition: THREE.Vector3): void {
+    // Create a new human NPC
+    const human = new Human(this.scene, this.physicsWorld, spawnPosition);
+    
+    // Pedestrians follow routines in the city streets
+    if (this.roadNetwork) {
+      human.setBehaviour(this);
+    }
+    human.setFrozen(this.pedestriansFrozen);
+    
+    // Register with collision manager - add safety checks
+    try {
+      const body = human.getBody();
+      if (body) {
+        this.collisionManager.registerObject(
+          body,
+          CollisionObjectType.HUMAN_NPC
+        );
       }
+    } catch (error) {
+      console.error('Error registering human NPC for collision detection:', error);
+    }
+    
+    // Add to active humans list
+    this.humans.push(human);
+    this.spatialHash.insert(SpatialCategory.HUMAN, human, human.getPosition());
+  }
+  
+  /**
+   * Spawn a fixed pedestrian population spread over the city's sidewalks
+   * No more pedestrians are spawned afterwards and none are despawned,
+   * so the whole population can be wiped out
+   * @param count Number of pedestrians
+   * @returns Number of pedestrians actually spawned
+   */
+  public spawnFixedHumanPopulation(count: number): number {
+    this.fixedHumanPopulation = true;
+    if (!this.roadNetwork) return 0;
+    
+    let spawned = 0;
+    for (let attempt = 0; attempt < count * 5 && spawned < count; attempt++) {
+      const position = this.roadNetwork.getRandomSidewalkPoint();
+      if (!this.isValidSpawnPosition(position)) continue;
       
-      // Add to active humans list
-      this.humans.push(human);
+      this.spawnHuman(position);
+      spawned++;
     }
+    
+    console.log(`Spawned fixed population of ${spawned} pedestrians`);
+    return spawned;
   }
   
   /**
@@ -225,6 +558,7 @@ export class NPCManager {
       
       // Add to active animals list
       this.animals.push(animal);
+      this.spatialHash.insert(SpatialCategory.ANIMAL, animal, animal.getPosition());
     }
   }
   
@@ -272,6 +606,18 @@ export class NPCManager {
       maxDistance = 150;
     }
     
+    // Pedestrians spawn on the sidewalks when there is a road network
+    if (urbanArea && this.roadNetwork) {
+      for (let i = 0; i < 20; i++) {
+        const position = this.roadNetwork.getRandomSidewalkPoint();
+        const distance = position.distanceTo(basePosition);
+        
+        if (distance >= minDistance && distance <= maxDistance && this.isValidSpawnPosition(position)) {
+          return position;
+        }
+      }
+    }
+    
     // Try several positions until we find a valid one
     for (let i = 0; i < 10; i++) {
       // Generate a random angle and distance
@@ -299,22 +645,15 @@ export class NPCManager {
    * @returns True if valid
    */
   private isValidSpawnPosition(position: THREE.Vector3): boolean {
-    // Check distance to other NPCs
-    for (const human of this.humans) {
-      if (human.getPosition().distanceTo(position) < 5) {
-        return false; // Too close to another human
-      }
+    // Keep a distance from other NPCs
+    if (this.spatialHash.hasAnyWithin(SpatialCategory.HUMAN, position, 5) ||
+        this.spatialHash.hasAnyWithin(SpatialCategory.ANIMAL, position, 5)) {
+      return false;
     }
     
-    for (const animal of this.animals) {
-      if (animal.getPosition().distanceTo(position) < 5) {
-        return false; // Too close to another animal
-      }
-    }
-    
-    // We would ideally check for collisions with buildings, etc.
-    // But for simplicity, we'll assume it's valid if not too close to other NPCs
-    return true;
+    // Don't spawn inside buildings or props
+    return !this.spatialHash.hasAnyWithin(SpatialCategory.BUILDING, position, 1) &&
+           !this.spatialHash.hasAnyWithin(SpatialCategory.PROP, position, 1);
   }
   
   /**
@@ -323,16 +662,32 @@ export class NPCManager {
    */
   private removeHuman(index: number): void {
     const human = this.humans[index];
+    this.collisionManager.unregisterObject(human.getBody());
+    this.spatialHash.remove(human);
     human.dispose();
     this.humans.splice(index, 1);
   }
   
+  /**
+   * Remove a ragdoll by index
+   * @param index Index in the ragdolls array
+   */
+  private removeRagdoll(index: number): void {
+    const ragdoll = this.ragdolls[index];
+    for (const body of ragdoll.getBodies()) {
+      this.collisionManager.unregisterObject(body);
+    }
+    ragdoll.dispose();
+    this.ragdolls.splice(index, 1);
+  }
+  
   /**
    * Remove an animal by index
    * @param index Index in the animals array
    */
   private removeAnimal(index: number): void {
     const animal = this.animals[index];
+    this.spatialHash.remove(animal);
     animal.dispose();
     this.animals.splice(index, 1);
   }
@@ -346,12 +701,49 @@ export class NPCManager {
       human.dispose();
     }
     this.humans = [];
+    this.spatialHash.clear(SpatialCategory.HUMAN);
     
     // Remove all animals
     for (const animal of this.animals) {
       animal.dispose();
     }
     this.animals = [];
+    this.spatialHash.clear(SpatialCategory.ANIMAL);
+    
+    // Remove all ragdolls, unregistering their bodies from collisions
+    while (this.ragdolls.length > 0) {
+      this.removeRagdoll(this.ragdolls.length - 1);
+    }
+    this.pendingKnockdowns = [];
+    
+    // Power-up effects end with the run
+    this.magnetPosition = null;
+    this.attractedHumans.clear();
+    this.pedestriansFrozen = false;
+  }
+  
+  /**
+   * Get the active humans
+   * @returns Human NPCs
+   */
+  public getHumans(): Human[] {
+    return this.humans;
+  }
+  
+  /**
+   * Get the active animals
+   * @returns Animal NPCs
+   */
+  public getAnimals(): Animal[] {
+    return this.animals;
+  }
+  
+  /**
+   * Get the knocked-down pedestrians
+   * @returns Ragdolls
+   */
+  public getRagdolls(): Ragdoll[] {
+    return this.ragdolls;
   }
   
   /**
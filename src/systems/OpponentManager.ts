@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { PhysicsWorld } from '../core/physics/PhysicsWorld';
+import { RoadNetwork } from '../core/environment/RoadNetwork';
+import { SurfaceQuery } from '../core/environment/Surfaces';
+import { OpponentVehicle, PEDESTRIAN_SIGHT_RANGE } from '../entities/vehicles/OpponentVehicle';
+import { Vehicle } from '../entities/vehicles/Vehicle';
+import { CollisionManager, CollisionObjectType } from './CollisionManager';
+import { NPCManager } from './NPCManager';
+import { ParticleSystem, ParticleEffectType } from './ParticleSystem';
+import { AudioManager } from './AudioManager';
+
+// Look of each opponent, in spawn order
+const opponentLiveries = [
+  { color: 0x1e64ff, aggression: 0.6 }, // Blue
+  { color: 0x22aa22, aggression: 0.3 }, // Green
+  { color: 0xffaa00, aggression: 0.8 }, // Orange
+  { color: 0x8822cc, aggression: 0.5 }  // Purple
+];
+
+// Points an opponent earns for hitting a pedestrian
+const OPPONENT_PEDESTRIAN_POINTS = 100;
+
+// Minimum time between two hits of the same pair of bodies (seconds)
+const HIT_COOLDOWN = 1;
+
+/**
+ * Spawns and drives the AI opponent cars and handles their collisions
+ * with everything other than the player
+ */
+export class OpponentManager {
+  private opponents: OpponentVehicle[] = [];
+
+  // Time of the last processed hit per body pair
+  private recentHits: Map<string, number> = new Map();
+  private elapsedTime: number = 0;
+
+  // Optional effects
+  private particleSystem: ParticleSystem | null = null;
+
+  // Finds the ground under the rivals' wheels
+  private surfaceQuery: SurfaceQuery | null = null;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param collisionManager Collision manager (handles player vs opponent crashes)
+   * @param npcManager NPC manager providing pedestrians to hunt
+   * @param roadNetwork City road network
+   */
+  constructor(
+    private scene: THREE.Scene,
+    private physicsWorld: PhysicsWorld,
+    private collisionManager: CollisionManager,
+    private npcManager: NPCManager,
+    private roadNetwork: RoadNetwork
+  ) {
+    this.physicsWorld.registerCollisionCallback(this.handleCollision.bind(this));
+  }
+
+  /**
+   * Spawn opponents on junctions away from the player
+   * @param count Number of opponents
+   * @param playerPosition Player start position
+   */
+  public spawnOpponents(count: number, playerPosition: THREE.Vector3): void {
+    const candidates = this.roadNetwork.getNodes()
+      .filter(node => node.position.distanceTo(playerPosition) > 60 && node.neighbours.length > 0);
+
+    for (let i = 0; i < count && candidates.length > 0; i++) {
+      const index = Math.floor(Math.random() * candidates.length);
+      const node = candidates.splice(index, 1)[0];
+      const livery = opponentLiveries[i % opponentLiveries.length];
+
+      const opponent = new OpponentVehicle(
+        this.scene,
+        this.physicsWorld,
+        this.roadNetwork,
+        node.id,
+        livery.color,
+        livery.aggression
+      );
+      opponent.enableEngineSound();
+      if (this.surfaceQuery) {
+        opponent.setSurfaceQuery(this.surfaceQuery);
+      }
+
+      this.collisionManager.registerOpponent(opponent);
+      this.opponents.push(opponent);
+    }
+
+    console.log(`Spawned ${this.opponents.length} opponents`);
+  }
+
+  /**
+   * Set the particle system used for impact effects
+   * @param particleSystem Particle system
+   */
+  public setParticleSystem(particleSystem: ParticleSystem): void {
+    this.particleSystem = particleSystem;
+  }
+
+  /**
+   * Set how the rivals find the surface under their wheels
+   * @param query Returns the surface at a world position
+   */
+  public setSurfaceQuery(query: SurfaceQuery): void {
+    this.surfaceQuery = query;
+    this.opponents.forEach(opponent => opponent.setSurfaceQuery(query));
+  }
+
+  /**
+   * Update AI and vehicles
+   * @param deltaTime Time since last update
+   * @param player Player vehicle
+   */
+  public update(deltaTime: number, player: Vehicle): void {
+    this.elapsedTime += deltaTime;
+
+    // Forget hits whose cooldown has passed
+    this.recentHits.forEach((time, key) => {
+      if (this.elapsedTime - time >= HIT_COOLDOWN) {
+        this.recentHits.delete(key);
+      }
+    });
+
+    const playerPosition = player.getPosition();
+
+    for (const opponent of this.opponents) {
+      // Only pedestrians the driver can see are worth considering
+      const humans = this.npcManager.getHumansInRadius(opponent.getPosition(), PEDESTRIAN_SIGHT_RANGE);
+      opponent.think(deltaTime, playerPosition, humans);
+      opponent.update(deltaTime);
+    }
+  }
+
+  /**
+   * Handle opponent collisions with pedestrians, buildings, props and each other
+   * (crashes with the player are handled by the CollisionManager)
+   * @param event Physics collision event
+   */
+  private handleCollision(event: any): void {
+    const bodyA = event.bodyA as CANNON.Body;
+    const bodyB = event.bodyB as CANNON.Body;
+
+    let opponent = this.getOpponentByBody(bodyA);
+    let other = bodyB;
+    if (!opponent) {
+      opponent = this.getOpponentByBody(bodyB);
+      other = bodyA;
+    }
+    if (!opponent) return;
+
+    const impactVelocity = Math.abs(event.impactVelocity || 0);
+    if (impactVelocity < 1) return;
+
+    // Ignore repeated contacts between the same bodies
+    const key = bodyA.id < bodyB.id ? `${bodyA.id}-${bodyB.id}` : `${bodyB.id}-${bodyA.id}`;
+    const lastHit = this.recentHits.get(key);
+    if (lastHit !== undefined && this.elapsedTime - lastHit < HIT_COOLDOWN) return;
+    this.recentHits.set(key, this.elapsedTime);
+
+    const contactPoint = new THREE.Vector3(other.position.x, other.position.y, other.position.z);
+    const otherType = this.collisionManager.getObjectType(other);
+
+    switch (otherType) {
+      case CollisionObjectType.HUMAN_NPC: {
+        // Opponents score for pedestrians too, and knock them flying
+        opponent.addScore(OPPONENT_PEDESTRIAN_POINTS);
+        const velocity = opponent.getBody().velocity;
+        this.npcManager.knockDownHuman(other, new THREE.Vector3(velocity.x, velocity.y, velocity.z));
+        if (this.particleSystem) {
+          this.particleSystem.createEffect(ParticleEffectType.BLOOD, contactPoint, new THREE.Vector3(0, 1, 0), 2.0);
+        }
+        break;
+      }
+
+      case CollisionObjectType.BUILDING:
+        opponent.applyDamage(impactVelocity, contactPoint, 1.0);
+        break;
+
+      case CollisionObjectType.PROP:
+        opponent.applyDamage(impactVelocity, contactPoint, 0.5);
+        break;
+
+      case CollisionObjectType.OPPONENT_VEHICLE: {
+        opponent.applyDamage(impactVelocity, contactPoint, 1.0);
+        const otherOpponent = this.getOpponentByBody(other);
+        if (otherOpponent) {
+          otherOpponent.applyDamage(impactVelocity, opponent.getPosition(), 1.0);
+        }
+        AudioManager.getInstance().playCollisionSound('building', Math.min(1.0, impactVelocity / 30), contactPoint);
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Find the opponent owning a physics body
+   * @param body Physics body
+   * @returns Opponent, or null
+   */
+  private getOpponentByBody(body: CANNON.Body): OpponentVehicle | null {
+    return this.opponents.find(opponent => opponent.getBody() === body) || null;
+  }
+
+  /**
+   * Get all opponents
+   * @returns Opponent vehicles
+   */
+  public getOpponents(): OpponentVehicle[] {
+    return this.opponents;
+  }
+
+  /**
+   * Remove all opponents
+   */
+  public clear(): void {
+    for (const opponent of this.opponents) {
+      this.collisionManager.unregisterOpponent(opponent);
+      opponent.dispose();
+    }
+    this.opponents = [];
+    this.recentHits.clear();
+  }
+}
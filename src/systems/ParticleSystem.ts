@@ -7,7 +7,10 @@ export enum ParticleEffectType {
   DEBRIS = 'debris',
   TIRE_SMOKE = 'tire_smoke',
   SKID_MARK = 'skid_mark',
-  SPARKS = 'sparks'
+  SPARKS = 'sparks',
+  EXHAUST_FLAME = 'exhaust_flame',
+  DUST = 'dust',
+  GRASS_SPRAY = 'grass_spray'
 }
 
 // Configuration interface for particle effects
@@ -55,6 +58,9 @@ export class ParticleSystem {
   // Next particle ID
   private nextParticleId: number = 0;
   
+  // Milliseconds simulated so far; only advances in update() so effects freeze while paused
+  private elapsedTime: number = 0;
+  
   // Permanent mesh objects (like skid marks)
   private permanentMeshes: THREE.Object3D[] = [];
   
@@ -169,6 +175,48 @@ export class ParticleSystem {
       opacity: 1.0,
       fadeOut: true
     });
+    
+    // Exhaust flame effect (nitro)
+    this.configs.set(ParticleEffectType.EXHAUST_FLAME, {
+      count: 12,
+      size: 0.4,
+      lifetime: 0.25,
+      speed: 6,
+      spread: 0.2,
+      color: new THREE.Color(0xff6600), // Orange
+      gravity: new THREE.Vector3(0, 1, 0),
+      texture: 'assets/textures/particles/spark.png',
+      opacity: 0.9,
+      fadeOut: true
+    });
+    
+    // Dust cloud from tyres on dirt
+    this.configs.set(ParticleEffectType.DUST, {
+      count: 20,
+      size: 0.8,
+      lifetime: 1.5,
+      speed: 1.0,
+      spread: 0.6,
+      color: new THREE.Color(0xa08060), // Sandy brown
+      gravity: new THREE.Vector3(0, 0.1, 0),
+      texture: 'assets/textures/particles/smoke.png',
+      opacity: 0.5,
+      fadeOut: true
+    });
+    
+    // Torn-up turf from tyres on grass
+    this.configs.set(ParticleEffectType.GRASS_SPRAY, {
+      count: 15,
+      size: 0.2,
+      lifetime: 0.8,
+      speed: 3,
+      spread: 0.4,
+      color: new THREE.Color(0x4a7a30), // Green
+      gravity: new THREE.Vector3(0, -9, 0),
+      texture: 'assets/textures/particles/debris.png',
+      opacity: 1.0,
+      fadeOut: true
+    });
   }
   
   /**
@@ -259,13 +307,15 @@ export class ParticleSystem {
    * @param position World position
    * @param direction Optional direction vector
    * @param intensity Optional intensity multiplier
+   * @param color Optional color override, used for skid marks
    * @returns ID of the created particle system
    */
   public createEffect(
     type: ParticleEffectType,
     position: THREE.Vector3,
     direction: THREE.Vector3 = new THREE.Vector3(0, 1, 0),
-    intensity: number = 1.0
+    intensity: number = 1.0,
+    color?: number
   ): number {
     console.log(`Creating particle effect: ${type} at position:`, position, `with intensity: ${intensity}`);
     
@@ -284,7 +334,7 @@ export class ParticleSystem {
     
     // Special case for skid marks
     if (type === ParticleEffectType.SKID_MARK) {
-      return this.createSkidMark(position, direction, intensity);
+      return this.createSkidMark(position, direction, intensity, color);
     }
     
     // For other particle types
@@ -347,7 +397,7 @@ export class ParticleSystem {
     this.activeParticles.set(particleId, {
       points,
       type,
-      startTime: performance.now(),
+      startTime: this.elapsedTime,
       lifetime: config.lifetime * 1000, // Convert to milliseconds
       velocities
     });
@@ -357,11 +407,13 @@ export class ParticleSystem {
   
   /**
    * Create a skid mark (special case particle)
+   * @param color Optional mark color, e.g. for the surface it was left on
    */
   private createSkidMark(
     position: THREE.Vector3,
     direction: THREE.Vector3,
-    intensity: number
+    intensity: number,
+    color?: number
   ): number {
     // Create a plane aligned with the ground
     const width = 0.3 * intensity;
@@ -371,7 +423,7 @@ export class ParticleSystem {
     
     const config = this.configs.get(ParticleEffectType.SKID_MARK);
     const material = new THREE.MeshBasicMaterial({
-      color: config?.color || 0x222222,
+      color: color ?? config?.color ?? 0x222222,
       transparent: true,
       opacity: config?.opacity || 0.8,
       depthWrite: false,
@@ -451,7 +503,8 @@ export class ParticleSystem {
       console.log(`Updating ${this.activeParticles.size} active particle systems`);
     }
     
-    const now = performance.now();
+    this.elapsedTime += deltaTime * 1000;
+    const now = this.elapsedTime;
     
     // Update each active particle system
     this.activeParticles.forEach((particleData, id) => {
@@ -0,0 +1,231 @@
+import * as THREE from 'three';
+import { Vehicle } from '../entities/vehicles/Vehicle';
+import { Pickup, PickupDefinition, PickupType } from '../game/Pickups';
+import { MissionManager } from '../game/MissionManager';
+import { CollisionManager } from './CollisionManager';
+import { NPCManager } from './NPCManager';
+import { AudioManager } from './AudioManager';
+
+// Distance from the car at which a pickup is collected
+const PICKUP_RADIUS = 3;
+
+// Seconds before a collected pickup reappears
+const RESPAWN_TIME = 45;
+
+// Marker animation
+const SPIN_SPEED = 2;     // Radians per second
+const BOB_HEIGHT = 0.3;
+const BOB_SPEED = 3;
+
+// A timed power-up that is currently working
+export interface ActiveEffect {
+  definition: PickupDefinition;
+  timeRemaining: number;
+}
+
+/**
+ * Collects the power-ups placed around the city and runs their effects
+ * on the player's car, the pedestrians and the collision rules
+ */
+export class PickupManager {
+  // Seconds left on each running effect
+  private activeEffects: Map<PickupType, ActiveEffect> = new Map();
+  private elapsedTime: number = 0;
+
+  // Optional mission whose clock time bonuses add to
+  private missionManager: MissionManager | null = null;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene the markers are in
+   * @param pickups Pickups placed by the city generator
+   * @param player Player vehicle
+   * @param npcManager NPC manager (pedestrian magnet, frozen pedestrians)
+   * @param collisionManager Collision manager (bouncy car)
+   */
+  constructor(
+    private scene: THREE.Scene,
+    private pickups: Pickup[],
+    private player: Vehicle,
+    private npcManager: NPCManager,
+    private collisionManager: CollisionManager
+  ) {}
+
+  /**
+   * Set the mission whose clock time bonuses add to
+   * @param missionManager Mission manager
+   */
+  public setMissionManager(missionManager: MissionManager): void {
+    this.missionManager = missionManager;
+  }
+
+  /**
+   * Animate the pickups, collect any the player drives through and run down the effect timers
+   * @param deltaTime Time since last update
+   */
+  public update(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+    const playerPosition = this.player.getPosition();
+
+    this.pickups.forEach((pickup, index) => {
+      // Collected pickups reappear after a while
+      if (pickup.respawnTimer > 0) {
+        pickup.respawnTimer = Math.max(0, pickup.respawnTimer - deltaTime);
+        pickup.marker.visible = pickup.respawnTimer === 0;
+        return;
+      }
+
+      // Spin and bob, out of step with each other
+      pickup.marker.rotation.y += SPIN_SPEED * deltaTime;
+      pickup.marker.position.y = pickup.position.y + Math.sin(this.elapsedTime * BOB_SPEED + index) * BOB_HEIGHT;
+
+      const dx = playerPosition.x - pickup.position.x;
+      const dz = playerPosition.z - pickup.position.z;
+      if (dx * dx + dz * dz < PICKUP_RADIUS * PICKUP_RADIUS && !this.player.isWrecked()) {
+        this.collect(pickup);
+      }
+    });
+
+    this.updateEffects(deltaTime, playerPosition);
+  }
+
+  /**
+   * Take a pickup and apply its effect
+   * @param pickup Pickup driven through
+   */
+  private collect(pickup: Pickup): void {
+    pickup.respawnTimer = RESPAWN_TIME;
+    pickup.marker.visible = false;
+
+    const definition = pickup.definition;
+    console.log(`Picked up ${definition.name}`);
+    AudioManager.getInstance().playUISound('score');
+
+    switch (definition.type) {
+      case PickupType.REPAIR:
+        this.player.repair(definition.amount ?? 0);
+        break;
+
+      case PickupType.NITRO:
+        this.player.refillNitro(definition.amount ?? 0);
+        break;
+
+      case PickupType.TIME_BONUS:
+        if (this.missionManager) {
+          this.missionManager.addTime(definition.amount ?? 0);
+        }
+        break;
+
+      default:
+        // Timed effects; picking one up again restarts the clock
+        if (!this.activeEffects.has(definition.type)) {
+          this.startEffect(definition);
+        }
+        this.activeEffects.set(definition.type, { definition, timeRemaining: definition.duration });
+        break;
+    }
+  }
+
+  /**
+   * Run down the timers of the active effects and end those that have expired
+   * @param deltaTime Time since last update
+   * @param playerPosition Position of the player's car
+   */
+  private updateEffects(deltaTime: number, playerPosition: THREE.Vector3): void {
+    this.activeEffects.forEach((effect, type) => {
+      effect.timeRemaining -= deltaTime;
+      if (effect.timeRemaining <= 0) {
+        this.endEffect(type);
+        this.activeEffects.delete(type);
+      }
+    });
+
+    // The magnet moves with the car
+    if (this.activeEffects.has(PickupType.PEDESTRIAN_MAGNET)) {
+      this.npcManager.setMagnet(playerPosition);
+    }
+  }
+
+  /**
+   * Switch a timed effect on
+   * @param definition Power-up collected
+   */
+  private startEffect(definition: PickupDefinition): void {
+    switch (definition.type) {
+      case PickupType.PEDESTRIAN_MAGNET:
+        this.npcManager.setMagnet(this.player.getPosition());
+        break;
+
+      case PickupType.FROZEN_PEDESTRIANS:
+        this.npcManager.setPedestriansFrozen(true);
+        break;
+
+      case PickupType.BOUNCY_CAR:
+        this.collisionManager.setBouncyCar(true);
+        break;
+
+      case PickupType.ARMOURED_BUMPER:
+        this.player.setFrontArmour(true);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Switch a timed effect off
+   * @param type Power-up that wore off
+   */
+  private endEffect(type: PickupType): void {
+    switch (type) {
+      case PickupType.PEDESTRIAN_MAGNET:
+        this.npcManager.setMagnet(null);
+        break;
+
+      case PickupType.FROZEN_PEDESTRIANS:
+        this.npcManager.setPedestriansFrozen(false);
+        break;
+
+      case PickupType.BOUNCY_CAR:
+        this.collisionManager.setBouncyCar(false);
+        break;
+
+      case PickupType.ARMOURED_BUMPER:
+        this.player.setFrontArmour(false);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Get the timed effects that are currently working
+   * @returns Active effects with their remaining time
+   */
+  public getActiveEffects(): ActiveEffect[] {
+    return Array.from(this.activeEffects.values());
+  }
+
+  /**
+   * Get all pickups in the city
+   * @returns Pickups
+   */
+  public getPickups(): Pickup[] {
+    return this.pickups;
+  }
+
+  /**
+   * End all effects and remove the pickups from the scene
+   */
+  public dispose(): void {
+    this.activeEffects.forEach((_, type) => this.endEffect(type));
+    this.activeEffects.clear();
+
+    for (const pickup of this.pickups) {
+      this.scene.remove(pickup.marker);
+    }
+    this.pickups = [];
+  }
+}
@@ -0,0 +1,409 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { PhysicsWorld } from '../core/physics/PhysicsWorld';
+import { RoadNetwork } from '../core/environment/RoadNetwork';
+import { SurfaceQuery } from '../core/environment/Surfaces';
+import { PoliceCar, POLICE_SIGHT_RANGE } from '../entities/vehicles/PoliceCar';
+import { Vehicle } from '../entities/vehicles/Vehicle';
+import { CollisionManager, CollisionEvent, CollisionObjectType } from './CollisionManager';
+import { NPCManager } from './NPCManager';
+import { AudioManager } from './AudioManager';
+
+// Heat gained for each kind of thing the player crashes into
+const offenceHeat: Partial<Record<CollisionObjectType, number>> = {
+  [CollisionObjectType.HUMAN_NPC]: 30,
+  [CollisionObjectType.ANIMAL_NPC]: 8,
+  [CollisionObjectType.CIVILIAN_VEHICLE]: 12,
+  [CollisionObjectType.OPPONENT_VEHICLE]: 4,
+  [CollisionObjectType.POLICE_VEHICLE]: 25,
+  [CollisionObjectType.PROP]: 1
+};
+const STATUE_HEAT = 80;
+
+// Heat needed for each star of the wanted level
+const wantedThresholds = [20, 60, 120, 200, 300];
+export const MAX_WANTED_LEVEL = wantedThresholds.length;
+const MAX_HEAT = 400;
+
+// Police cars on the streets at each wanted level
+const policeCarsPerLevel = [0, 1, 2, 3, 4, 6];
+
+// How heat drops while the player stays clean
+const CLEAN_DELAY = 8;              // Seconds without an offence before heat starts to drop
+const HEAT_DECAY_RATE = 4;          // Heat lost per second while the police can see the player
+const UNSEEN_DECAY_MULTIPLIER = 3;  // Heat drops faster once the police have lost sight
+
+// Spawning and removal of police cars
+const SPAWN_MIN_DISTANCE = 80;
+const SPAWN_MAX_DISTANCE = 160;
+const SPAWN_INTERVAL = 3;           // Seconds between reinforcements
+const DESPAWN_DISTANCE = 250;
+const WRECK_CLEAR_TIME = 15;        // Seconds a wreck stays before it is towed away
+
+// Siren is audible within this distance
+const SIREN_RANGE = 120;
+
+// Minimum time between two hits of the same pair of bodies (seconds)
+const HIT_COOLDOWN = 1;
+
+/**
+ * Tracks the player's wanted level from their offences and sends police cars
+ * after them, more of them and more aggressive the higher the level
+ */
+export class PoliceManager {
+  private policeCars: PoliceCar[] = [];
+
+  // Wanted level state
+  private heat: number = 0;
+  private wantedLevel: number = 0;
+  private timeSinceOffence: number = Infinity;
+  private spawnTimer: number = 0;
+
+  // Seconds each police car has been wrecked for
+  private wreckTimes: Map<PoliceCar, number> = new Map();
+
+  // Time of the last processed hit per body pair
+  private recentHits: Map<string, number> = new Map();
+  private elapsedTime: number = 0;
+
+  private sirenPlaying: boolean = false;
+
+  // Finds the ground under the police cars' wheels
+  private surfaceQuery: SurfaceQuery | null = null;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param collisionManager Collision manager reporting the player's crashes
+   * @param npcManager NPC manager, for police running over pedestrians
+   * @param roadNetwork City road network
+   */
+  constructor(
+    private scene: THREE.Scene,
+    private physicsWorld: PhysicsWorld,
+    private collisionManager: CollisionManager,
+    private npcManager: NPCManager,
+    private roadNetwork: RoadNetwork
+  ) {
+    this.collisionManager.registerCollisionCallback(this.handleOffence.bind(this));
+    this.physicsWorld.registerCollisionCallback(this.handlePoliceCollision.bind(this));
+  }
+
+  /**
+   * Add heat for whatever the player just crashed into
+   * @param event Collision event
+   */
+  private handleOffence(event: CollisionEvent): void {
+    const isStatue = event.target !== null && event.target.userData.isTrumpStatue === true;
+    const heat = isStatue ? STATUE_HEAT : offenceHeat[event.targetType];
+    if (!heat) return;
+
+    // Being rammed by the police is not an offence, ramming them is
+    if (event.targetType === CollisionObjectType.POLICE_VEHICLE) {
+      const playerBody = event.targetBody === event.bodyA ? event.bodyB : event.bodyA;
+      if (event.targetBody.velocity.length() > playerBody.velocity.length()) return;
+    }
+
+    this.addHeat(heat);
+  }
+
+  /**
+   * Raise the heat and the wanted level with it
+   * @param amount Heat to add
+   */
+  public addHeat(amount: number): void {
+    this.heat = Math.min(MAX_HEAT, this.heat + amount);
+    this.timeSinceOffence = 0;
+
+    const level = this.getLevelForHeat();
+    if (level > this.wantedLevel) {
+      console.log(`Wanted level raised to ${level}`);
+      this.wantedLevel = level;
+
+      // Reinforcements are sent straight away
+      this.spawnTimer = 0;
+    }
+  }
+
+  /**
+   * Work out the wanted level the current heat is worth
+   * @returns Wanted level (0 - MAX_WANTED_LEVEL)
+   */
+  private getLevelForHeat(): number {
+    let level = 0;
+    while (level < wantedThresholds.length && this.heat >= wantedThresholds[level]) {
+      level++;
+    }
+    return level;
+  }
+
+  /**
+   * Handle police collisions with pedestrians, buildings, props and other cars
+   * (crashes with the player are handled by the CollisionManager)
+   * @param event Physics collision event
+   */
+  private handlePoliceCollision(event: any): void {
+    const bodyA = event.bodyA as CANNON.Body;
+    const bodyB = event.bodyB as CANNON.Body;
+
+    let policeCar = this.getPoliceCarByBody(bodyA);
+    let other = bodyB;
+    if (!policeCar) {
+      policeCar = this.getPoliceCarByBody(bodyB);
+      other = bodyA;
+    }
+    if (!policeCar) return;
+
+    const impactVelocity = Math.abs(event.impactVelocity || 0);
+    if (impactVelocity < 1) return;
+
+    // Ignore repeated contacts between the same bodies
+    const key = bodyA.id < bodyB.id ? `${bodyA.id}-${bodyB.id}` : `${bodyB.id}-${bodyA.id}`;
+    const lastHit = this.recentHits.get(key);
+    if (lastHit !== undefined && this.elapsedTime - lastHit < HIT_COOLDOWN) return;
+    this.recentHits.set(key, this.elapsedTime);
+
+    const contactPoint = new THREE.Vector3(other.position.x, other.position.y, other.position.z);
+
+    switch (this.collisionManager.getObjectType(other)) {
+      case CollisionObjectType.HUMAN_NPC: {
+        // Thins out a race crowd like any other knockdown; the race ends on the live population
+        const velocity = policeCar.getBody().velocity;
+        this.npcManager.knockDownHuman(other, new THREE.Vector3(velocity.x, velocity.y, velocity.z));
+        break;
+      }
+
+      case CollisionObjectType.BUILDING:
+      case CollisionObjectType.OPPONENT_VEHICLE:
+      case CollisionObjectType.POLICE_VEHICLE:
+        policeCar.applyDamage(impactVelocity, contactPoint, 0.8);
+        break;
+
+      case CollisionObjectType.PROP:
+        policeCar.applyDamage(impactVelocity, contactPoint, 0.4);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Update the wanted level, the police cars and the siren
+   * @param deltaTime Time since last update
+   * @param player Player vehicle
+   */
+  public update(deltaTime: number, player: Vehicle): void {
+    this.elapsedTime += deltaTime;
+
+    // Forget hits whose cooldown has passed
+    this.recentHits.forEach((time, key) => {
+      if (this.elapsedTime - time >= HIT_COOLDOWN) {
+        this.recentHits.delete(key);
+      }
+    });
+
+    const playerPosition = player.getPosition();
+    this.updateHeat(deltaTime, playerPosition);
+
+    for (const policeCar of this.policeCars) {
+      policeCar.think(deltaTime, player, this.wantedLevel);
+      policeCar.update(deltaTime);
+
+      if (policeCar.isWrecked()) {
+        this.wreckTimes.set(policeCar, (this.wreckTimes.get(policeCar) || 0) + deltaTime);
+      }
+    }
+
+    this.removeDistantCars(playerPosition);
+    this.spawnReinforcements(deltaTime, playerPosition);
+    this.updateSiren(playerPosition);
+  }
+
+  /**
+   * Let the heat drop while the player stays clean
+   * @param deltaTime Time since last update
+   * @param playerPosition Position of the player's car
+   */
+  private updateHeat(deltaTime: number, playerPosition: THREE.Vector3): void {
+    this.timeSinceOffence += deltaTime;
+    if (this.heat === 0 || this.timeSinceOffence < CLEAN_DELAY) return;
+
+    const rate = this.isPlayerSeen(playerPosition)
+      ? HEAT_DECAY_RATE
+      : HEAT_DECAY_RATE * UNSEEN_DECAY_MULTIPLIER;
+    this.heat = Math.max(0, this.heat - rate * deltaTime);
+
+    const level = this.getLevelForHeat();
+    if (level < this.wantedLevel) {
+      console.log(level === 0 ? 'Police lost interest' : `Wanted level dropped to ${level}`);
+      this.wantedLevel = level;
+    }
+  }
+
+  /**
+   * Check whether any working police car is close enough to see the player
+   * @param playerPosition Position of the player's car
+   * @returns True if the player is in sight of the police
+   */
+  private isPlayerSeen(playerPosition: THREE.Vector3): boolean {
+    return this.policeCars.some(policeCar =>
+      !policeCar.isWrecked() && policeCar.getPosition().distanceTo(playerPosition) < POLICE_SIGHT_RANGE
+    );
+  }
+
+  /**
+   * Send more police cars when there are fewer than the wanted level calls for
+   * @param deltaTime Time since last update
+   * @param playerPosition Position of the player's car
+   */
+  private spawnReinforcements(deltaTime: number, playerPosition: THREE.Vector3): void {
+    this.spawnTimer = Math.max(0, this.spawnTimer - deltaTime);
+    if (this.spawnTimer > 0) return;
+
+    const working = this.policeCars.filter(policeCar => !policeCar.isWrecked()).length;
+    if (working >= policeCarsPerLevel[this.wantedLevel]) return;
+
+    // Come in from a junction out of sight of the player
+    const candidates = this.roadNetwork.getNodes().filter(node => {
+      const distance = node.position.distanceTo(playerPosition);
+      return distance > SPAWN_MIN_DISTANCE && distance < SPAWN_MAX_DISTANCE && node.neighbours.length > 0;
+    });
+    if (candidates.length === 0) return;
+
+    const node = candidates[Math.floor(Math.random() * candidates.length)];
+    const policeCar = new PoliceCar(this.scene, this.physicsWorld, this.roadNetwork, node.id);
+    policeCar.enableEngineSound();
+    if (this.surfaceQuery) {
+      policeCar.setSurfaceQuery(this.surfaceQuery);
+    }
+    this.collisionManager.registerPoliceCar(policeCar);
+    this.policeCars.push(policeCar);
+    this.spawnTimer = SPAWN_INTERVAL;
+  }
+
+  /**
+   * Remove wrecks that have been around a while, and cars that are no longer needed
+   * @param playerPosition Position of the player's car
+   */
+  private removeDistantCars(playerPosition: THREE.Vector3): void {
+    const needed = policeCarsPerLevel[this.wantedLevel];
+    let working = this.policeCars.filter(policeCar => !policeCar.isWrecked()).length;
+
+    this.policeCars = this.policeCars.filter(policeCar => {
+      const distance = policeCar.getPosition().distanceTo(playerPosition);
+      const wreckTime = this.wreckTimes.get(policeCar) || 0;
+
+      // Spare cars drive off and vanish once out of sight
+      const spare = !policeCar.isWrecked() && working > needed && distance > SPAWN_MIN_DISTANCE;
+      const remove = wreckTime > WRECK_CLEAR_TIME || distance > DESPAWN_DISTANCE || spare;
+      if (!remove) return true;
+
+      if (!policeCar.isWrecked()) {
+        working--;
+      }
+      this.removePoliceCar(policeCar);
+      return false;
+    });
+  }
+
+  /**
+   * Take a police car out of the world
+   * @param policeCar Police car
+   */
+  private removePoliceCar(policeCar: PoliceCar): void {
+    this.collisionManager.unregisterPoliceCar(policeCar);
+    this.wreckTimes.delete(policeCar);
+    policeCar.dispose();
+  }
+
+  /**
+   * Play the siren while a chase is on, louder the closer the nearest police car
+   * @param playerPosition Position of the player's car
+   */
+  private updateSiren(playerPosition: THREE.Vector3): void {
+    const audioManager = AudioManager.getInstance();
+
+    let nearest = Infinity;
+    for (const policeCar of this.policeCars) {
+      if (!policeCar.isInPursuit()) continue;
+      nearest = Math.min(nearest, policeCar.getPosition().distanceTo(playerPosition));
+    }
+
+    if (nearest > SIREN_RANGE) {
+      if (this.sirenPlaying) {
+        audioManager.stopSiren();
+        this.sirenPlaying = false;
+      }
+      return;
+    }
+
+    if (!this.sirenPlaying) {
+      audioManager.startSiren();
+      this.sirenPlaying = true;
+    }
+    audioManager.updateSiren(1 - nearest / SIREN_RANGE);
+  }
+
+  /**
+   * Find the police car owning a physics body
+   * @param body Physics body
+   * @returns Police car, or null
+   */
+  private getPoliceCarByBody(body: CANNON.Body): PoliceCar | null {
+    return this.policeCars.find(policeCar => policeCar.getBody() === body) || null;
+  }
+
+  /**
+   * Get the player's wanted level
+   * @returns Wanted level (0 - MAX_WANTED_LEVEL)
+   */
+  public getWantedLevel(): number {
+    return this.wantedLevel;
+  }
+
+  /**
+   * Get the heat behind the wanted level
+   * @returns Heat as a fraction of the maximum (0-1)
+   */
+  public getHeat(): number {
+    return this.heat / MAX_HEAT;
+  }
+
+  /**
+   * Set how the police cars find the surface under their wheels
+   * @param query Returns the surface at a world position
+   */
+  public setSurfaceQuery(query: SurfaceQuery): void {
+    this.surfaceQuery = query;
+    this.policeCars.forEach(policeCar => policeCar.setSurfaceQuery(query));
+  }
+
+  /**
+   * Get all police cars on the streets
+   * @returns Police cars
+   */
+  public getPoliceCars(): PoliceCar[] {
+    return this.policeCars;
+  }
+
+  /**
+   * Remove all police cars and forget the player's record
+   */
+  public clear(): void {
+    for (const policeCar of this.policeCars) {
+      this.removePoliceCar(policeCar);
+    }
+    this.policeCars = [];
+    this.recentHits.clear();
+    this.heat = 0;
+    this.wantedLevel = 0;
+    this.timeSinceOffence = Infinity;
+
+    if (this.sirenPlaying) {
+      AudioManager.getInstance().stopSiren();
+      this.sirenPlaying = false;
+    }
+  }
+}
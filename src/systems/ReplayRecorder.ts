@@ -0,0 +1,254 @@
+import * as THREE from 'three';
+import { CollisionObjectType } from './CollisionManager';
+import { FIXED_TIME_STEP } from '../core/physics/PhysicsWorld';
+
+// Seconds of play kept for the replay
+export const REPLAY_SECONDS = 20;
+
+// Bumped when the exported replay format changes
+const REPLAY_FORMAT_VERSION = 1;
+
+// Rotations are stored as quaternion components scaled to 16-bit integers
+const ROTATION_SCALE = 32767;
+
+// What a recorded object is
+export enum ReplayActorKind {
+  VEHICLE = 'vehicle',
+  PEDESTRIAN = 'pedestrian',
+  ANIMAL = 'animal',
+  RAGDOLL_PART = 'ragdoll_part'
+}
+
+// An object offered for recording
+export interface ReplayActorSource {
+  object: THREE.Object3D;
+  kind: ReplayActorKind;
+}
+
+// An object that appears in the recording
+export interface ReplayActor {
+  id: number;
+  kind: ReplayActorKind;
+  object: THREE.Object3D;
+  size: THREE.Vector3; // Bounding box when first seen, for stand-ins once the object is gone
+  lastSeen: number;    // Recording time of the last frame it was in
+}
+
+// Transforms of every recorded object at one fixed tick
+export interface ReplayFrame {
+  time: number;
+  actorIds: Uint32Array;
+  positions: Float32Array; // x, y, z per actor
+  rotations: Int16Array;   // Quaternion x, y, z, w per actor
+}
+
+// A collision that happened during the recording
+export interface ReplayEvent {
+  time: number;
+  type: CollisionObjectType;
+  position: THREE.Vector3;
+  impactVelocity: number;
+}
+
+// A recording ready to be played back, with times counted from its first frame
+export interface ReplayClip {
+  duration: number;
+  actors: Map<number, ReplayActor>;
+  frames: ReplayFrame[];
+  events: ReplayEvent[];
+}
+
+/**
+ * Records the transforms of vehicles, NPCs and ragdolls every fixed tick, and
+ * the collisions between them, keeping the last few seconds for the replay viewer
+ */
+export class ReplayRecorder {
+  private collectActors: () => ReplayActorSource[];
+  private maxFrames: number;
+
+  private frames: ReplayFrame[] = [];
+  private events: ReplayEvent[] = [];
+
+  // Everything seen during the kept frames, by object
+  private actors: Map<THREE.Object3D, ReplayActor> = new Map();
+  private nextActorId: number = 0;
+
+  // Seconds recorded since the start
+  private time: number = 0;
+
+  /**
+   * Constructor
+   * @param collectActors Returns the objects to record this tick
+   * @param duration Seconds of play to keep
+   */
+  constructor(collectActors: () => ReplayActorSource[], duration: number = REPLAY_SECONDS) {
+    this.collectActors = collectActors;
+    this.maxFrames = Math.ceil(duration / FIXED_TIME_STEP);
+  }
+
+  /**
+   * Record one fixed tick, run from the physics fixed step
+   * @param deltaTime Fixed time step
+   */
+  public record(deltaTime: number): void {
+    this.time += deltaTime;
+
+    // Objects that have been removed from the scene are no longer recorded
+    const sources = this.collectActors().filter(source => source.object.parent !== null);
+
+    const frame: ReplayFrame = {
+      time: this.time,
+      actorIds: new Uint32Array(sources.length),
+      positions: new Float32Array(sources.length * 3),
+      rotations: new Int16Array(sources.length * 4)
+    };
+
+    sources.forEach((source, slot) => {
+      const actor = this.getActor(source);
+      actor.lastSeen = this.time;
+
+      const { position, quaternion } = source.object;
+      frame.actorIds[slot] = actor.id;
+      frame.positions[slot * 3] = position.x;
+      frame.positions[slot * 3 + 1] = position.y;
+      frame.positions[slot * 3 + 2] = position.z;
+      frame.rotations[slot * 4] = Math.round(quaternion.x * ROTATION_SCALE);
+      frame.rotations[slot * 4 + 1] = Math.round(quaternion.y * ROTATION_SCALE);
+      frame.rotations[slot * 4 + 2] = Math.round(quaternion.z * ROTATION_SCALE);
+      frame.rotations[slot * 4 + 3] = Math.round(quaternion.w * ROTATION_SCALE);
+    });
+
+    this.frames.push(frame);
+    if (this.frames.length > this.maxFrames) {
+      this.frames.shift();
+      this.dropExpired();
+    }
+  }
+
+  /**
+   * Record a collision at the current time
+   * @param type What was hit
+   * @param position Where it happened
+   * @param impactVelocity How hard it was
+   */
+  public recordEvent(type: CollisionObjectType, position: THREE.Vector3, impactVelocity: number): void {
+    this.events.push({ time: this.time, type, position: position.clone(), impactVelocity });
+  }
+
+  /**
+   * Find the recorded actor of an object, adding it when first seen
+   * @param source Object to record
+   * @returns Actor
+   */
+  private getActor(source: ReplayActorSource): ReplayActor {
+    let actor = this.actors.get(source.object);
+    if (!actor) {
+      const size = new THREE.Box3().setFromObject(source.object).getSize(new THREE.Vector3());
+      actor = {
+        id: this.nextActorId++,
+        kind: source.kind,
+        object: source.object,
+        size,
+        lastSeen: this.time
+      };
+      this.actors.set(source.object, actor);
+    }
+    return actor;
+  }
+
+  /**
+   * Forget actors and collisions older than the oldest kept frame
+   */
+  private dropExpired(): void {
+    const oldest = this.frames[0].time;
+
+    this.actors.forEach((actor, object) => {
+      if (actor.lastSeen < oldest) {
+        this.actors.delete(object);
+      }
+    });
+
+    while (this.events.length > 0 && this.events[0].time < oldest) {
+      this.events.shift();
+    }
+  }
+
+  /**
+   * Get the kept recording for playback
+   * @returns Clip starting at time 0, or null if less than two frames were recorded
+   */
+  public getClip(): ReplayClip | null {
+    if (this.frames.length < 2) return null;
+
+    const start = this.frames[0].time;
+    const actors = new Map<number, ReplayActor>();
+    this.actors.forEach(actor => actors.set(actor.id, actor));
+
+    return {
+      duration: this.frames[this.frames.length - 1].time - start,
+      actors,
+      frames: this.frames.map(frame => ({ ...frame, time: frame.time - start })),
+      events: this.events.map(event => ({ ...event, time: event.time - start }))
+    };
+  }
+
+  /**
+   * Throw away everything recorded so far
+   */
+  public clear(): void {
+    this.frames = [];
+    this.events = [];
+    this.actors.clear();
+  }
+}
+
+/**
+ * Read a recorded rotation back into a quaternion
+ * @param rotations Rotations of a frame
+ * @param slot Actor slot in the frame
+ * @param target Quaternion to write to
+ * @returns The target quaternion, normalized
+ */
+export function readReplayRotation(rotations: Int16Array, slot: number, target: THREE.Quaternion): THREE.Quaternion {
+  return target.set(
+    rotations[slot * 4] / ROTATION_SCALE,
+    rotations[slot * 4 + 1] / ROTATION_SCALE,
+    rotations[slot * 4 + 2] / ROTATION_SCALE,
+    rotations[slot * 4 + 3] / ROTATION_SCALE
+  ).normalize();
+}
+
+/**
+ * Write a clip as JSON, with positions rounded to centimetres to keep the file small
+ * @param clip Recording
+ * @param seed City seed the recording was made in
+ * @returns JSON text
+ */
+export function serializeReplay(clip: ReplayClip, seed: number): string {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const roundTime = (value: number) => Math.round(value * 1000) / 1000;
+
+  return JSON.stringify({
+    version: REPLAY_FORMAT_VERSION,
+    seed,
+    timeStep: FIXED_TIME_STEP,
+    duration: roundTime(clip.duration),
+    actors: Array.from(clip.actors.values()).map(actor => ({
+      id: actor.id,
+      kind: actor.kind,
+      size: actor.size.toArray().map(round)
+    })),
+    frames: clip.frames.map(frame => ({
+      time: roundTime(frame.time),
+      actors: Array.from(frame.actorIds),
+      positions: Array.from(frame.positions, round),
+      rotations: Array.from(frame.rotations)
+    })),
+    events: clip.events.map(event => ({
+      time: roundTime(event.time),
+      type: event.type,
+      position: event.position.toArray().map(round),
+      impactVelocity: round(event.impactVelocity)
+    }))
+  });
+}
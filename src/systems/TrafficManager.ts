@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import { PhysicsWorld } from '../core/physics/PhysicsWorld';
+import { RoadNetwork } from '../core/environment/RoadNetwork';
+import { CivilianCar } from '../entities/vehicles/CivilianCar';
+import { Vehicle } from '../entities/vehicles/Vehicle';
+import { CollisionManager, CollisionObjectType } from './CollisionManager';
+
+/**
+ * Manages ambient civilian traffic driving around the player
+ */
+export class TrafficManager {
+  private cars: CivilianCar[] = [];
+
+  // Spawn settings
+  private maxCars: number = 20;
+  private spawnInterval: number = 1.0; // Seconds
+  private spawnTimer: number = 0;
+  private minSpawnDistance: number = 60;
+  private maxSpawnDistance: number = 150;
+  private despawnDistance: number = 180;
+
+  // Crashed cars are cleared away after this long (seconds)
+  private wreckLifetime: number = 30;
+
+  // Impact speed that wrecks a civilian car
+  private crashVelocity: number = 4;
+
+  /**
+   * Constructor
+   * @param scene THREE.js scene
+   * @param physicsWorld Physics world
+   * @param collisionManager Collision manager for registering cars
+   * @param roadNetwork Road network the traffic drives on
+   */
+  constructor(
+    private scene: THREE.Scene,
+    private physicsWorld: PhysicsWorld,
+    private collisionManager: CollisionManager,
+    private roadNetwork: RoadNetwork
+  ) {
+    this.physicsWorld.registerCollisionCallback(this.handleCollision.bind(this));
+  }
+
+  /**
+   * Update all traffic
+   * @param deltaTime Time since last update
+   * @param player Player vehicle
+   */
+  public update(deltaTime: number, player: Vehicle): void {
+    const playerPosition = player.getPosition();
+    const playerSpeed = player.getSpeed();
+
+    // Keep the streets around the player busy
+    this.spawnTimer -= deltaTime;
+    if (this.spawnTimer <= 0) {
+      this.spawnTimer = this.spawnInterval;
+      this.trySpawnCar(playerPosition);
+    }
+
+    const isJunctionBusy = (nodeId: number, car: CivilianCar) => this.isJunctionBusy(nodeId, car);
+    const isBlockedAhead = (car: CivilianCar) => this.isBlockedAhead(car);
+
+    for (let i = this.cars.length - 1; i >= 0; i--) {
+      const car = this.cars[i];
+      car.update(deltaTime, playerPosition, playerSpeed, isJunctionBusy, isBlockedAhead);
+
+      // Remove cars that are far away or have been wrecked for a while
+      const distance = car.getPosition().distanceTo(playerPosition);
+      if (distance > this.despawnDistance || car.getCrashedTime() > this.wreckLifetime) {
+        this.removeCar(i);
+      }
+    }
+  }
+
+  /**
+   * Spawn a car in a lane away from the player
+   * @param playerPosition Player position
+   */
+  private trySpawnCar(playerPosition: THREE.Vector3): void {
+    if (this.cars.length >= this.maxCars) return;
+
+    const segments = this.roadNetwork.getSegments();
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const segment = segments[Math.floor(Math.random() * segments.length)];
+
+      // Random direction of travel along the segment
+      const forwards = Math.random() < 0.5;
+      const fromNode = forwards ? segment.from : segment.to;
+      const toNode = forwards ? segment.to : segment.from;
+      const progress = 0.2 + Math.random() * 0.6;
+
+      const position = this.roadNetwork.getLanePoint(fromNode, toNode, progress);
+      const distance = position.distanceTo(playerPosition);
+      if (distance < this.minSpawnDistance || distance > this.maxSpawnDistance) continue;
+
+      // Keep clear of other cars
+      if (this.cars.some(car => car.getPosition().distanceTo(position) < 10)) continue;
+
+      const car = new CivilianCar(this.scene, this.physicsWorld, this.roadNetwork, fromNode, toNode, progress);
+      this.collisionManager.registerObject(car.getBody(), CollisionObjectType.CIVILIAN_VEHICLE);
+      this.cars.push(car);
+      return;
+    }
+  }
+
+  /**
+   * Check whether any other car is crossing a junction
+   * @param nodeId Junction node
+   * @param self Car asking
+   * @returns True if the junction is occupied
+   */
+  private isJunctionBusy(nodeId: number, self: CivilianCar): boolean {
+    return this.cars.some(car => car !== self && !car.isCrashed() && car.isInJunction(nodeId));
+  }
+
+  /**
+   * Check whether a car is about to run into the back of another one
+   * @param self Car asking
+   * @returns True if there is a car just ahead in the same direction
+   */
+  private isBlockedAhead(self: CivilianCar): boolean {
+    const position = self.getPosition();
+    const heading = self.getHeading();
+    const forward = new THREE.Vector3(Math.sin(heading), 0, Math.cos(heading));
+
+    for (const car of this.cars) {
+      if (car === self) continue;
+
+      const offset = car.getPosition().sub(position);
+      offset.y = 0;
+      const ahead = offset.dot(forward);
+      if (ahead <= 0 || ahead > 9) continue;
+
+      // Same lane: small sideways offset and roughly the same heading
+      const lateral = Math.abs(offset.x * forward.z - offset.z * forward.x);
+      if (lateral < 2 && Math.cos(car.getHeading() - heading) > 0.5) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Wreck civilian cars hit hard by the player, opponents or each other
+   * (scoring for the player's hits is done by the CollisionManager)
+   * @param event Physics collision event
+   */
+  private handleCollision(event: any): void {
+    if (Math.abs(event.impactVelocity || 0) < this.crashVelocity) return;
+
+    const bodyA = event.bodyA as CANNON.Body;
+    const bodyB = event.bodyB as CANNON.Body;
+
+    for (const [body, other] of [[bodyA, bodyB], [bodyB, bodyA]]) {
+      const car = this.cars.find(c => c.getBody() === body);
+      if (!car) continue;
+
+      const otherType = this.collisionManager.getObjectType(other);
+      if (otherType === CollisionObjectType.VEHICLE ||
+          otherType === CollisionObjectType.OPPONENT_VEHICLE ||
+          otherType === CollisionObjectType.CIVILIAN_VEHICLE) {
+        car.crash();
+      }
+    }
+  }
+
+  /**
+   * Remove a car by index
+   * @param index Index in the cars array
+   */
+  private removeCar(index: number): void {
+    const car = this.cars[index];
+    car.dispose();
+    this.cars.splice(index, 1);
+  }
+
+  /**
+   * Get all civilian cars
+   * @returns Civilian cars
+   */
+  public getCars(): CivilianCar[] {
+    return this.cars;
+  }
+
+  /**
+   * Remove all traffic
+   */
+  public clear(): void {
+    for (let i = this.cars.length - 1; i >= 0; i--) {
+      this.removeCar(i);
+    }
+  }
+}
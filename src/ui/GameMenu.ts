@@ -1,12 +1,56 @@
+import { GameOptions, GameMode } from '../game/GameOptions';
+import { SeededRandom } from '../core/utils/SeededRandom';
+import { missions, getMission } from '../game/Missions';
+import { RACE_LAPS, RACE_PEDESTRIANS, formatRaceTime } from '../game/RaceManager';
+import { SaveManager } from '../game/SaveManager';
+import { AudioManager } from '../systems/AudioManager';
+import { SettingsScreen } from './SettingsScreen';
+import { VehicleSpec, DrivingModel, vehicles, getVehicleSpec, DEFAULT_VEHICLE_ID } from '../entities/vehicles/VehicleCatalog';
+
+// Game modes in menu order
+const MODES: Array<{ mode: GameMode; label: string }> = [
+  { mode: GameMode.FREE_ROAM, label: 'Free Roam' },
+  { mode: GameMode.MISSION, label: 'Mission' },
+  { mode: GameMode.RACE, label: 'Checkpoint Race' }
+];
+
 /**
  * GameMenu class handles the initial game menu screen with Carmageddon-style UI
  */
 export class GameMenu {
   private container: HTMLElement;
-  private startCallback: (() => void) | null = null;
+  private startCallback: ((options: GameOptions) => void) | null = null;
+  
+  // Seed input field
+  private seedInput: HTMLInputElement | null = null;
+  
+  // Mode and mission selection and the briefing
+  private modeSelect: HTMLSelectElement | null = null;
+  private missionSelect: HTMLSelectElement | null = null;
+  private missionRow: HTMLDivElement | null = null;
+  private opponentSelect: HTMLSelectElement | null = null;
+  private briefingElement: HTMLDivElement | null = null;
+  
+  // Car selection and its stats
+  private vehicleSelect: HTMLSelectElement | null = null;
+  private vehicleStatsElement: HTMLDivElement | null = null;
+  
+  // Options of the previous session, offered again as the defaults
+  private lastOptions: GameOptions | null;
+  
+  // Saved progress deciding which cars can be picked (null plays with everything unlocked)
+  private saveManager: SaveManager | null;
 
-  constructor(container: HTMLElement) {
+  /**
+   * Constructor
+   * @param container DOM element to render the menu in
+   * @param lastOptions Options of the previous session, if any
+   * @param saveManager Saved progress, if any
+   */
+  constructor(container: HTMLElement, lastOptions: GameOptions | null = null, saveManager: SaveManager | null = null) {
     this.container = container;
+    this.lastOptions = lastOptions;
+    this.saveManager = saveManager;
   }
 
   /**
@@ -19,7 +63,7 @@ export class GameMenu {
   /**
    * Set callback for when game starts
    */
-  public onGameStart(callback: () => void): void {
+  public onGameStart(callback: (options: GameOptions) => void): void {
     this.startCallback = callback;
   }
 
@@ -65,17 +109,29 @@ export class GameMenu {
         <li>D / → - Steer Right</li>
         <li>SPACE - Handbrake</li>
         <li>C - Switch Camera View (Driver / Close / Standard)</li>
+        <li>ESC - Pause (resume, restart, settings, quit)</li>
       </ul>
       <p>Hit humans for points (+100). Avoid animals (-200 points)!</p>
+      <p>Crashing into buildings, walls and props damages your car. Lose all your health and you are wrecked!</p>
+      <p>Rival drivers hunt pedestrians and will ram you. Wreck them for a bonus (+1000)!</p>
     `;
     
+    // Mode and mission selection with briefing
+    const missionElement = this.createModeSelector();
+    
+    // Car selection with stats
+    const vehicleElement = this.createVehicleSelector();
+    
+    // City seed selection
+    const seedElement = this.createSeedSelector();
+    
     // Start button
     const startButton = document.createElement('button');
     startButton.className = 'start-button';
     startButton.textContent = 'START CARNAGE';
     startButton.addEventListener('click', () => {
       if (this.startCallback) {
-        this.startCallback();
+        this.startCallback(this.getSelectedOptions());
       } else {
         console.log('Game would start here, but no callback is set yet.');
       }
@@ -84,11 +140,511 @@ export class GameMenu {
     // Append all elements to menu container
     menuContainer.appendChild(titleElement);
     menuContainer.appendChild(subtitleElement);
+    
+    // Pick up where the last session left off
+    const continueElement = this.createContinueSection();
+    if (continueElement) {
+      menuContainer.appendChild(continueElement);
+    }
+    
     menuContainer.appendChild(descriptionElement);
     menuContainer.appendChild(howToPlayElement);
+    menuContainer.appendChild(missionElement);
+    menuContainer.appendChild(vehicleElement);
+    menuContainer.appendChild(seedElement);
     menuContainer.appendChild(startButton);
     
+    // High score tables of past runs
+    if (this.saveManager) {
+      const leaderboardButton = document.createElement('button');
+      leaderboardButton.className = 'menu-button';
+      leaderboardButton.textContent = 'HIGH SCORES';
+      leaderboardButton.addEventListener('click', () => this.showLeaderboard());
+      menuContainer.appendChild(leaderboardButton);
+      
+      const settingsButton = document.createElement('button');
+      settingsButton.className = 'menu-button';
+      settingsButton.textContent = 'SETTINGS';
+      settingsButton.addEventListener('click', () => this.showSettings());
+      menuContainer.appendChild(settingsButton);
+    }
+    
     // Add menu to the container
     this.container.appendChild(menuContainer);
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Create the Continue button and career summary for a returning player
+   * @returns Continue section, or null if there is nothing to continue
+   */
+  private createContinueSection(): HTMLDivElement | null {
+    if (!this.saveManager) return null;
+    
+    const lastOptions = this.saveManager.getLastOptions();
+    if (!lastOptions) return null;
+    
+    const continueElement = document.createElement('div');
+    continueElement.className = 'continue-section';
+    
+    const continueButton = document.createElement('button');
+    continueButton.className = 'continue-button';
+    continueButton.textContent = 'CONTINUE';
+    continueButton.addEventListener('click', () => {
+      if (this.startCallback) {
+        this.startCallback(lastOptions);
+      }
+    });
+    
+    // What Continue will start, and how the career is going
+    const career = this.saveManager.getCareer();
+    const best = this.saveManager.getBestScore(lastOptions.mode);
+    const mission = lastOptions.missionId ? getMission(lastOptions.missionId) : null;
+    const session = mission ? mission.title : this.getModeLabel(lastOptions.mode);
+    
+    const summary = document.createElement('div');
+    summary.className = 'career-summary';
+    summary.innerHTML = `
+      <p>${session} in ${getVehicleSpec(lastOptions.vehicleId).name}, city seed ${lastOptions.seed}${best !== null ? ` - best score ${best}` : ''}</p>
+      <p>Career: ${career.totalScore} points, ${career.runsPlayed} runs, ${career.completedMissions.length}/${missions.length} missions, ${career.racesWon} races won</p>
+    `;
+    
+    continueElement.appendChild(continueButton);
+    continueElement.appendChild(summary);
+    
+    return continueElement;
+  }
+  
+  /**
+   * Create the game mode and mission selectors with a briefing of the selection
+   */
+  private createModeSelector(): HTMLDivElement {
+    const modeElement = document.createElement('div');
+    modeElement.className = 'mission-selector';
+    
+    // Game mode
+    const modeRow = document.createElement('div');
+    modeRow.className = 'mission-selector-row';
+    
+    const modeLabel = document.createElement('label');
+    modeLabel.textContent = 'MODE';
+    modeLabel.htmlFor = 'mode-select';
+    
+    this.modeSelect = document.createElement('select');
+    this.modeSelect.id = 'mode-select';
+    
+    for (const entry of MODES) {
+      const option = document.createElement('option');
+      option.value = entry.mode;
+      option.textContent = entry.label;
+      this.modeSelect.appendChild(option);
+    }
+    
+    if (this.lastOptions) {
+      this.modeSelect.value = this.lastOptions.mode;
+    }
+    
+    this.modeSelect.addEventListener('change', () => this.updateBriefing());
+    
+    modeRow.appendChild(modeLabel);
+    modeRow.appendChild(this.modeSelect);
+    
+    // Mission (only shown in mission mode)
+    this.missionRow = document.createElement('div');
+    this.missionRow.className = 'mission-selector-row';
+    
+    const missionLabel = document.createElement('label');
+    missionLabel.textContent = 'MISSION';
+    missionLabel.htmlFor = 'mission-select';
+    
+    this.missionSelect = document.createElement('select');
+    this.missionSelect.id = 'mission-select';
+    
+    for (const mission of missions) {
+      const option = document.createElement('option');
+      option.value = mission.id;
+      option.textContent = mission.title;
+      this.missionSelect.appendChild(option);
+    }
+    
+    if (this.lastOptions && this.lastOptions.missionId) {
+      this.missionSelect.value = this.lastOptions.missionId;
+    }
+    
+    this.missionSelect.addEventListener('change', () => this.updateBriefing());
+    
+    this.missionRow.appendChild(missionLabel);
+    this.missionRow.appendChild(this.missionSelect);
+    
+    // Number of AI rivals
+    const opponentRow = document.createElement('div');
+    opponentRow.className = 'mission-selector-row';
+    
+    const opponentLabel = document.createElement('label');
+    opponentLabel.textContent = 'RIVALS';
+    opponentLabel.htmlFor = 'opponent-select';
+    
+    this.opponentSelect = document.createElement('select');
+    this.opponentSelect.id = 'opponent-select';
+    for (let count = 0; count <= 4; count++) {
+      const option = document.createElement('option');
+      option.value = count.toString();
+      option.textContent = count === 0 ? 'None' : count.toString();
+      this.opponentSelect.appendChild(option);
+    }
+    this.opponentSelect.value = (this.lastOptions ? this.lastOptions.opponentCount : 2).toString();
+    
+    opponentRow.appendChild(opponentLabel);
+    opponentRow.appendChild(this.opponentSelect);
+    
+    this.briefingElement = document.createElement('div');
+    this.briefingElement.className = 'mission-briefing';
+    
+    modeElement.appendChild(modeRow);
+    modeElement.appendChild(this.missionRow);
+    modeElement.appendChild(opponentRow);
+    modeElement.appendChild(this.briefingElement);
+    
+    this.updateBriefing();
+    
+    return modeElement;
+  }
+  
+  /**
+   * Get the menu name of a game mode
+   * @param mode Game mode
+   * @returns Mode label
+   */
+  private getModeLabel(mode: GameMode): string {
+    const entry = MODES.find(candidate => candidate.mode === mode);
+    return entry ? entry.label : mode;
+  }
+  
+  /**
+   * Show the briefing of the selected mode or mission
+   */
+  private updateBriefing(): void {
+    if (!this.briefingElement || !this.modeSelect || !this.missionSelect || !this.missionRow) return;
+    
+    const mode = this.modeSelect.value as GameMode;
+    this.missionRow.style.display = mode === GameMode.MISSION ? 'flex' : 'none';
+    
+    if (mode === GameMode.FREE_ROAM) {
+      this.briefingElement.innerHTML = '<p>No objectives, no time limit. Just carnage.</p>';
+      return;
+    }
+    
+    if (mode === GameMode.RACE) {
+      this.briefingElement.innerHTML = `
+        <p>Drive ${RACE_LAPS} laps through the checkpoint gates. Follow the green route on the minimap.</p>
+        <p>Short on driving skills? Waste all ${RACE_PEDESTRIANS} pedestrians in town to win anyway.</p>
+      `;
+      return;
+    }
+    
+    const mission = getMission(this.missionSelect.value);
+    if (!mission) return;
+    
+    const minutes = Math.floor(mission.timeLimit / 60);
+    const seconds = (mission.timeLimit % 60).toString().padStart(2, '0');
+    const objectives = mission.objectives
+      .map(objective => `<li>${objective.description}</li>`)
+      .join('');
+    
+    this.briefingElement.innerHTML = `
+      <p>${mission.briefing}</p>
+      <ul>${objectives}</ul>
+      <p>Time limit: ${minutes}:${seconds}</p>
+    `;
+  }
+  
+  /**
+   * Create the car selector with the stats of the selected car
+   */
+  private createVehicleSelector(): HTMLDivElement {
+    const vehicleElement = document.createElement('div');
+    vehicleElement.className = 'mission-selector';
+    
+    const vehicleRow = document.createElement('div');
+    vehicleRow.className = 'mission-selector-row';
+    
+    const label = document.createElement('label');
+    label.textContent = 'CAR';
+    label.htmlFor = 'vehicle-select';
+    
+    this.vehicleSelect = document.createElement('select');
+    this.vehicleSelect.id = 'vehicle-select';
+    
+    for (const vehicle of vehicles) {
+      const option = document.createElement('option');
+      option.value = vehicle.id;
+      option.textContent = vehicle.name;
+      
+      // Locked cars are listed with what it takes to unlock them
+      if (!this.isVehicleUnlocked(vehicle.id)) {
+        option.disabled = true;
+        option.textContent = `${vehicle.name} (${vehicle.unlockScore} career points)`;
+      }
+      
+      this.vehicleSelect.appendChild(option);
+    }
+    
+    const lastVehicleId = this.lastOptions ? this.lastOptions.vehicleId : DEFAULT_VEHICLE_ID;
+    this.vehicleSelect.value = this.isVehicleUnlocked(lastVehicleId) ? lastVehicleId : DEFAULT_VEHICLE_ID;
+    this.vehicleSelect.addEventListener('change', () => this.updateVehicleStats());
+    
+    vehicleRow.appendChild(label);
+    vehicleRow.appendChild(this.vehicleSelect);
+    
+    this.vehicleStatsElement = document.createElement('div');
+    this.vehicleStatsElement.className = 'vehicle-stats';
+    
+    vehicleElement.appendChild(vehicleRow);
+    vehicleElement.appendChild(this.vehicleStatsElement);
+    
+    this.updateVehicleStats();
+    
+    return vehicleElement;
+  }
+  
+  /**
+   * Check whether a car can be picked
+   * @param vehicleId Vehicle id
+   * @returns True if unlocked, or when playing without a save
+   */
+  private isVehicleUnlocked(vehicleId: string): boolean {
+    return this.saveManager ? this.saveManager.isVehicleUnlocked(vehicleId) : true;
+  }
+  
+  /**
+   * Show the description and handling bars of the selected car
+   */
+  private updateVehicleStats(): void {
+    if (!this.vehicleSelect || !this.vehicleStatsElement) return;
+    
+    const spec = getVehicleSpec(this.vehicleSelect.value);
+    
+    // Each stat relative to the best car in the catalog
+    const best = (value: (vehicle: VehicleSpec) => number) => Math.max(...vehicles.map(value));
+    const stats = [
+      { label: 'Speed', value: spec.maxSpeed / best(v => v.maxSpeed) },
+      { label: 'Acceleration', value: spec.acceleration / best(v => v.acceleration) },
+      { label: 'Handling', value: spec.turnSpeed / best(v => v.turnSpeed) },
+      { label: 'Armour', value: spec.durability / best(v => v.durability) }
+    ];
+    
+    const paint = '#' + spec.paintColor.toString(16).padStart(6, '0');
+    const bars = stats
+      .map(stat => `
+        <div class="vehicle-stat">
+          <span>${stat.label}</span>
+          <div class="vehicle-stat-bar"><div style="width: ${Math.round(stat.value * 100)}%; background-color: ${paint}"></div></div>
+        </div>
+      `)
+      .join('');
+    
+    const handling = spec.drivingModel === DrivingModel.RAYCAST
+      ? 'Simulated suspension and tyre grip'
+      : 'Arcade handling';
+    
+    this.vehicleStatsElement.innerHTML = `<p>${spec.description}</p><p>${handling}</p>${bars}`;
+  }
+  
+  /**
+   * Create the city seed selector
+   * Leaving the field empty generates a random city
+   */
+  private createSeedSelector(): HTMLDivElement {
+    const seedElement = document.createElement('div');
+    seedElement.className = 'seed-selector';
+    
+    const label = document.createElement('label');
+    label.textContent = 'CITY SEED';
+    label.htmlFor = 'seed-input';
+    
+    this.seedInput = document.createElement('input');
+    this.seedInput.id = 'seed-input';
+    this.seedInput.type = 'text';
+    this.seedInput.placeholder = 'Random';
+    if (this.lastOptions !== null) {
+      this.seedInput.value = this.lastOptions.seed.toString();
+    }
+    
+    // Roll a new random seed
+    const randomButton = document.createElement('button');
+    randomButton.className = 'seed-random-button';
+    randomButton.textContent = 'RANDOM';
+    randomButton.addEventListener('click', () => {
+      if (this.seedInput) {
+        this.seedInput.value = SeededRandom.createSeed().toString();
+      }
+    });
+    
+    seedElement.appendChild(label);
+    seedElement.appendChild(this.seedInput);
+    seedElement.appendChild(randomButton);
+    
+    return seedElement;
+  }
+  
+  /**
+   * Open the settings over the menu
+   */
+  private showSettings(): void {
+    if (!this.saveManager) return;
+    const saveManager = this.saveManager;
+    
+    const settingsScreen = new SettingsScreen(this.container, saveManager.getSettings());
+    settingsScreen.onSave((settings) => {
+      saveManager.setSettings(settings);
+      
+      // Controls and graphics are picked up when the next game starts
+      AudioManager.getInstance().applySettings(settings.audio);
+    });
+    settingsScreen.show();
+  }
+  
+  /**
+   * Show the high score tables in place of the menu
+   */
+  private showLeaderboard(): void {
+    if (!this.saveManager) return;
+    const saveManager = this.saveManager;
+    
+    // Hide the menu rather than removing it, so the selected mode, car and seed are kept
+    const menuElements = Array.from(this.container.children) as HTMLElement[];
+    const menuDisplays = menuElements.map(element => element.style.display);
+    menuElements.forEach(element => element.style.display = 'none');
+    
+    const leaderboardContainer = document.createElement('div');
+    leaderboardContainer.className = 'game-menu';
+    
+    const titleElement = document.createElement('h2');
+    titleElement.className = 'game-subtitle';
+    titleElement.textContent = 'HIGH SCORES';
+    
+    // Mode and city of the table to show
+    const selectorElement = document.createElement('div');
+    selectorElement.className = 'mission-selector';
+    
+    const modeRow = document.createElement('div');
+    modeRow.className = 'mission-selector-row';
+    const modeLabel = document.createElement('label');
+    modeLabel.textContent = 'MODE';
+    const modeSelect = document.createElement('select');
+    for (const entry of MODES) {
+      const option = document.createElement('option');
+      option.value = entry.mode;
+      option.textContent = entry.label;
+      modeSelect.appendChild(option);
+    }
+    modeSelect.value = this.modeSelect ? this.modeSelect.value : GameMode.FREE_ROAM;
+    modeRow.appendChild(modeLabel);
+    modeRow.appendChild(modeSelect);
+    
+    const seedRow = document.createElement('div');
+    seedRow.className = 'mission-selector-row';
+    const seedLabel = document.createElement('label');
+    seedLabel.textContent = 'CITY SEED';
+    const seedSelect = document.createElement('select');
+    seedRow.appendChild(seedLabel);
+    seedRow.appendChild(seedSelect);
+    
+    const tableElement = document.createElement('div');
+    tableElement.className = 'leaderboard';
+    
+    selectorElement.appendChild(modeRow);
+    selectorElement.appendChild(seedRow);
+    selectorElement.appendChild(tableElement);
+    
+    // Fill in the table of the selected mode and city
+    const showTable = () => {
+      const seed = parseInt(seedSelect.value, 10);
+      const entries = isNaN(seed) ? [] : saveManager.getLeaderboard(modeSelect.value as GameMode, seed);
+      if (entries.length === 0) {
+        tableElement.innerHTML = '<p>No runs yet. Go and make some carnage!</p>';
+        return;
+      }
+      
+      const rows = entries.map((entry, index) => {
+        const mission = entry.missionId ? getMission(entry.missionId) : null;
+        return `
+          <tr>
+            <td>${index + 1}</td>
+            <td>${entry.score}</td>
+            <td>${getVehicleSpec(entry.vehicleId).name}${mission ? ` (${mission.title})` : ''}</td>
+            <td>${entry.stats.pedestriansHit}</td>
+            <td>${entry.stats.bestCombo > 1 ? `x${entry.stats.bestCombo}` : '-'}</td>
+            <td>${Math.round(entry.stats.topSpeed * 3.6)} km/h</td>
+            <td>${formatRaceTime(entry.stats.time)}</td>
+            <td>${new Date(entry.date).toLocaleDateString()}</td>
+          </tr>
+        `;
+      }).join('');
+      
+      tableElement.innerHTML = `
+        <table class="leaderboard-table">
+          <tr><th>#</th><th>Score</th><th>Car</th><th>Peds</th><th>Combo</th><th>Top speed</th><th>Time</th><th>Date</th></tr>
+          ${rows}
+        </table>
+      `;
+    };
+    
+    // List the cities played in the selected mode, starting with the selected seed if it has a table
+    const showSeeds = () => {
+      const seeds = saveManager.getLeaderboardSeeds(modeSelect.value as GameMode);
+      const selectedSeed = this.seedInput ? SeededRandom.parseSeed(this.seedInput.value) : null;
+      
+      seedSelect.innerHTML = '';
+      for (const seed of seeds) {
+        const option = document.createElement('option');
+        option.value = seed.toString();
+        option.textContent = seed.toString();
+        seedSelect.appendChild(option);
+      }
+      if (selectedSeed !== null && seeds.includes(selectedSeed)) {
+        seedSelect.value = selectedSeed.toString();
+      }
+      showTable();
+    };
+    
+    modeSelect.addEventListener('change', showSeeds);
+    seedSelect.addEventListener('change', showTable);
+    showSeeds();
+    
+    const backButton = document.createElement('button');
+    backButton.className = 'menu-button';
+    backButton.textContent = 'BACK';
+    backButton.addEventListener('click', () => {
+      this.container.removeChild(leaderboardContainer);
+      menuElements.forEach((element, index) => element.style.display = menuDisplays[index]);
+    });
+    
+    leaderboardContainer.appendChild(titleElement);
+    leaderboardContainer.appendChild(selectorElement);
+    leaderboardContainer.appendChild(backButton);
+    
+    this.container.appendChild(leaderboardContainer);
+  }
+  
+  /**
+   * Collect the options selected in the menu
+   * @returns Game options
+   */
+  private getSelectedOptions(): GameOptions {
+    const parsedSeed = this.seedInput ? SeededRandom.parseSeed(this.seedInput.value) : null;
+    
+    const mode = this.modeSelect ? this.modeSelect.value as GameMode : GameMode.FREE_ROAM;
+    const missionId = mode === GameMode.MISSION && this.missionSelect ? this.missionSelect.value : null;
+    
+    const opponentCount = this.opponentSelect ? parseInt(this.opponentSelect.value, 10) : 0;
+    const vehicleId = this.vehicleSelect ? this.vehicleSelect.value : DEFAULT_VEHICLE_ID;
+    
+    return {
+      seed: parsedSeed ?? SeededRandom.createSeed(),
+      mode,
+      missionId,
+      opponentCount,
+      vehicleId
+    };
+  }
+}
@@ -2,7 +2,11 @@ import * as THREE from 'three';
 import { Vehicle } from '../entities/vehicles/Vehicle';
 import { Human } from '../entities/npcs/Human';
 import { Animal } from '../entities/npcs/Animal';
-import { NPCManager } from '../systems/NPCManager';
+import { OpponentManager } from '../systems/OpponentManager';
+import { TrafficManager } from '../systems/TrafficManager';
+import { PoliceManager } from '../systems/PoliceManager';
+import { RoadNetwork, ROAD_WIDTH } from '../core/environment/RoadNetwork';
+import { SpatialHash, SpatialCategory } from '../core/utils/SpatialHash';
 
 /**
  * Minimap class to render a 2D top-down view of the game world
@@ -16,7 +20,13 @@ export class Minimap {
   private minimap: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private playerVehicle: Vehicle | null = null;
-  private npcManager: NPCManager | null = null;
+  private spatialHash: SpatialHash | null = null;
+  private opponentManager: OpponentManager | null = null;
+  private trafficManager: TrafficManager | null = null;
+  private policeManager: PoliceManager | null = null;
+  private roadNetwork: RoadNetwork | null = null;
+  private targetPosition: THREE.Vector3 | null = null;
+  private route: THREE.Vector3[] | null = null;
   
   // Minimap settings
   private readonly size: number = 150; // Size in pixels
@@ -25,7 +35,14 @@ export class Minimap {
   private readonly playerColor: string = '#ffff00'; // Yellow for player
   private readonly humanColor: string = '#ffffff'; // White for humans
   private readonly animalColor: string = '#ff0000'; // Red for animals
+  private readonly opponentColor: string = '#ff8800'; // Orange for opponents
+  private readonly wreckColor: string = '#777777'; // Grey for wrecked opponents
+  private readonly trafficColor: string = '#3399ff'; // Blue for civilian cars
+  private readonly policeColors: string[] = ['#ff2222', '#2266ff']; // Flashing red/blue for police in pursuit
+  private readonly patrolColor: string = '#8899cc'; // Pale blue for patrolling police
   private readonly roadColor: string = '#555555'; // Grey for roads
+  private readonly targetColor: string = '#00ff00'; // Green for objectives
+  private readonly routeColor: string = 'rgba(0, 255, 0, 0.6)'; // Translucent green for routes
   private readonly buildingColor: string = '#222222'; // Dark grey for buildings
   private readonly borderColor: string = '#aaaaaa'; // Border color
   
@@ -67,11 +84,59 @@ export class Minimap {
   }
   
   /**
-   * Set the NPC manager to get NPCs from
-   * @param npcManager NPC manager
+   * Set the spatial hash to look up nearby NPCs in
+   * @param spatialHash Spatial hash the NPCs are registered in
    */
-  public setNPCManager(npcManager: NPCManager): void {
-    this.npcManager = npcManager;
+  public setSpatialHash(spatialHash: SpatialHash): void {
+    this.spatialHash = spatialHash;
+  }
+  
+  /**
+   * Set the opponent manager to get AI opponents from
+   * @param opponentManager Opponent manager
+   */
+  public setOpponentManager(opponentManager: OpponentManager): void {
+    this.opponentManager = opponentManager;
+  }
+  
+  /**
+   * Set the traffic manager to get civilian cars from
+   * @param trafficManager Traffic manager
+   */
+  public setTrafficManager(trafficManager: TrafficManager): void {
+    this.trafficManager = trafficManager;
+  }
+  
+  /**
+   * Set the police manager to get police cars from
+   * @param policeManager Police manager
+   */
+  public setPoliceManager(policeManager: PoliceManager): void {
+    this.policeManager = policeManager;
+  }
+  
+  /**
+   * Set the road network to draw
+   * @param roadNetwork City road network
+   */
+  public setRoadNetwork(roadNetwork: RoadNetwork): void {
+    this.roadNetwork = roadNetwork;
+  }
+  
+  /**
+   * Set the objective location to point the player at
+   * @param position Target position, or null to clear it
+   */
+  public setTargetPosition(position: THREE.Vector3 | null): void {
+    this.targetPosition = position;
+  }
+  
+  /**
+   * Set the route to highlight on the map
+   * @param route Points along the route, or null to clear it
+   */
+  public setRoute(route: THREE.Vector3[] | null): void {
+    this.route = route;
   }
   
   /**
@@ -91,49 +156,191 @@ export class Minimap {
     const centerX = this.size / 2;
     const centerY = this.size / 2;
     
-    // Draw roads (simplified grid)
-    this.drawRoadsGrid(centerX, centerY, playerPosition);
+    // Draw roads
+    if (this.roadNetwork) {
+      this.drawRoads(centerX, centerY, playerPosition);
+    }
+    
+    // Draw route to the objective
+    if (this.route && this.route.length > 1) {
+      this.drawRoute(centerX, centerY, playerPosition);
+    }
+    
+    // Draw objective marker
+    if (this.targetPosition) {
+      this.drawTarget(centerX, centerY, playerPosition);
+    }
+    
+    // Draw civilian traffic
+    if (this.trafficManager) {
+      this.drawTraffic(centerX, centerY, playerPosition);
+    }
+    
+    // Draw opponents
+    if (this.opponentManager) {
+      this.drawOpponents(centerX, centerY, playerPosition);
+    }
+    
+    // Draw police
+    if (this.policeManager) {
+      this.drawPolice(centerX, centerY, playerPosition);
+    }
     
     // Draw player
     this.drawPlayer(centerX, centerY);
     
-    // Draw NPCs if NPC manager is set
-    if (this.npcManager) {
+    // Draw NPCs if the spatial hash is set
+    if (this.spatialHash) {
       this.drawNPCs(centerX, centerY, playerPosition);
     }
   }
   
   /**
-   * Draw a simplified grid representing roads
+   * Draw the road segments of the city road network
    */
-  private drawRoadsGrid(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+  private drawRoads(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.roadNetwork) return;
+    
     this.ctx.strokeStyle = this.roadColor;
-    this.ctx.lineWidth = 1;
+    this.ctx.lineWidth = ROAD_WIDTH / this.scale;
+    this.ctx.lineCap = 'square';
     
-    // Draw horizontal roads
-    for (let i = -100; i <= 100; i += 20) {
+    this.ctx.beginPath();
+    for (const segment of this.roadNetwork.getSegments()) {
       // Convert world coordinates to minimap coordinates
-      const y = centerY + ((i - playerPosition.z) / this.scale);
-      
-      if (y >= 0 && y <= this.size) {
-        this.ctx.beginPath();
-        this.ctx.moveTo(0, y);
-        this.ctx.lineTo(this.size, y);
-        this.ctx.stroke();
+      this.ctx.moveTo(
+        centerX + ((segment.start.x - playerPosition.x) / this.scale),
+        centerY + ((segment.start.z - playerPosition.z) / this.scale)
+      );
+      this.ctx.lineTo(
+        centerX + ((segment.end.x - playerPosition.x) / this.scale),
+        centerY + ((segment.end.z - playerPosition.z) / this.scale)
+      );
+    }
+    this.ctx.stroke();
+  }
+  
+  /**
+   * Draw the highlighted route as a polyline
+   */
+  private drawRoute(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.route) return;
+    
+    this.ctx.strokeStyle = this.routeColor;
+    this.ctx.lineWidth = 3;
+    this.ctx.lineJoin = 'round';
+    
+    this.ctx.beginPath();
+    this.route.forEach((point, i) => {
+      const x = centerX + ((point.x - playerPosition.x) / this.scale);
+      const y = centerY + ((point.z - playerPosition.z) / this.scale);
+      if (i === 0) {
+        this.ctx.moveTo(x, y);
+      } else {
+        this.ctx.lineTo(x, y);
       }
+    });
+    this.ctx.stroke();
+  }
+  
+  /**
+   * Draw the objective marker, pinned to the edge of the map when out of range
+   */
+  private drawTarget(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.targetPosition) return;
+    
+    let x = centerX + ((this.targetPosition.x - playerPosition.x) / this.scale);
+    let y = centerY + ((this.targetPosition.z - playerPosition.z) / this.scale);
+    
+    // Clamp to the minimap border
+    const margin = 6;
+    x = Math.max(margin, Math.min(this.size - margin, x));
+    y = Math.max(margin, Math.min(this.size - margin, y));
+    
+    this.ctx.fillStyle = this.targetColor;
+    this.ctx.strokeStyle = '#000000';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, 5, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+  }
+  
+  /**
+   * Draw civilian cars as small squares (only those in range)
+   */
+  private drawTraffic(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.trafficManager) return;
+    
+    for (const car of this.trafficManager.getCars()) {
+      const position = car.getPosition();
+      const x = centerX + ((position.x - playerPosition.x) / this.scale);
+      const y = centerY + ((position.z - playerPosition.z) / this.scale);
+      if (x < 0 || x > this.size || y < 0 || y > this.size) continue;
+      
+      this.ctx.fillStyle = car.isCrashed() ? this.wreckColor : this.trafficColor;
+      this.ctx.fillRect(x - 2.5, y - 2.5, 5, 5);
     }
+  }
+  
+  /**
+   * Draw AI opponents as squares, pinned to the edge of the map when out of range
+   */
+  private drawOpponents(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.opponentManager) return;
     
-    // Draw vertical roads
-    for (let i = -100; i <= 100; i += 20) {
-      // Convert world coordinates to minimap coordinates
-      const x = centerX + ((i - playerPosition.x) / this.scale);
+    const margin = 4;
+    for (const opponent of this.opponentManager.getOpponents()) {
+      const position = opponent.getPosition();
+      let x = centerX + ((position.x - playerPosition.x) / this.scale);
+      let y = centerY + ((position.z - playerPosition.z) / this.scale);
       
-      if (x >= 0 && x <= this.size) {
-        this.ctx.beginPath();
-        this.ctx.moveTo(x, 0);
-        this.ctx.lineTo(x, this.size);
-        this.ctx.stroke();
+      // Wrecks are only shown when in range
+      const inRange = x >= 0 && x <= this.size && y >= 0 && y <= this.size;
+      if (opponent.isWrecked() && !inRange) continue;
+      
+      x = Math.max(margin, Math.min(this.size - margin, x));
+      y = Math.max(margin, Math.min(this.size - margin, y));
+      
+      this.ctx.fillStyle = opponent.isWrecked() ? this.wreckColor : this.opponentColor;
+      this.ctx.fillRect(x - 4, y - 4, 8, 8);
+    }
+  }
+  
+  /**
+   * Draw police cars as circles; those chasing the player flash red and blue
+   * and are pinned to the edge of the map when out of range
+   */
+  private drawPolice(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
+    if (!this.policeManager) return;
+    
+    const margin = 5;
+    const flash = Math.floor(performance.now() / 250) % 2;
+    for (const policeCar of this.policeManager.getPoliceCars()) {
+      const position = policeCar.getPosition();
+      let x = centerX + ((position.x - playerPosition.x) / this.scale);
+      let y = centerY + ((position.z - playerPosition.z) / this.scale);
+      
+      // Only cars on a chase are tracked off the map
+      const inRange = x >= 0 && x <= this.size && y >= 0 && y <= this.size;
+      if (!policeCar.isInPursuit() && !inRange) continue;
+      
+      x = Math.max(margin, Math.min(this.size - margin, x));
+      y = Math.max(margin, Math.min(this.size - margin, y));
+      
+      if (policeCar.isWrecked()) {
+        this.ctx.fillStyle = this.wreckColor;
+      } else if (policeCar.isInPursuit()) {
+        this.ctx.fillStyle = this.policeColors[flash];
+      } else {
+        this.ctx.fillStyle = this.patrolColor;
       }
+      this.ctx.strokeStyle = '#ffffff';
+      this.ctx.lineWidth = 1;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, 4, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.stroke();
     }
   }
   
@@ -165,11 +372,12 @@ export class Minimap {
    * Draw NPCs on the minimap
    */
   private drawNPCs(centerX: number, centerY: number, playerPosition: THREE.Vector3): void {
-    if (!this.npcManager) return;
+    if (!this.spatialHash) return;
     
-    // Get all humans and animals from NPC manager
-    const humans = this.npcManager['humans'] as Human[];
-    const animals = this.npcManager['animals'] as Animal[];
+    // Only the humans and animals within the corners of the map
+    const range = (this.size / 2) * this.scale * Math.SQRT2;
+    const humans = this.spatialHash.queryRadius<Human>(SpatialCategory.HUMAN, playerPosition, range);
+    const animals = this.spatialHash.queryRadius<Animal>(SpatialCategory.ANIMAL, playerPosition, range);
     
     // Draw humans as white dots
     this.ctx.fillStyle = this.humanColor;
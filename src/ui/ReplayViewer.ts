@@ -0,0 +1,534 @@
+import * as THREE from 'three';
+import { CameraController, ReplayCameraMode } from '../core/CameraController';
+import {
+  ReplayClip,
+  ReplayEvent,
+  ReplayActorKind,
+  readReplayRotation,
+  serializeReplay
+} from '../systems/ReplayRecorder';
+
+// Playback speeds offered, slowest first
+const PLAYBACK_SPEEDS = [0.1, 0.25, 0.5, 1];
+
+// Colors of the stand-ins for objects removed since they were recorded
+const standInColors: Record<ReplayActorKind, number> = {
+  [ReplayActorKind.VEHICLE]: 0x888888,
+  [ReplayActorKind.PEDESTRIAN]: 0x3366cc,
+  [ReplayActorKind.ANIMAL]: 0x996633,
+  [ReplayActorKind.RAGDOLL_PART]: 0xcc3333
+};
+
+// Names of the replay cameras, in button order
+const cameraLabels: Record<ReplayCameraMode, string> = {
+  [ReplayCameraMode.FREE]: 'Free',
+  [ReplayCameraMode.CINEMATIC]: 'Cinematic'
+};
+
+// How an object looked before the replay took it over
+interface SavedTransform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  visible: boolean;
+}
+
+/**
+ * Plays back a recording by moving the scene's own objects, with a timeline
+ * to scrub, slow motion, free and cinematic cameras and export to a JSON file
+ */
+export class ReplayViewer {
+  private container: HTMLElement;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private cameraController: CameraController;
+  private clip: ReplayClip;
+  private seed: number;
+
+  private element: HTMLDivElement | null = null;
+  private timeline: HTMLInputElement | null = null;
+  private timeLabel: HTMLSpanElement | null = null;
+  private playButton: HTMLButtonElement | null = null;
+
+  // Playback state
+  private playhead: number = 0;
+  private playing: boolean = true;
+  private speed: number = 1;
+  private scrubbing: boolean = false;
+
+  // Object shown for each recorded actor, and the stand-ins made for removed ones
+  private displayObjects: Map<number, THREE.Object3D> = new Map();
+  private standIns: THREE.Mesh[] = [];
+
+  // Everything the replay moves or hides, put back on close
+  private savedTransforms: Map<THREE.Object3D, SavedTransform> = new Map();
+  private savedCamera: { position: THREE.Vector3; quaternion: THREE.Quaternion; fov: number };
+
+  // Actor the cameras follow
+  private focusActorId: number | null = null;
+
+  private eventCallback: ((event: ReplayEvent) => void) | null = null;
+  private closeCallback: (() => void) | null = null;
+  private keyListener: (event: KeyboardEvent) => void;
+
+  /**
+   * Constructor
+   * @param container DOM element to show the controls in
+   * @param scene Scene the recording is played back in
+   * @param camera Camera to film the replay with
+   * @param cameraController Controller of the camera
+   * @param clip Recording to play
+   * @param liveObjects Objects that can be recorded right now, hidden while not in the recording
+   * @param focusObject Object the cameras follow, usually the player's car
+   * @param seed City seed, written to exported files
+   */
+  constructor(
+    container: HTMLElement,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    cameraController: CameraController,
+    clip: ReplayClip,
+    liveObjects: THREE.Object3D[],
+    focusObject: THREE.Object3D | null,
+    seed: number
+  ) {
+    this.container = container;
+    this.scene = scene;
+    this.camera = camera;
+    this.cameraController = cameraController;
+    this.clip = clip;
+    this.seed = seed;
+    this.keyListener = this.handleKey.bind(this);
+
+    this.savedCamera = {
+      position: camera.position.clone(),
+      quaternion: camera.quaternion.clone(),
+      fov: camera.fov
+    };
+
+    liveObjects.forEach(object => this.saveTransform(object));
+    this.createDisplayObjects();
+    this.focusActorId = this.findFocusActor(focusObject);
+  }
+
+  /**
+   * Set callback for collisions reached during playback, e.g. to replay their effects
+   * @param callback Receives the recorded collision
+   */
+  public onEvent(callback: (event: ReplayEvent) => void): void {
+    this.eventCallback = callback;
+  }
+
+  /**
+   * Set callback for when the viewer is closed
+   * @param callback Called after the scene has been put back
+   */
+  public onClose(callback: () => void): void {
+    this.closeCallback = callback;
+  }
+
+  /**
+   * Remember how an object looks so it can be put back on close
+   * @param object Scene object
+   */
+  private saveTransform(object: THREE.Object3D): void {
+    if (this.savedTransforms.has(object)) return;
+    this.savedTransforms.set(object, {
+      position: object.position.clone(),
+      quaternion: object.quaternion.clone(),
+      visible: object.visible
+    });
+  }
+
+  /**
+   * Pick the object to show for each recorded actor, making boxes for those no longer in the scene
+   */
+  private createDisplayObjects(): void {
+    this.clip.actors.forEach(actor => {
+      if (actor.object.parent) {
+        this.saveTransform(actor.object);
+        this.displayObjects.set(actor.id, actor.object);
+        return;
+      }
+
+      const standIn = new THREE.Mesh(
+        new THREE.BoxGeometry(
+          Math.max(0.1, actor.size.x),
+          Math.max(0.1, actor.size.y),
+          Math.max(0.1, actor.size.z)
+        ),
+        new THREE.MeshStandardMaterial({ color: standInColors[actor.kind] })
+      );
+      standIn.castShadow = true;
+      standIn.visible = false;
+      this.scene.add(standIn);
+      this.standIns.push(standIn);
+      this.displayObjects.set(actor.id, standIn);
+    });
+  }
+
+  /**
+   * Find the actor the cameras follow
+   * @param focusObject Preferred object
+   * @returns Actor id, falling back to the first vehicle, or null if nothing was recorded
+   */
+  private findFocusActor(focusObject: THREE.Object3D | null): number | null {
+    let fallback: number | null = null;
+
+    for (const actor of this.clip.actors.values()) {
+      if (actor.object === focusObject) return actor.id;
+      if (fallback === null && actor.kind === ReplayActorKind.VEHICLE) {
+        fallback = actor.id;
+      }
+    }
+    if (fallback !== null) return fallback;
+
+    const first = this.clip.actors.keys().next();
+    return first.done ? null : first.value;
+  }
+
+  /**
+   * Show the controls and start playing from the beginning
+   */
+  public show(): void {
+    this.element = document.createElement('div');
+    this.element.style.position = 'absolute';
+    this.element.style.bottom = '20px';
+    this.element.style.left = '50%';
+    this.element.style.transform = 'translateX(-50%)';
+    this.element.style.width = '70%';
+    this.element.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+    this.element.style.color = '#ffffff';
+    this.element.style.padding = '10px 20px';
+    this.element.style.borderRadius = '10px';
+    this.element.style.border = '2px solid #ffcc00';
+    this.element.style.fontFamily = 'Arial, sans-serif';
+    this.element.style.fontSize = '14px';
+    this.element.style.zIndex = '1003';
+
+    // Collisions marked along the timeline
+    const markers = this.clip.events.map(event => `
+      <div style="position: absolute; top: 0; left: ${(event.time / this.clip.duration * 100).toFixed(2)}%;
+        width: 2px; height: 8px; background-color: #ff3333;"></div>
+    `).join('');
+
+    const speedOptions = PLAYBACK_SPEEDS.map(speed => `
+      <option value="${speed}" ${speed === this.speed ? 'selected' : ''}>${speed}x</option>
+    `).join('');
+
+    const cameraButtons = Object.values(ReplayCameraMode).map(mode => `
+      <button data-camera="${mode}">${cameraLabels[mode]}</button>
+    `).join('');
+
+    this.element.innerHTML = `
+      <div style="display: flex; align-items: center; gap: 10px;">
+        <span style="font-weight: bold; color: #ffcc00;">REPLAY</span>
+        <button id="replay-play" style="width: 70px;"></button>
+        <span id="replay-time" style="width: 100px;"></span>
+        <div style="position: relative; flex: 1;">
+          <input type="range" id="replay-timeline" min="0" max="${this.clip.duration}" step="0.01" value="0" style="width: 100%;">
+          <div style="position: relative; height: 8px;">${markers}</div>
+        </div>
+        <label>Speed <select id="replay-speed">${speedOptions}</select></label>
+      </div>
+      <div style="display: flex; align-items: center; gap: 10px; margin-top: 8px;">
+        <span>Camera</span>
+        ${cameraButtons}
+        <span style="flex: 1; color: #aaaaaa;">Drag to orbit and scroll to zoom the free camera. Space plays and pauses.</span>
+        <button id="replay-export">Export JSON</button>
+        <button id="replay-close">Close</button>
+      </div>
+    `;
+
+    this.container.appendChild(this.element);
+
+    this.timeline = this.element.querySelector('#replay-timeline');
+    this.timeLabel = this.element.querySelector('#replay-time');
+    this.playButton = this.element.querySelector('#replay-play');
+    this.addInputHandlers(this.element);
+
+    window.addEventListener('keydown', this.keyListener);
+
+    this.cameraController.startReplay(ReplayCameraMode.CINEMATIC);
+    this.updateCameraButtons();
+    this.setPlaying(true);
+    this.applyTime(0);
+  }
+
+  /**
+   * Wire up the controls
+   * @param element Controls element
+   */
+  private addInputHandlers(element: HTMLDivElement): void {
+    if (this.playButton) {
+      this.playButton.addEventListener('click', () => this.setPlaying(!this.playing));
+    }
+
+    // Playback holds while the timeline is dragged
+    const timeline = this.timeline;
+    if (timeline) {
+      timeline.addEventListener('input', () => {
+        this.scrubbing = true;
+        this.playhead = parseFloat(timeline.value);
+      });
+      timeline.addEventListener('change', () => {
+        this.scrubbing = false;
+      });
+    }
+
+    const speedSelect = element.querySelector('#replay-speed') as HTMLSelectElement | null;
+    if (speedSelect) {
+      speedSelect.addEventListener('change', () => {
+        this.speed = parseFloat(speedSelect.value);
+      });
+    }
+
+    element.querySelectorAll<HTMLButtonElement>('button[data-camera]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.cameraController.setReplayMode(button.dataset.camera as ReplayCameraMode);
+        this.updateCameraButtons();
+      });
+    });
+
+    const exportButton = element.querySelector('#replay-export');
+    if (exportButton) {
+      exportButton.addEventListener('click', () => this.exportClip());
+    }
+
+    const closeButton = element.querySelector('#replay-close');
+    if (closeButton) {
+      closeButton.addEventListener('click', () => this.close());
+    }
+  }
+
+  /**
+   * Play and pause with Space, step frame by frame with the arrow keys
+   * @param event Keyboard event
+   */
+  private handleKey(event: KeyboardEvent): void {
+    if (event.key === ' ') {
+      event.preventDefault();
+      this.setPlaying(!this.playing);
+    } else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      this.setPlaying(false);
+      this.stepFrame(event.key === 'ArrowRight' ? 1 : -1);
+    }
+  }
+
+  /**
+   * Play or pause
+   * @param playing Whether to play
+   */
+  private setPlaying(playing: boolean): void {
+    this.playing = playing;
+    if (this.playButton) {
+      this.playButton.textContent = playing ? 'Pause' : 'Play';
+    }
+  }
+
+  /**
+   * Move the playhead to a neighbouring recorded frame
+   * @param direction 1 for the next frame, -1 for the previous one
+   */
+  private stepFrame(direction: number): void {
+    const index = this.findFrameIndex(this.playhead);
+    const frames = this.clip.frames;
+    // Between two frames, stepping back lands on the earlier one
+    const next = direction < 0 && this.playhead > frames[index].time ? index : index + direction;
+    this.playhead = frames[THREE.MathUtils.clamp(next, 0, frames.length - 1)].time;
+  }
+
+  /**
+   * Highlight the button of the active camera
+   */
+  private updateCameraButtons(): void {
+    if (!this.element) return;
+
+    const active = this.cameraController.getReplayMode();
+    this.element.querySelectorAll<HTMLButtonElement>('button[data-camera]').forEach(button => {
+      button.style.fontWeight = button.dataset.camera === active ? 'bold' : 'normal';
+      button.style.borderColor = button.dataset.camera === active ? '#ffcc00' : '';
+    });
+  }
+
+  /**
+   * Advance playback and film it
+   * @param deltaTime Real time since last update
+   */
+  public update(deltaTime: number): void {
+    let replayDelta = 0;
+
+    if (this.playing && !this.scrubbing) {
+      const previous = this.playhead;
+      replayDelta = deltaTime * this.speed;
+      this.playhead += replayDelta;
+
+      // Loop back to the start once the end is reached
+      if (this.playhead >= this.clip.duration) {
+        this.fireEvents(previous, this.clip.duration);
+        this.playhead = 0;
+      } else {
+        this.fireEvents(previous, this.playhead);
+      }
+    }
+
+    this.applyTime(this.playhead);
+    this.cameraController.updateReplay(this.getFocusPosition(), replayDelta);
+  }
+
+  /**
+   * Report the collisions played through
+   * @param from Playhead before the update (exclusive)
+   * @param to Playhead after the update (inclusive)
+   */
+  private fireEvents(from: number, to: number): void {
+    if (!this.eventCallback) return;
+
+    for (const event of this.clip.events) {
+      if (event.time > from && event.time <= to) {
+        this.eventCallback(event);
+      }
+    }
+  }
+
+  /**
+   * Find the last recorded frame at or before a time
+   * @param time Playback time
+   * @returns Frame index
+   */
+  private findFrameIndex(time: number): number {
+    const frames = this.clip.frames;
+    let low = 0;
+    let high = frames.length - 1;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (frames[middle].time <= time) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Pose the scene as it was at a time, blending between the recorded frames around it
+   * @param time Playback time
+   */
+  private applyTime(time: number): void {
+    const frames = this.clip.frames;
+    const index = this.findFrameIndex(time);
+    const frame = frames[index];
+    const nextFrame = frames[Math.min(index + 1, frames.length - 1)];
+    const blend = nextFrame.time > frame.time
+      ? THREE.MathUtils.clamp((time - frame.time) / (nextFrame.time - frame.time), 0, 1)
+      : 0;
+
+    // Where each actor is in the next frame
+    const nextSlots = new Map<number, number>();
+    nextFrame.actorIds.forEach((id, slot) => nextSlots.set(id, slot));
+
+    // Hide everything, then show what was there at this time
+    this.savedTransforms.forEach((_saved, object) => object.visible = false);
+    this.standIns.forEach(standIn => standIn.visible = false);
+
+    const nextPosition = new THREE.Vector3();
+    const nextRotation = new THREE.Quaternion();
+
+    frame.actorIds.forEach((id, slot) => {
+      const object = this.displayObjects.get(id);
+      if (!object) return;
+
+      object.visible = true;
+      object.position.fromArray(frame.positions, slot * 3);
+      readReplayRotation(frame.rotations, slot, object.quaternion);
+
+      const nextSlot = nextSlots.get(id);
+      if (nextSlot !== undefined && blend > 0) {
+        nextPosition.fromArray(nextFrame.positions, nextSlot * 3);
+        readReplayRotation(nextFrame.rotations, nextSlot, nextRotation);
+        object.position.lerp(nextPosition, blend);
+        object.quaternion.slerp(nextRotation, blend);
+      }
+    });
+
+    this.updateTimeline(time);
+  }
+
+  /**
+   * Show the playhead on the timeline
+   * @param time Playback time
+   */
+  private updateTimeline(time: number): void {
+    if (this.timeline && !this.scrubbing) {
+      this.timeline.value = time.toFixed(2);
+    }
+    if (this.timeLabel) {
+      this.timeLabel.textContent = `${time.toFixed(1)} / ${this.clip.duration.toFixed(1)} s`;
+    }
+  }
+
+  /**
+   * Get where the followed actor is in the replay
+   * @returns Position to film
+   */
+  private getFocusPosition(): THREE.Vector3 {
+    const object = this.focusActorId !== null ? this.displayObjects.get(this.focusActorId) : undefined;
+    return object ? object.position.clone() : new THREE.Vector3();
+  }
+
+  /**
+   * Download the recording as a JSON file
+   */
+  private exportClip(): void {
+    try {
+      const blob = new Blob([serializeReplay(this.clip, this.seed)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `replay-${this.seed}-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Could not export replay:', error);
+    }
+  }
+
+  /**
+   * Put the scene and camera back as they were and remove the controls
+   */
+  public close(): void {
+    window.removeEventListener('keydown', this.keyListener);
+
+    this.savedTransforms.forEach((saved, object) => {
+      object.position.copy(saved.position);
+      object.quaternion.copy(saved.quaternion);
+      object.visible = saved.visible;
+    });
+    this.savedTransforms.clear();
+
+    this.standIns.forEach(standIn => {
+      this.scene.remove(standIn);
+      standIn.geometry.dispose();
+      (standIn.material as THREE.Material).dispose();
+    });
+    this.standIns = [];
+    this.displayObjects.clear();
+
+    this.cameraController.stopReplay();
+    this.camera.position.copy(this.savedCamera.position);
+    this.camera.quaternion.copy(this.savedCamera.quaternion);
+    this.camera.fov = this.savedCamera.fov;
+    this.camera.updateProjectionMatrix();
+
+    if (this.element && this.element.parentNode) {
+      this.element.parentNode.removeChild(this.element);
+    }
+    this.element = null;
+
+    if (this.closeCallback) {
+      this.closeCallback();
+    }
+  }
+}
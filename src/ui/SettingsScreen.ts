@@ -0,0 +1,342 @@
+import { SoundCategory } from '../systems/AudioManager';
+import { ControlAction, normalizeKey } from '../core/controls/VehicleControls';
+import {
+  GameSettings,
+  GraphicsQuality,
+  graphicsPresets,
+  controlLabels,
+  soundCategoryLabels,
+  createDefaultSettings,
+  copyKeyBindings,
+  findKeyConflict,
+  formatKey
+} from '../game/Settings';
+
+// Keys each control can have
+const KEYS_PER_CONTROL = 2;
+
+/**
+ * Settings panel for audio volumes, key bindings and graphics quality
+ * Shown from the main menu and the pause menu; changes only take effect when saved
+ */
+export class SettingsScreen {
+  private container: HTMLElement;
+  private element: HTMLDivElement | null = null;
+  private messageElement: HTMLDivElement | null = null;
+
+  // Copy of the settings being edited
+  private settings: GameSettings;
+
+  private saveCallback: ((settings: GameSettings) => void) | null = null;
+  private closeCallback: (() => void) | null = null;
+
+  // Key binding waiting for a key press
+  private rebinding: { action: ControlAction; slot: number } | null = null;
+  private rebindListener: (event: KeyboardEvent) => void;
+
+  /**
+   * Constructor
+   * @param container DOM element to show the panel in
+   * @param settings Current settings
+   */
+  constructor(container: HTMLElement, settings: GameSettings) {
+    this.container = container;
+    this.settings = {
+      ...settings,
+      audio: { ...settings.audio, categoryVolumes: { ...settings.audio.categoryVolumes } },
+      keyBindings: copyKeyBindings(settings.keyBindings)
+    };
+    this.rebindListener = this.handleRebindKey.bind(this);
+  }
+
+  /**
+   * Set callback for when the settings are saved
+   * @param callback Receives the new settings
+   */
+  public onSave(callback: (settings: GameSettings) => void): void {
+    this.saveCallback = callback;
+  }
+
+  /**
+   * Set callback for when the panel is closed
+   * @param callback Called after the panel is removed
+   */
+  public onClose(callback: () => void): void {
+    this.closeCallback = callback;
+  }
+
+  /**
+   * Show the panel
+   */
+  public show(): void {
+    this.element = document.createElement('div');
+    this.element.style.position = 'absolute';
+    this.element.style.top = '50%';
+    this.element.style.left = '50%';
+    this.element.style.transform = 'translate(-50%, -50%)';
+    this.element.style.maxHeight = '90%';
+    this.element.style.overflowY = 'auto';
+    this.element.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
+    this.element.style.color = '#ffffff';
+    this.element.style.padding = '20px 30px';
+    this.element.style.borderRadius = '10px';
+    this.element.style.border = '2px solid #ffcc00';
+    this.element.style.fontFamily = 'Arial, sans-serif';
+    this.element.style.fontSize = '14px';
+    this.element.style.textAlign = 'left';
+    this.element.style.zIndex = '1003';
+
+    this.container.appendChild(this.element);
+    this.render();
+  }
+
+  /**
+   * Remove the panel without saving
+   */
+  public close(): void {
+    this.stopRebinding();
+
+    if (this.element && this.element.parentNode) {
+      this.element.parentNode.removeChild(this.element);
+    }
+    this.element = null;
+
+    if (this.closeCallback) {
+      this.closeCallback();
+    }
+  }
+
+  /**
+   * Check whether the panel is waiting for a key to bind
+   * @returns True while rebinding
+   */
+  public isRebinding(): boolean {
+    return this.rebinding !== null;
+  }
+
+  /**
+   * Build the panel from the settings being edited
+   */
+  private render(): void {
+    if (!this.element) return;
+
+    const sectionTitle = (title: string) =>
+      `<h3 style="color: #ffcc00; margin: 15px 0 5px;">${title}</h3>`;
+
+    // Audio
+    const categoryRows = Object.values(SoundCategory).map(category => `
+      <tr>
+        <td style="padding-right: 15px;">${soundCategoryLabels[category]}</td>
+        <td><input type="range" min="0" max="100" data-category="${category}"
+          value="${Math.round(this.settings.audio.categoryVolumes[category] * 100)}"></td>
+      </tr>
+    `).join('');
+
+    // Controls
+    const controlRows = (Object.keys(controlLabels) as ControlAction[]).map(action => {
+      const slots = [];
+      for (let slot = 0; slot < KEYS_PER_CONTROL; slot++) {
+        const key = this.settings.keyBindings[action][slot];
+        const waiting = this.rebinding && this.rebinding.action === action && this.rebinding.slot === slot;
+        const label = waiting ? '...' : (key !== undefined ? formatKey(key) : '-');
+        slots.push(`<button data-action="${action}" data-slot="${slot}" style="width: 90px; margin: 2px;">${label}</button>`);
+      }
+      return `
+        <tr>
+          <td style="padding-right: 15px;">${controlLabels[action]}</td>
+          <td>${slots.join('')}</td>
+        </tr>
+      `;
+    }).join('');
+
+    // Graphics
+    const qualityOptions = Object.values(GraphicsQuality).map(quality => `
+      <option value="${quality}" ${quality === this.settings.graphicsQuality ? 'selected' : ''}>${graphicsPresets[quality].label}</option>
+    `).join('');
+
+    this.element.innerHTML = `
+      <div style="font-size: 32px; font-weight: bold; color: #ffcc00; text-align: center;">SETTINGS</div>
+      ${sectionTitle('AUDIO')}
+      <table>
+        <tr>
+          <td style="padding-right: 15px;">Sound</td>
+          <td><input type="checkbox" id="settings-sound-enabled" ${this.settings.audio.soundEnabled ? 'checked' : ''}></td>
+        </tr>
+        <tr>
+          <td style="padding-right: 15px;">Master</td>
+          <td><input type="range" min="0" max="100" id="settings-master-volume"
+            value="${Math.round(this.settings.audio.masterVolume * 100)}"></td>
+        </tr>
+        ${categoryRows}
+      </table>
+      ${sectionTitle('CONTROLS')}
+      <table>${controlRows}</table>
+      ${sectionTitle('GRAPHICS')}
+      <label>Quality <select id="settings-graphics-quality">${qualityOptions}</select></label>
+      <div id="settings-message" style="min-height: 20px; margin-top: 10px;"></div>
+      <div style="text-align: center; margin-top: 10px;">
+        <button id="settings-save">Save</button>
+        <button id="settings-defaults">Defaults</button>
+        <button id="settings-back">Back</button>
+      </div>
+    `;
+
+    this.messageElement = this.element.querySelector('#settings-message');
+    this.addInputHandlers(this.element);
+  }
+
+  /**
+   * Wire up the inputs of the panel
+   * @param element Panel element
+   */
+  private addInputHandlers(element: HTMLDivElement): void {
+    const soundToggle = element.querySelector('#settings-sound-enabled') as HTMLInputElement | null;
+    if (soundToggle) {
+      soundToggle.addEventListener('change', () => {
+        this.settings.audio.soundEnabled = soundToggle.checked;
+      });
+    }
+
+    const masterSlider = element.querySelector('#settings-master-volume') as HTMLInputElement | null;
+    if (masterSlider) {
+      masterSlider.addEventListener('input', () => {
+        this.settings.audio.masterVolume = parseInt(masterSlider.value, 10) / 100;
+      });
+    }
+
+    element.querySelectorAll<HTMLInputElement>('input[data-category]').forEach(slider => {
+      slider.addEventListener('input', () => {
+        const category = slider.dataset.category as SoundCategory;
+        this.settings.audio.categoryVolumes[category] = parseInt(slider.value, 10) / 100;
+      });
+    });
+
+    element.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.startRebinding(button.dataset.action as ControlAction, parseInt(button.dataset.slot || '0', 10));
+      });
+    });
+
+    const qualitySelect = element.querySelector('#settings-graphics-quality') as HTMLSelectElement | null;
+    if (qualitySelect) {
+      qualitySelect.addEventListener('change', () => {
+        this.settings.graphicsQuality = qualitySelect.value as GraphicsQuality;
+      });
+    }
+
+    const saveButton = element.querySelector('#settings-save');
+    if (saveButton) {
+      saveButton.addEventListener('click', () => {
+        if (this.saveCallback) {
+          this.saveCallback(this.settings);
+        }
+        this.close();
+      });
+    }
+
+    const defaultsButton = element.querySelector('#settings-defaults');
+    if (defaultsButton) {
+      defaultsButton.addEventListener('click', () => {
+        this.stopRebinding();
+        this.settings = createDefaultSettings();
+        this.render();
+        this.showMessage('Defaults restored. Save to keep them.', '#ffffff');
+      });
+    }
+
+    const backButton = element.querySelector('#settings-back');
+    if (backButton) {
+      backButton.addEventListener('click', () => this.close());
+    }
+  }
+
+  /**
+   * Wait for the next key press to bind to a control
+   * @param action Control to rebind
+   * @param slot Which of its keys to replace
+   */
+  private startRebinding(action: ControlAction, slot: number): void {
+    this.stopRebinding();
+    this.rebinding = { action, slot };
+
+    // Capture on the window so the game's own key handlers don't see the key
+    window.addEventListener('keydown', this.rebindListener, true);
+
+    this.render();
+    this.showMessage(`Press a key for ${controlLabels[action]} (Esc to cancel, Backspace to clear)`, '#ffffff');
+  }
+
+  /**
+   * Stop waiting for a key press
+   */
+  private stopRebinding(): void {
+    if (!this.rebinding) return;
+    this.rebinding = null;
+    window.removeEventListener('keydown', this.rebindListener, true);
+  }
+
+  /**
+   * Bind the pressed key, unless it is already in use
+   * @param event Keyboard event
+   */
+  private handleRebindKey(event: KeyboardEvent): void {
+    if (!this.rebinding) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const { action, slot } = this.rebinding;
+    const keys = this.settings.keyBindings[action];
+    const key = normalizeKey(event.key);
+
+    if (key === 'Escape') {
+      this.stopRebinding();
+      this.render();
+      return;
+    }
+
+    // Clear the slot, but never leave a control without a key
+    if (key === 'Backspace' || key === 'Delete') {
+      if (keys.length <= 1 && slot < keys.length) {
+        this.showMessage(`${controlLabels[action]} needs at least one key`, '#ff3333');
+        return;
+      }
+      keys.splice(slot, 1);
+      this.stopRebinding();
+      this.render();
+      return;
+    }
+
+    const conflict = findKeyConflict(this.settings.keyBindings, key, action);
+    if (conflict) {
+      this.showMessage(`${formatKey(key)} is already used for ${conflict}. Press another key.`, '#ff3333');
+      return;
+    }
+
+    // Drop the key from the control's other slot before placing it here
+    const existing = keys.indexOf(key);
+    if (existing !== -1) {
+      keys.splice(existing, 1);
+    }
+    if (slot < keys.length) {
+      keys[slot] = key;
+    } else {
+      keys.push(key);
+    }
+
+    this.stopRebinding();
+    this.render();
+  }
+
+  /**
+   * Show a hint or error under the settings
+   * @param text Message
+   * @param color Text color
+   */
+  private showMessage(text: string, color: string): void {
+    if (this.messageElement) {
+      this.messageElement.textContent = text;
+      this.messageElement.style.color = color;
+    }
+  }
+}